@@ -0,0 +1,85 @@
+#!/usr/bin/env -S node --experimental-strip-types
+
+// Deterministic cross-artifact consistency analysis (no LLM)
+//
+// Checks spec.md, plan.md, tasks.md and contracts/ of the current feature for
+// stories without tasks, unknown [USn] tags, success criteria without a
+// .tftest.hcl task, and leftover [BRACKETS] / {{DOUBLE_BRACES}} placeholders.
+//
+// Usage: ./analyze.ts [OPTIONS]
+//
+// OPTIONS:
+//   --json                Output the full report as JSON
+//   --feature-dir DIR     Analyze DIR instead of the feature for the current branch
+//   --help, -h            Show help message
+//
+// EXIT CODES:
+//   0: No CRITICAL findings
+//   1: CRITICAL findings present, or the feature directory could not be found
+
+import { existsSync } from "node:fs";
+
+import { analyzeFeature, renderMarkdown } from "../lib/analyze/index.ts";
+import { checkFeatureBranch, featurePathsForDir, getFeaturePaths } from "../lib/common.ts";
+
+const HELP = `Usage: analyze.ts [OPTIONS]
+
+Deterministic cross-artifact consistency analysis for the current feature.
+
+OPTIONS:
+  --json                Output the full report as JSON
+  --feature-dir DIR     Analyze DIR instead of the feature for the current branch
+  --help, -h            Show this help message
+
+EXIT CODES:
+  0: No CRITICAL findings
+  1: CRITICAL findings present, or the feature directory could not be found
+`;
+
+function main(argv: string[]): number {
+  let jsonMode = false;
+  let featureDir: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--feature-dir" || arg.startsWith("--feature-dir=")) {
+      featureDir = arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : argv[++i];
+      if (!featureDir) {
+        console.error("ERROR: --feature-dir requires a value");
+        return 1;
+      }
+    } else if (arg === "--help" || arg === "-h") {
+      process.stdout.write(HELP);
+      return 0;
+    } else {
+      console.error(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    }
+  }
+
+  let paths;
+  if (featureDir !== undefined) {
+    paths = featurePathsForDir(featureDir);
+  } else {
+    paths = getFeaturePaths();
+    const branchError = checkFeatureBranch(paths.currentBranch, paths.hasGit);
+    if (branchError !== undefined) {
+      console.error(`ERROR: ${branchError}`);
+      return 1;
+    }
+  }
+
+  if (!existsSync(paths.featureDir)) {
+    console.error(`ERROR: Feature directory not found: ${paths.featureDir}`);
+    console.error("Run /speckit.specify first to create the feature structure.");
+    return 1;
+  }
+
+  const report = analyzeFeature(paths.featureDir);
+  process.stdout.write(jsonMode ? JSON.stringify(report, null, 2) + "\n" : renderMarkdown(report));
+  return report.metrics.bySeverity.CRITICAL > 0 ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
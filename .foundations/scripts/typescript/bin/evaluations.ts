@@ -0,0 +1,158 @@
+#!/usr/bin/env -S node --experimental-strip-types
+
+// Judge evaluation history: validate, append and report
+//
+// Works on <FEATURE_DIR>/evaluations/{spec-reviews,code-reviews,technical-quality,
+// judge-human-correlation}.jsonl as described in judge-evaluation-criteria.md.
+//
+// Usage: ./evaluations.ts COMMAND [OPTIONS]
+//
+// COMMANDS:
+//   validate                  Check every line of every history file
+//   report                    Improvement trends per feature plus calibration
+//   calibrate                 Judge-human correlation and monthly drift only
+//   append KIND JSON|-        Validate one record and append it (KIND: spec|code|technical|correlation)
+//
+// OPTIONS:
+//   --json                    Output in JSON format
+//   --feature-dir DIR         Use DIR (repeatable); default is the current feature
+//   --all                     Use every specs/NNN-* directory
+//   --help, -h                Show help message
+//
+// EXIT CODES:
+//   0: Success
+//   1: Malformed history lines, invalid record, or usage error
+
+import { readFileSync } from "node:fs";
+
+import { formatDiagnostic } from "../lib/artifacts/errors.ts";
+import { featurePathsForDir, getFeaturePaths, getRepoRoot, listFeatureDirs } from "../lib/common.ts";
+import {
+  HISTORY_FILES,
+  type HistoryKind,
+  InvalidRecordError,
+  appendRecord,
+  buildHistoryReport,
+  evaluationsDir,
+  renderMarkdown,
+} from "../lib/evaluations/index.ts";
+
+const HELP = `Usage: evaluations.ts COMMAND [OPTIONS]
+
+Validate, append and report on judge evaluation history (JSONL).
+
+COMMANDS:
+  validate                  Check every line of every history file
+  report                    Improvement trends per feature plus calibration
+  calibrate                 Judge-human correlation and monthly drift only
+  append KIND JSON|-        Validate one record and append it
+                            KIND: spec | code | technical | correlation
+                            Use - to read the record from stdin
+
+OPTIONS:
+  --json                    Output in JSON format
+  --feature-dir DIR         Use DIR (repeatable); default is the current feature
+  --all                     Use every specs/NNN-* directory
+  --help, -h                Show this help message
+
+EXIT CODES:
+  0: Success
+  1: Malformed history lines, invalid record, or usage error
+`;
+
+const COMMANDS = ["validate", "report", "calibrate", "append"] as const;
+type Command = (typeof COMMANDS)[number];
+
+async function main(argv: string[]): Promise<number> {
+  let jsonMode = false;
+  let all = false;
+  const featureDirs: string[] = [];
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--all") {
+      all = true;
+    } else if (arg === "--feature-dir" || arg.startsWith("--feature-dir=")) {
+      const value = arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : argv[++i];
+      if (!value) {
+        console.error("ERROR: --feature-dir requires a value");
+        return 1;
+      }
+      featureDirs.push(featurePathsForDir(value).featureDir);
+    } else if (arg === "--help" || arg === "-h") {
+      process.stdout.write(HELP);
+      return 0;
+    } else if (arg.startsWith("-") && arg !== "-") {
+      console.error(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const command = positional.shift() as Command | undefined;
+  if (command === undefined || !COMMANDS.includes(command)) {
+    console.error(`ERROR: Expected a command (${COMMANDS.join(", ")}). Use --help for usage information.`);
+    return 1;
+  }
+
+  if (all) featureDirs.push(...listFeatureDirs(getRepoRoot()));
+  if (featureDirs.length === 0) featureDirs.push(getFeaturePaths().featureDir);
+
+  if (command === "append") {
+    const [kind, input] = positional;
+    if (!kind || !(kind in HISTORY_FILES) || input === undefined) {
+      console.error("ERROR: append requires KIND (spec|code|technical|correlation) and a JSON record or -");
+      return 1;
+    }
+    if (featureDirs.length !== 1) {
+      console.error("ERROR: append writes to exactly one feature directory");
+      return 1;
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(input === "-" ? readFileSync(0, "utf8") : input);
+    } catch (error) {
+      console.error(`ERROR: Record is not valid JSON: ${(error as Error).message}`);
+      return 1;
+    }
+    try {
+      await appendRecord(kind as HistoryKind, evaluationsDir(featureDirs[0]), record);
+    } catch (error) {
+      if (!(error instanceof InvalidRecordError)) throw error;
+      console.error(`ERROR: ${error.message}`);
+      return 1;
+    }
+    if (!jsonMode) console.log(`✓ Appended to ${HISTORY_FILES[kind as HistoryKind]}`);
+    return 0;
+  }
+
+  const report = await buildHistoryReport(featureDirs);
+
+  if (command === "validate") {
+    if (jsonMode) {
+      console.log(JSON.stringify({ valid: report.rejected.length === 0, rejected: report.rejected }));
+    } else if (report.rejected.length === 0) {
+      console.log("✓ All evaluation history lines are valid");
+    } else {
+      for (const diagnostic of report.rejected) console.error(formatDiagnostic(diagnostic));
+    }
+  } else if (command === "calibrate") {
+    const calibration = { correlations: report.correlations, drift: report.drift, rejected: report.rejected };
+    if (jsonMode) {
+      console.log(JSON.stringify(calibration, null, 2));
+    } else {
+      const markdown = renderMarkdown({ ...calibration, features: [] });
+      process.stdout.write(markdown.slice(markdown.indexOf("## Calibration")));
+    }
+  } else {
+    process.stdout.write(jsonMode ? JSON.stringify(report, null, 2) + "\n" : renderMarkdown(report));
+  }
+
+  return report.rejected.length > 0 ? 1 : 0;
+}
+
+process.exitCode = await main(process.argv.slice(2));
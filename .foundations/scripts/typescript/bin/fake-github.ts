@@ -0,0 +1,117 @@
+#!/usr/bin/env -S node --experimental-strip-types
+
+// Local stand-in for the GitHub REST API (no network access needed)
+//
+// Serves the issue, sub-issue, comment and label endpoints the speckit issue commands
+// use from memory. Point the commands at it with --api-url and any
+// GH_TOKEN; inspect the result in the --state file or the --log request log.
+//
+// Usage: ./fake-github.ts [OPTIONS]
+//
+// OPTIONS:
+//   --port N              Port to listen on (default: any free port)
+//   --state FILE          Load issues from FILE at start and save them after every change
+//   --log FILE            Append every request to FILE as JSON Lines
+//   --token TOKEN         Reject requests without this bearer token
+//   --issue TITLE         Seed an issue in --repo (repeatable)
+//   --repo OWNER/NAME     Repository to create, and to seed --issue in (default: octo/repo)
+//   --help, -h            Show help message
+//
+// EXIT CODES:
+//   0: Stopped with SIGINT or SIGTERM
+//   1: Invalid arguments or unreadable state file
+
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from "node:fs";
+
+import { type FakeGitHubData, emptyFakeData, seedIssue, startFakeGitHub } from "../lib/github/index.ts";
+
+const HELP = `Usage: fake-github.ts [OPTIONS]
+
+Serve the GitHub issue, sub-issue, comment and label endpoints from memory.
+
+OPTIONS:
+  --port N              Port to listen on (default: any free port)
+  --state FILE          Load issues from FILE at start and save them after every change
+  --log FILE            Append every request to FILE as JSON Lines
+  --token TOKEN         Reject requests without this bearer token
+  --issue TITLE         Seed an issue in --repo (repeatable)
+  --repo OWNER/NAME     Repository to create, and to seed --issue in (default: octo/repo)
+  --help, -h            Show this help message
+
+EXAMPLE:
+  ./fake-github.ts --port 8765 --issue "VPC module" &
+  GITHUB_REPOSITORY=octo/repo GH_TOKEN=test ./speckit.ts post-issue-progress \\
+    --api-url http://127.0.0.1:8765 1 "Environment Validation" complete "All gates passed"
+`;
+
+async function main(argv: string[]): Promise<number> {
+  let port = 0;
+  let stateFile: string | undefined;
+  let logFile: string | undefined;
+  let token: string | undefined;
+  let repo = "octo/repo";
+  const issues: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      process.stdout.write(HELP);
+      return 0;
+    }
+    if (!["--port", "--state", "--log", "--token", "--issue", "--repo"].includes(arg)) {
+      console.error(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    }
+    const value = argv[++i];
+    if (value === undefined) {
+      console.error(`ERROR: ${arg} requires a value`);
+      return 1;
+    }
+    if (arg === "--port") port = Number(value);
+    else if (arg === "--state") stateFile = value;
+    else if (arg === "--log") logFile = value;
+    else if (arg === "--token") token = value;
+    else if (arg === "--issue") issues.push(value);
+    else repo = value;
+  }
+  if (!Number.isInteger(port) || port < 0) {
+    console.error("ERROR: --port must be a port number");
+    return 1;
+  }
+
+  let data: FakeGitHubData = emptyFakeData();
+  if (stateFile !== undefined && existsSync(stateFile)) {
+    try {
+      data = JSON.parse(readFileSync(stateFile, "utf8")) as FakeGitHubData;
+    } catch (error) {
+      console.error(`ERROR: Cannot read ${stateFile}: ${(error as Error).message}`);
+      return 1;
+    }
+  }
+  data.repos[repo] ??= { issues: [], comments: [] };
+  for (const title of issues) seedIssue(data, repo, { title });
+  const save = (current: FakeGitHubData) => {
+    if (stateFile !== undefined) writeFileSync(stateFile, `${JSON.stringify(current, null, 2)}\n`);
+  };
+  save(data);
+
+  const server = await startFakeGitHub({
+    port,
+    token,
+    data,
+    onChange: save,
+    onRequest: (request) => {
+      if (logFile !== undefined) appendFileSync(logFile, `${JSON.stringify(request)}\n`);
+    },
+  });
+  console.log(`Fake GitHub API listening on ${server.url}`);
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  await server.close();
+  return 0;
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,150 @@
+#!/usr/bin/env -S node --experimental-strip-types
+
+// Render a .foundations/templates report from a JSON data object
+//
+// Derived values (weighted scores, totals, READINESS_BADGE, STATUS_BADGE,
+// CHK### IDs) are computed; rendering fails if any slot is left unfilled or a
+// badge is not one of the options listed in the template.
+//
+// Usage: ./render-report.ts KIND DATA.json|- [OPTIONS]
+//
+// KINDS:
+//   code-quality              code-quality-evaluation-report.md
+//   deployment                deployment-report-template.md
+//   remediation               remediation-log-template.md
+//   checklist                 checklist-template.md
+//
+// OPTIONS:
+//   --template PATH           Use PATH instead of the .foundations/templates file
+//   --output FILE             Write the report to FILE instead of stdout
+//   --help, -h                Show help message
+//
+// EXIT CODES:
+//   0: Success
+//   1: Unfilled slots, invalid badge, invalid data, or usage error
+
+import { readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+
+import { formatDiagnostic } from "../lib/artifacts/errors.ts";
+import { getRepoRoot } from "../lib/common.ts";
+import {
+  type ChecklistData,
+  type CodeQualityReportData,
+  type DeploymentReportData,
+  type RemediationLogData,
+  TEMPLATE_FILES,
+  type Template,
+  type TemplateKind,
+  TemplateRenderError,
+  readTemplate,
+  renderChecklist,
+  renderCodeQualityReport,
+  renderDeploymentReport,
+  renderRemediationLog,
+  templatePath,
+  validateReportData,
+} from "../lib/templates/index.ts";
+
+const HELP = `Usage: render-report.ts KIND DATA.json|- [OPTIONS]
+
+Render a report template from a JSON data object. Use - to read the data
+from stdin.
+
+KINDS:
+  code-quality              code-quality-evaluation-report.md
+  deployment                deployment-report-template.md
+  remediation               remediation-log-template.md
+  checklist                 checklist-template.md
+
+OPTIONS:
+  --template PATH           Use PATH instead of the .foundations/templates file
+  --output FILE             Write the report to FILE instead of stdout
+  --help, -h                Show this help message
+
+EXIT CODES:
+  0: Success
+  1: Unfilled slots, invalid badge, invalid data, or usage error
+`;
+
+function render(kind: TemplateKind, template: Template, data: unknown): string {
+  switch (kind) {
+    case "code-quality":
+      return renderCodeQualityReport(template, data as CodeQualityReportData);
+    case "deployment":
+      return renderDeploymentReport(template, data as DeploymentReportData);
+    case "remediation":
+      return renderRemediationLog(template, data as RemediationLogData);
+    case "checklist":
+      return renderChecklist(template, data as ChecklistData);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let templateFile: string | undefined;
+  let outputFile: string | undefined;
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const option = /^--(template|output)(?:=(.*))?$/.exec(arg);
+    if (option) {
+      const value = option[2] ?? argv[++i];
+      if (!value) {
+        console.error(`ERROR: --${option[1]} requires a value`);
+        return 1;
+      }
+      if (option[1] === "template") templateFile = value;
+      else outputFile = value;
+    } else if (arg === "--help" || arg === "-h") {
+      process.stdout.write(HELP);
+      return 0;
+    } else if (arg.startsWith("-") && arg !== "-") {
+      console.error(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [kind, input] = positional as [TemplateKind | undefined, string | undefined];
+  if (kind === undefined || !(kind in TEMPLATE_FILES) || input === undefined) {
+    console.error(`ERROR: Expected KIND (${Object.keys(TEMPLATE_FILES).join(", ")}) and a data file or -`);
+    return 1;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(input === "-" ? 0 : input, "utf8"));
+  } catch (error) {
+    console.error(`ERROR: Could not read data: ${(error as Error).message}`);
+    return 1;
+  }
+  const problems = validateReportData(kind, data);
+  if (problems.length > 0) {
+    console.error(`ERROR: Data does not match the ${kind} report:`);
+    for (const problem of problems) console.error(`  ${problem}`);
+    return 1;
+  }
+
+  let report: string;
+  try {
+    report = render(kind, await readTemplate(templateFile ?? templatePath(kind, getRepoRoot())), data);
+  } catch (error) {
+    if (error instanceof TemplateRenderError) {
+      for (const diagnostic of error.diagnostics) console.error(formatDiagnostic(diagnostic));
+      return 1;
+    }
+    throw error;
+  }
+
+  if (outputFile === undefined) {
+    process.stdout.write(report);
+  } else {
+    await writeFile(outputFile, report);
+    console.error(`✓ Wrote ${outputFile}`);
+  }
+  return 0;
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,57 @@
+#!/usr/bin/env -S node --experimental-strip-types
+
+// Spec Kit workflow commands (one tool for .specify and .foundations)
+//
+// Each subcommand that replaces a bash script of the same name keeps its
+// options, --json output and exit codes. The scripts under
+// .specify/scripts/bash and .foundations/scripts/bash delegate here.
+//
+// Usage: ./speckit.ts COMMAND [ARGS...]
+//
+// COMMANDS:
+//   create-new-feature        Create the NNN-name branch and spec.md for a feature
+//   check-prerequisites       Check that plan.md (and tasks.md) exist; list design docs
+//   setup-plan                Seed plan.md from the plan template
+//   validate-env              Check GATE/WARN environment prerequisites
+//   paths                     Print the feature path variables
+//   update-agent-context      Record plan.md technologies in agent context files
+//   checkpoint-commit         Commit and push a workflow step's artifacts
+//   post-issue-progress       Keep an updatable progress comment on a GitHub issue
+//   issue-to-spec             Draft spec.md from a deployment requirements issue form
+//   tasks-to-issues           Sync tasks.md to story issues with task sub-issues
+//   workflow                  Track, resume and roll back the feature's workflow phases
+//
+// EXIT CODES:
+//   Those of the command; 1 for an unknown command
+
+import { COMMANDS, processContext } from "../lib/speckit/index.ts";
+
+const HELP = `Usage: speckit.ts COMMAND [ARGS...]
+
+Spec Kit workflow commands. Run 'speckit.ts COMMAND --help' for a command's
+options.
+
+COMMANDS:
+${Object.entries(COMMANDS)
+  .map(([name, command]) => `  ${name.padEnd(24)}  ${command.summary}`)
+  .join("\n")}
+`;
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  if (name === "--help" || name === "-h") {
+    process.stdout.write(HELP);
+    return 0;
+  }
+  if (name === undefined) {
+    process.stderr.write(HELP);
+    return 1;
+  }
+  if (!Object.hasOwn(COMMANDS, name)) {
+    console.error(`ERROR: Unknown command '${name}'. Use --help for usage information.`);
+    return 1;
+  }
+  return COMMANDS[name].run(rest, processContext());
+}
+
+process.exitCode = await main(process.argv.slice(2));
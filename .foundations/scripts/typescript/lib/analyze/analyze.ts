@@ -0,0 +1,328 @@
+// Deterministic cross-artifact consistency checks over a specs/NNN-* feature
+// directory. Covers the mechanical subset of the speckit.analyze agent's
+// detection passes so the same artifacts always produce the same findings.
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import {
+  ArtifactParseError,
+  type PlanDocument,
+  type SpecDocument,
+  type StoryId,
+  type TasksDocument,
+  parseContracts,
+  parsePlan,
+  parseSpec,
+  parseTasks,
+} from "../artifacts/index.ts";
+import { type Line, toLines } from "../artifacts/markdown.ts";
+import { type Finding, type FindingInput, type Severity, SEVERITIES, assignIds } from "./findings.ts";
+import { findPlaceholders } from "./placeholders.ts";
+
+export interface StoryCoverage {
+  story: StoryId;
+  priority: string;
+  title: string;
+  taskIds: string[];
+}
+
+export interface CriterionCoverage {
+  criterion: string;
+  taskIds: string[];
+}
+
+export interface AnalysisMetrics {
+  userStories: number;
+  storiesWithTasks: number;
+  /** Percentage of user stories with at least one task. */
+  storyCoverage: number;
+  tasks: number;
+  completedTasks: number;
+  successCriteria: number;
+  successCriteriaCovered: number;
+  placeholders: number;
+  clarifications: number;
+  bySeverity: Record<Severity, number>;
+}
+
+export interface AnalysisReport {
+  featureDir: string;
+  /** Artifacts that were found and read, relative to the feature directory. */
+  artifacts: string[];
+  findings: Finding[];
+  storyCoverage: StoryCoverage[];
+  criterionCoverage: CriterionCoverage[];
+  metrics: AnalysisMetrics;
+}
+
+interface LoadedArtifact<T> {
+  file: string;
+  lines: Line[];
+  document?: T;
+}
+
+const TFTEST = /\.tftest\.hcl\b/;
+
+function load<T>(
+  featureDir: string,
+  file: string,
+  parse: (source: string, file: string) => T,
+  findings: FindingInput[],
+): LoadedArtifact<T> | undefined {
+  const path = join(featureDir, file);
+  if (!existsSync(path)) return undefined;
+
+  const source = readFileSync(path, "utf8");
+  const artifact: LoadedArtifact<T> = { file, lines: toLines(source) };
+  try {
+    artifact.document = parse(source, file);
+  } catch (error) {
+    if (!(error instanceof ArtifactParseError)) throw error;
+    for (const diagnostic of error.diagnostics) {
+      findings.push({
+        category: "Structure",
+        severity: "CRITICAL",
+        locations: [{ file, line: diagnostic.line }],
+        summary: `${file} cannot be parsed: ${diagnostic.message}`,
+        recommendation: `Fix the ${file} structure to match its template`,
+      });
+    }
+  }
+  return artifact;
+}
+
+function requireArtifact(file: string, command: string, findings: FindingInput[]): void {
+  findings.push({
+    category: "Structure",
+    severity: "CRITICAL",
+    locations: [{ file }],
+    summary: `${file} is missing`,
+    recommendation: `Run ${command} to create ${file}`,
+  });
+}
+
+/** Tasks that belong to `story`, either by `[USn]` tag or by sitting untagged in that story's phase. */
+function tasksFor(story: StoryId, tasks: TasksDocument): string[] {
+  const phaseStory = new Map(tasks.phases.map((phase) => [phase.id, phase.story?.id]));
+  return tasks.tasks
+    .filter((task) => task.story === story || (task.story === null && phaseStory.get(task.phase) === story))
+    .map((task) => task.id);
+}
+
+function checkStories(spec: SpecDocument, tasks: TasksDocument, findings: FindingInput[]): StoryCoverage[] {
+  const known = new Map(spec.userStories.map((story) => [story.id, story]));
+
+  for (const task of tasks.tasks) {
+    if (task.story !== null && !known.has(task.story)) {
+      findings.push({
+        category: "Inconsistency",
+        severity: "HIGH",
+        locations: [{ file: "tasks.md", line: task.line }],
+        summary: `Task ${task.id} is tagged [${task.story}] but spec.md has no User Story ${task.story.slice(2)}`,
+        recommendation: "Retag the task with an existing story or add the story to spec.md",
+      });
+    }
+  }
+
+  for (const phase of tasks.phases) {
+    if (phase.story === null) continue;
+    const story = known.get(phase.story.id);
+    if (story === undefined) {
+      findings.push({
+        category: "Inconsistency",
+        severity: "HIGH",
+        locations: [{ file: "tasks.md", line: phase.line }],
+        summary: `Phase ${phase.id} targets User Story ${phase.story.number}, which spec.md does not define`,
+        recommendation: "Align the phase heading with the user stories in spec.md",
+      });
+    } else if (story.priority !== phase.story.priority) {
+      findings.push({
+        category: "Inconsistency",
+        severity: "MEDIUM",
+        locations: [
+          { file: "tasks.md", line: phase.line },
+          { file: "spec.md", line: story.line },
+        ],
+        summary: `User Story ${story.number} is ${story.priority} in spec.md but ${phase.story.priority} in tasks.md`,
+        recommendation: "Use the spec.md priority in the tasks.md phase heading",
+      });
+    }
+  }
+
+  return spec.userStories.map((story) => {
+    const taskIds = tasksFor(story.id, tasks);
+    if (taskIds.length === 0) {
+      findings.push({
+        category: "Coverage",
+        severity: story.rank === 1 ? "CRITICAL" : "HIGH",
+        locations: [{ file: "spec.md", line: story.line }],
+        summary: `User Story ${story.number} (${story.priority}) "${story.title}" has no tasks`,
+        recommendation: `Add [${story.id}] tasks to tasks.md`,
+      });
+    }
+    return { story: story.id, priority: story.priority, title: story.title, taskIds };
+  });
+}
+
+/**
+ * A success criterion is covered when a task touching a `.tftest.hcl` file
+ * cites its SC-### ID, or when the plan's Unit Tests table cites it against a
+ * test file that some task creates or edits.
+ */
+function checkCriteria(
+  spec: SpecDocument,
+  tasks: TasksDocument,
+  plan: PlanDocument | undefined,
+  findings: FindingInput[],
+): CriterionCoverage[] {
+  const testTasks = tasks.tasks.filter((task) => TFTEST.test(task.description));
+  if (testTasks.length === 0 && tasks.tasks.length > 0) {
+    findings.push({
+      category: "Coverage",
+      severity: "HIGH",
+      locations: [{ file: "tasks.md" }],
+      summary: "No task creates or runs a .tftest.hcl test file",
+      recommendation: "Add test tasks per user story; tests are mandatory for module features",
+    });
+  }
+
+  return spec.successCriteria.map((criterion) => {
+    const cites = new RegExp(`\\b${criterion.id}\\b`);
+    const taskIds = new Set(testTasks.filter((task) => cites.test(task.description)).map((task) => task.id));
+    for (const test of plan?.testFiles ?? []) {
+      if (!cites.test(test.validates) && !cites.test(test.scope)) continue;
+      for (const task of testTasks) {
+        if (task.paths.includes(test.file)) taskIds.add(task.id);
+      }
+    }
+
+    if (taskIds.size === 0) {
+      findings.push({
+        category: "Coverage",
+        severity: "MEDIUM",
+        locations: [{ file: "spec.md", line: criterion.line }],
+        summary: `${criterion.id} is not covered by any .tftest.hcl task`,
+        recommendation: `Reference ${criterion.id} from the test task (or plan.md Unit Tests row) that verifies it`,
+      });
+    }
+    return { criterion: criterion.id, taskIds: [...taskIds].sort() };
+  });
+}
+
+function checkPlaceholders(artifact: LoadedArtifact<unknown>, findings: FindingInput[]): number {
+  const placeholders = findPlaceholders(artifact.lines);
+  const byLine = new Map<number, string[]>();
+  for (const placeholder of placeholders) {
+    byLine.set(placeholder.line, [...(byLine.get(placeholder.line) ?? []), placeholder.token]);
+  }
+  for (const [line, tokens] of byLine) {
+    const unique = [...new Set(tokens)];
+    findings.push({
+      category: "Ambiguity",
+      severity: "HIGH",
+      locations: [{ file: artifact.file, line }],
+      summary: `Unfilled template placeholder${unique.length > 1 ? "s" : ""} ${unique.join(", ")}`,
+      recommendation: unique.every((token) => token.startsWith("{{"))
+        ? "Fill in the machine-generated value"
+        : "Replace the template text with feature-specific content",
+    });
+  }
+  return placeholders.length;
+}
+
+function checkClarifications(artifact: LoadedArtifact<unknown>, findings: FindingInput[]): number {
+  let count = 0;
+  for (const line of artifact.lines) {
+    if (line.kind !== "text" || !line.text.includes("NEEDS CLARIFICATION")) continue;
+    count++;
+    findings.push({
+      category: "Ambiguity",
+      severity: "HIGH",
+      locations: [{ file: artifact.file, line: line.number }],
+      summary: "Unresolved NEEDS CLARIFICATION marker",
+      recommendation: "Run /speckit.clarify or record the decision in the artifact",
+    });
+  }
+  return count;
+}
+
+function checkPlaceholderTasks(tasks: TasksDocument, findings: FindingInput[]): number {
+  const placeholders = tasks.tasks.filter((task) => task.number === null);
+  for (const task of placeholders) {
+    findings.push({
+      category: "Ambiguity",
+      severity: "HIGH",
+      locations: [{ file: "tasks.md", line: task.line }],
+      summary: `Task still has the template ID ${task.id}`,
+      recommendation: "Number the task sequentially (T###)",
+    });
+  }
+  return placeholders.length;
+}
+
+export function analyzeFeature(featureDir: string): AnalysisReport {
+  const findings: FindingInput[] = [];
+
+  const spec = load(featureDir, "spec.md", parseSpec, findings);
+  const plan = load(featureDir, "plan.md", parsePlan, findings);
+  const tasks = load(featureDir, "tasks.md", parseTasks, findings);
+  if (spec === undefined) requireArtifact("spec.md", "/speckit.specify", findings);
+  if (plan === undefined) requireArtifact("plan.md", "/speckit.plan", findings);
+  if (tasks === undefined) requireArtifact("tasks.md", "/speckit.tasks", findings);
+
+  const contracts: LoadedArtifact<unknown>[] = [];
+  const contractsDir = join(featureDir, "contracts");
+  if (existsSync(contractsDir)) {
+    for (const name of readdirSync(contractsDir).filter((n) => n.endsWith(".md")).sort()) {
+      // Only module-interfaces.md has a typed parser; other contracts are scanned for placeholders.
+      const parse = name === "module-interfaces.md" ? parseContracts : () => undefined;
+      const artifact = load<unknown>(featureDir, `contracts/${name}`, parse, findings);
+      if (artifact !== undefined) contracts.push(artifact);
+    }
+  }
+
+  const loaded = [spec, plan, tasks, ...contracts].filter((artifact) => artifact !== undefined);
+  let placeholders = 0;
+  let clarifications = 0;
+  for (const artifact of loaded) {
+    placeholders += checkPlaceholders(artifact, findings);
+    clarifications += checkClarifications(artifact, findings);
+  }
+  if (tasks?.document !== undefined) {
+    placeholders += checkPlaceholderTasks(tasks.document, findings);
+  }
+
+  let storyCoverage: StoryCoverage[] = [];
+  let criterionCoverage: CriterionCoverage[] = [];
+  if (spec?.document !== undefined && tasks?.document !== undefined) {
+    storyCoverage = checkStories(spec.document, tasks.document, findings);
+    criterionCoverage = checkCriteria(spec.document, tasks.document, plan?.document, findings);
+  }
+
+  const numbered = assignIds(findings);
+  const bySeverity = Object.fromEntries(SEVERITIES.map((severity) => [severity, 0])) as Record<Severity, number>;
+  for (const finding of numbered) bySeverity[finding.severity]++;
+
+  const taskList = tasks?.document?.tasks ?? [];
+  const storiesWithTasks = storyCoverage.filter((coverage) => coverage.taskIds.length > 0).length;
+  return {
+    featureDir,
+    artifacts: loaded.map((artifact) => artifact.file),
+    findings: numbered,
+    storyCoverage,
+    criterionCoverage,
+    metrics: {
+      userStories: storyCoverage.length,
+      storiesWithTasks,
+      storyCoverage: storyCoverage.length === 0 ? 0 : Math.round((storiesWithTasks / storyCoverage.length) * 100),
+      tasks: taskList.length,
+      completedTasks: taskList.filter((task) => task.completed).length,
+      successCriteria: criterionCoverage.length,
+      successCriteriaCovered: criterionCoverage.filter((coverage) => coverage.taskIds.length > 0).length,
+      placeholders,
+      clarifications,
+      bySeverity,
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// Finding model shared by the analyzer passes.
+//
+// Severities follow the scale in .specify/memory/judge-evaluation-criteria.md
+// ("Issue Severity Levels"); categories and ID prefixes follow the
+// speckit.analyze report format (A1, C1, ...).
+
+export type Severity = "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+
+/** Order used for sorting and for "worst severity" comparisons. */
+export const SEVERITIES: readonly Severity[] = ["CRITICAL", "HIGH", "MEDIUM", "LOW"];
+
+/** Priority labels the judge criteria pair with each severity. */
+export const SEVERITY_PRIORITY: Record<Severity, string> = {
+  CRITICAL: "P0",
+  HIGH: "P1",
+  MEDIUM: "P2",
+  LOW: "P3",
+};
+
+export type Category = "Structure" | "Coverage" | "Inconsistency" | "Ambiguity";
+
+export const CATEGORY_PREFIX: Record<Category, string> = {
+  Structure: "S",
+  Coverage: "C",
+  Inconsistency: "I",
+  Ambiguity: "A",
+};
+
+export interface Location {
+  /** Path relative to the feature directory, e.g. `spec.md` or `contracts/module-interfaces.md`. */
+  file: string;
+  line?: number;
+}
+
+export interface Finding {
+  /** Stable ID such as `C2`, assigned after sorting. */
+  id: string;
+  category: Category;
+  severity: Severity;
+  locations: Location[];
+  summary: string;
+  recommendation: string;
+}
+
+export type FindingInput = Omit<Finding, "id">;
+
+export function formatLocation(location: Location): string {
+  return location.line === undefined ? location.file : `${location.file}:${location.line}`;
+}
+
+function compareLocations(a: Location[], b: Location[]): number {
+  const first = a[0] ?? { file: "" };
+  const second = b[0] ?? { file: "" };
+  return first.file.localeCompare(second.file) || (first.line ?? 0) - (second.line ?? 0);
+}
+
+/**
+ * Sorts findings by severity, category and location, then numbers them per
+ * category. Re-running on unchanged artifacts yields the same IDs.
+ */
+export function assignIds(findings: FindingInput[]): Finding[] {
+  const categories = Object.keys(CATEGORY_PREFIX) as Category[];
+  const sorted = [...findings].sort(
+    (a, b) =>
+      SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+      categories.indexOf(a.category) - categories.indexOf(b.category) ||
+      compareLocations(a.locations, b.locations) ||
+      a.summary.localeCompare(b.summary),
+  );
+  const counters = new Map<Category, number>();
+  return sorted.map((finding) => {
+    const next = (counters.get(finding.category) ?? 0) + 1;
+    counters.set(finding.category, next);
+    return { id: `${CATEGORY_PREFIX[finding.category]}${next}`, ...finding };
+  });
+}
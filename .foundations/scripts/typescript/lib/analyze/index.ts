@@ -0,0 +1,6 @@
+// Deterministic cross-artifact analyzer for specs/NNN-* feature directories.
+
+export * from "./analyze.ts";
+export * from "./findings.ts";
+export * from "./placeholders.ts";
+export * from "./report.ts";
@@ -0,0 +1,73 @@
+// Detection of template placeholders left in generated artifacts.
+//
+// The templates mark content with two conventions (see the header comment in
+// every .foundations/templates file):
+//   [BRACKETS]        human-authored content (instructions, descriptions)
+//   {{DOUBLE_BRACES}} machine-filled values (timestamps, scores, IDs)
+
+import type { Line } from "../artifacts/markdown.ts";
+
+export type PlaceholderKind = "bracket" | "brace";
+
+export interface Placeholder {
+  kind: PlaceholderKind;
+  /** The placeholder as written, e.g. `[FEATURE NAME]` or `{{MODULE_NAME}}`. */
+  token: string;
+  line: number;
+}
+
+const BRACE = /\{\{\s*[A-Za-z0-9_.-]+\s*\}\}/g;
+// Not followed by `(` or `[` (links) or `:` (reference definitions).
+const BRACKET = /\[([^[\]\n]+)\](?![([:])/g;
+const CODE_SPAN = /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g;
+
+/** Bracketed text that is Markdown or spec-kit syntax rather than a placeholder. */
+function isSyntax(content: string): boolean {
+  return (
+    /^[ xX]$/.test(content) || // checkboxes
+    /^US\d+$/.test(content) || // story tags
+    content === "P" || // parallel marker
+    content.startsWith("NEEDS CLARIFICATION") || // reported separately
+    content.startsWith("!") // GitHub alerts such as [!NOTE]
+  );
+}
+
+/**
+ * Inside inline code only name-like brackets count (`modules/[name]/`,
+ * `[###-feature-name]`); HCL index expressions such as `[0]`, `["key"]` or
+ * `[each.key]` are left alone.
+ */
+function isCodePlaceholder(content: string): boolean {
+  return /^#*-?[A-Za-z][\w -]*$/.test(content);
+}
+
+function bracketsIn(text: string, inCode: boolean, line: number, found: Placeholder[]): void {
+  for (const match of text.matchAll(BRACKET)) {
+    const content = match[1];
+    if (isSyntax(content)) continue;
+    if (inCode && !isCodePlaceholder(content)) continue;
+    found.push({ kind: "bracket", token: match[0], line });
+  }
+}
+
+/** Placeholders in visible text; HTML comments, fenced code and front matter are skipped. */
+export function findPlaceholders(lines: Line[]): Placeholder[] {
+  const found: Placeholder[] = [];
+  for (const line of lines) {
+    if (line.kind !== "text") continue;
+
+    for (const match of line.text.matchAll(BRACE)) {
+      found.push({ kind: "brace", token: match[0], line: line.number });
+    }
+
+    const withoutBraces = line.text.replace(BRACE, "");
+    let last = 0;
+    for (const span of withoutBraces.matchAll(CODE_SPAN)) {
+      bracketsIn(withoutBraces.slice(last, span.index), false, line.number, found);
+      bracketsIn(span[2], true, line.number, found);
+      last = span.index + span[0].length;
+    }
+    bracketsIn(withoutBraces.slice(last), false, line.number, found);
+  }
+  return found;
+}
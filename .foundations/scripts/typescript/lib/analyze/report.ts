@@ -0,0 +1,78 @@
+// Markdown rendering for analyzer reports, following the "Specification
+// Analysis Report" layout of the speckit.analyze agent.
+
+import type { AnalysisReport } from "./analyze.ts";
+import { formatLocation } from "./findings.ts";
+
+/** The agent caps the findings table at 50 rows and summarizes the rest. */
+export const MAX_TABLE_FINDINGS = 50;
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+export function renderMarkdown(report: AnalysisReport): string {
+  const { findings, metrics } = report;
+  const out: string[] = ["## Specification Analysis Report", ""];
+
+  if (findings.length === 0) {
+    out.push("No issues found across " + (report.artifacts.join(", ") || "the feature directory") + ".", "");
+  } else {
+    out.push(
+      "| ID | Category | Severity | Location(s) | Summary | Recommendation |",
+      "|----|----------|----------|-------------|---------|----------------|",
+    );
+    for (const finding of findings.slice(0, MAX_TABLE_FINDINGS)) {
+      out.push(
+        `| ${finding.id} | ${finding.category} | ${finding.severity} | ${cell(finding.locations.map(formatLocation).join(", "))} | ${cell(finding.summary)} | ${cell(finding.recommendation)} |`,
+      );
+    }
+    const overflow = findings.slice(MAX_TABLE_FINDINGS);
+    if (overflow.length > 0) {
+      out.push("", `*${overflow.length} more finding(s) omitted: ${overflow.map((finding) => finding.id).join(", ")}.*`);
+    }
+    out.push("");
+  }
+
+  if (report.storyCoverage.length > 0) {
+    out.push("**Coverage Summary Table:**", "", "| User Story | Priority | Has Task? | Task IDs |", "|------------|----------|-----------|----------|");
+    for (const coverage of report.storyCoverage) {
+      out.push(
+        `| ${coverage.story} ${cell(coverage.title)} | ${coverage.priority} | ${coverage.taskIds.length > 0 ? "Yes" : "No"} | ${coverage.taskIds.join(", ")} |`,
+      );
+    }
+    out.push("");
+  }
+
+  if (report.criterionCoverage.length > 0) {
+    out.push("**Success Criteria Test Coverage:**", "", "| Criterion | Covered? | Test Task IDs |", "|-----------|----------|---------------|");
+    for (const coverage of report.criterionCoverage) {
+      out.push(`| ${coverage.criterion} | ${coverage.taskIds.length > 0 ? "Yes" : "No"} | ${coverage.taskIds.join(", ")} |`);
+    }
+    out.push("");
+  }
+
+  out.push(
+    "**Metrics:**",
+    "",
+    `- Total User Stories: ${metrics.userStories}`,
+    `- Total Tasks: ${metrics.tasks} (${metrics.completedTasks} completed)`,
+    `- Coverage %: ${metrics.storyCoverage}% (user stories with >=1 task)`,
+    `- Success Criteria Covered by Tests: ${metrics.successCriteriaCovered}/${metrics.successCriteria}`,
+    `- Placeholder Count: ${metrics.placeholders}`,
+    `- Ambiguity Count: ${metrics.clarifications}`,
+    `- Critical Issues Count: ${metrics.bySeverity.CRITICAL}`,
+    "",
+    "### Next Actions",
+    "",
+  );
+
+  if (metrics.bySeverity.CRITICAL > 0) {
+    out.push("- Resolve CRITICAL issues before running `/speckit.implement`.");
+  } else if (findings.length > 0) {
+    out.push("- No CRITICAL issues; you may proceed to `/speckit.implement`, but consider addressing the findings above.");
+  } else {
+    out.push("- Artifacts are consistent; proceed to `/speckit.implement`.");
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,195 @@
+// Parser for contracts/module-interfaces.md files created from
+// .foundations/templates/contracts-template.md.
+
+import { DiagnosticCollector } from "./errors.ts";
+import {
+  type Field,
+  type Section,
+  fieldsOf,
+  findSection,
+  preambleOf,
+  readTable,
+  sectionsOf,
+  tablesOf,
+  titleOf,
+  toLines,
+  unwrapCode,
+} from "./markdown.ts";
+
+export interface ContractInput {
+  name: string;
+  type: string;
+  /** Parsed from Yes/No/true/false; null when the cell holds anything else. */
+  required: boolean | null;
+  default: string;
+  description: string;
+  line: number;
+}
+
+export interface ContractOutput {
+  name: string;
+  type: string;
+  sensitive: boolean | null;
+  description: string;
+  line: number;
+}
+
+export interface ContractValidation {
+  variable: string;
+  expression: string;
+  errorMessage: string;
+  line: number;
+}
+
+export interface ResourceDependency {
+  resource: string;
+  dependsOn: string;
+  relationship: string;
+  line: number;
+}
+
+export interface OutputMapping {
+  resource: string;
+  attribute: string;
+  output: string;
+  line: number;
+}
+
+export interface ContractsDocument {
+  kind: "contracts";
+  file: string;
+  title: string;
+  /** Header fields: Feature, Date, Source. */
+  fields: Record<string, Field>;
+  /** From the `## Module: NAME` heading. */
+  moduleName: string;
+  registryPath?: string;
+  version?: string;
+  inputs: ContractInput[];
+  outputs: ContractOutput[];
+  validations: ContractValidation[];
+  dependencies: ResourceDependency[];
+  outputMappings: OutputMapping[];
+}
+
+function flag(cell: string): boolean | null {
+  const value = unwrapCode(cell).toLowerCase();
+  if (value === "yes" || value === "true") return true;
+  if (value === "no" || value === "false") return false;
+  return null;
+}
+
+function firstTable(section: Section | undefined) {
+  return section === undefined ? undefined : tablesOf(section.body)[0];
+}
+
+function unquote(cell: string): string {
+  return cell.replace(/^"(.*)"$/, "$1");
+}
+
+export function parseContracts(source: string, file = "contracts/module-interfaces.md"): ContractsDocument {
+  const diagnostics = new DiagnosticCollector(file);
+  const lines = toLines(source);
+  const sections = sectionsOf(lines);
+
+  const title = titleOf(lines);
+  if (title === undefined) {
+    diagnostics.error(1, 'missing "# Module Interface Specification" title');
+  }
+
+  const moduleSection = findSection(sections, "Module:", 2);
+  if (moduleSection === undefined) {
+    diagnostics.error(title?.line ?? 1, 'missing "## Module: NAME" section');
+  }
+  const moduleFields = fieldsOf(moduleSection?.body ?? []);
+
+  const inputsTable = firstTable(findSection(sections, "Inputs", 3));
+  const inputs = inputsTable
+    ? readTable(
+        inputsTable,
+        { name: "Variable", type: "Type", required: "Required", default: "Default", description: "Description" },
+        diagnostics,
+      ).map((row) => ({
+        name: unwrapCode(row.name),
+        type: unwrapCode(row.type),
+        required: flag(row.required),
+        default: unwrapCode(row.default),
+        description: row.description,
+        line: row.line,
+      }))
+    : [];
+
+  const outputsTable = firstTable(findSection(sections, "Outputs", 3));
+  const outputs = outputsTable
+    ? readTable(
+        outputsTable,
+        { name: "Output", type: "Type", sensitive: "Sensitive", description: "Description" },
+        diagnostics,
+      ).map((row) => ({
+        name: unwrapCode(row.name),
+        type: unwrapCode(row.type),
+        sensitive: flag(row.sensitive),
+        description: row.description,
+        line: row.line,
+      }))
+    : [];
+
+  const validationTable = firstTable(findSection(sections, "Variable Validation Rules", 3));
+  const validations = validationTable
+    ? readTable(
+        validationTable,
+        { variable: "Variable", expression: "Validation", errorMessage: "Error Message" },
+        diagnostics,
+      ).map((row) => ({
+        variable: unwrapCode(row.variable),
+        expression: unwrapCode(row.expression),
+        errorMessage: unquote(row.errorMessage),
+        line: row.line,
+      }))
+    : [];
+
+  const dependencyTable = firstTable(findSection(sections, "Resource Dependencies", 2));
+  const dependencies = dependencyTable
+    ? readTable(
+        dependencyTable,
+        { resource: "Resource", dependsOn: "Depends On", relationship: "Relationship" },
+        diagnostics,
+      ).map((row) => ({
+        resource: unwrapCode(row.resource),
+        dependsOn: unwrapCode(row.dependsOn),
+        relationship: row.relationship,
+        line: row.line,
+      }))
+    : [];
+
+  const mappingTable = firstTable(findSection(sections, "Resource-to-Output Mapping", 2));
+  const outputMappings = mappingTable
+    ? readTable(mappingTable, { resource: "Resource", attribute: "Attribute", output: "Output" }, diagnostics).map(
+        (row) => ({
+          resource: unwrapCode(row.resource),
+          attribute: unwrapCode(row.attribute),
+          output: unwrapCode(row.output),
+          line: row.line,
+        }),
+      )
+    : [];
+
+  diagnostics.throwIfAny();
+
+  const registryPath = moduleFields["Registry Path"]?.value;
+  const version = moduleFields["Version"]?.value;
+  return {
+    kind: "contracts",
+    file,
+    title: title?.title ?? "",
+    fields: fieldsOf(preambleOf(lines)),
+    moduleName: moduleSection?.heading.title.replace(/^Module:\s*/i, "").trim() ?? "",
+    registryPath: registryPath === undefined ? undefined : unwrapCode(registryPath),
+    version: version === undefined ? undefined : unwrapCode(version),
+    inputs,
+    outputs,
+    validations,
+    dependencies,
+    outputMappings,
+  };
+}
@@ -0,0 +1,49 @@
+// Parse diagnostics for spec-kit artifacts.
+//
+// Every diagnostic carries the file and 1-based line it refers to so callers
+// can print editor-clickable `file:line: message` locations.
+
+export interface Diagnostic {
+  file: string;
+  line: number;
+  message: string;
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}: ${diagnostic.message}`;
+}
+
+/**
+ * Thrown when an artifact cannot be turned into a typed document.
+ * All problems found in the file are reported at once, not just the first.
+ */
+export class ArtifactParseError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join("\n"));
+    this.name = "ArtifactParseError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+/** Collects diagnostics while a parser walks a file. */
+export class DiagnosticCollector {
+  readonly file: string;
+  readonly diagnostics: Diagnostic[] = [];
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  error(line: number, message: string): void {
+    this.diagnostics.push({ file: this.file, line, message });
+  }
+
+  /** Throws an ArtifactParseError, in line order, if anything was reported. */
+  throwIfAny(): void {
+    if (this.diagnostics.length > 0) {
+      throw new ArtifactParseError([...this.diagnostics].sort((a, b) => a.line - b.line));
+    }
+  }
+}
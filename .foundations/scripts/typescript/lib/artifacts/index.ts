@@ -0,0 +1,41 @@
+// Typed parsers for the spec-kit Markdown artifacts (spec.md, plan.md,
+// tasks.md and contracts/module-interfaces.md).
+//
+// Usage:
+//   import { readSpec, readTasks } from "./lib/artifacts/index.ts";
+//   const spec = await readSpec("specs/001-s3-bucket/spec.md");
+//   for (const story of spec.userStories) console.log(story.id, story.priority);
+//
+// Parse failures throw ArtifactParseError listing every problem as file:line.
+
+import { readFile } from "node:fs/promises";
+
+import { type ContractsDocument, parseContracts } from "./contracts.ts";
+import { type PlanDocument, parsePlan } from "./plan.ts";
+import { type SpecDocument, parseSpec } from "./spec.ts";
+import { type TasksDocument, parseTasks } from "./tasks.ts";
+
+export * from "./contracts.ts";
+export * from "./errors.ts";
+export * from "./plan.ts";
+export * from "./spec.ts";
+export * from "./tasks.ts";
+export type { ClarificationMarker, Field, ListItem } from "./markdown.ts";
+
+export type ArtifactDocument = SpecDocument | PlanDocument | TasksDocument | ContractsDocument;
+
+export async function readSpec(path: string): Promise<SpecDocument> {
+  return parseSpec(await readFile(path, "utf8"), path);
+}
+
+export async function readPlan(path: string): Promise<PlanDocument> {
+  return parsePlan(await readFile(path, "utf8"), path);
+}
+
+export async function readTasks(path: string): Promise<TasksDocument> {
+  return parseTasks(await readFile(path, "utf8"), path);
+}
+
+export async function readContracts(path: string): Promise<ContractsDocument> {
+  return parseContracts(await readFile(path, "utf8"), path);
+}
@@ -0,0 +1,396 @@
+// Line-oriented Markdown helpers shared by the artifact parsers.
+//
+// The spec-kit templates only use a small slice of Markdown: ATX headings,
+// `**Field**: value` lines, bullet/numbered lists, pipe tables, fenced code
+// and HTML comments holding authoring instructions. This module understands
+// exactly that slice and keeps 1-based line numbers on everything it returns.
+
+import type { DiagnosticCollector } from "./errors.ts";
+
+export type LineKind = "text" | "code" | "frontmatter";
+
+export interface Line {
+  /** 1-based line number in the source file. */
+  number: number;
+  /** The line exactly as written. */
+  raw: string;
+  /** The line with HTML comments removed. Empty for code and front matter. */
+  text: string;
+  kind: LineKind;
+}
+
+export interface Heading {
+  level: number;
+  title: string;
+  line: number;
+  /** Index of the heading in the line array. */
+  index: number;
+}
+
+export interface Section {
+  heading: Heading;
+  /** Lines after the heading up to the next heading of the same or higher level. */
+  body: Line[];
+}
+
+export interface Field {
+  name: string;
+  value: string;
+  line: number;
+  /** True when the value is (or contains) a NEEDS CLARIFICATION marker. */
+  needsClarification: boolean;
+}
+
+export interface ListItem {
+  text: string;
+  line: number;
+  /** Set for numbered items (`1. ...`). */
+  ordinal?: number;
+}
+
+export interface TableRow {
+  cells: string[];
+  line: number;
+}
+
+export interface Table {
+  headers: string[];
+  rows: TableRow[];
+  line: number;
+}
+
+export interface ClarificationMarker {
+  /** Text after `NEEDS CLARIFICATION:`; empty for bare markers. */
+  question: string;
+  line: number;
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const FIELD_SEGMENT = /^\*\*([^*]+?)(?::\*\*|\*\*:)\s*(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const CLARIFICATION = /NEEDS CLARIFICATION(?::\s*([^\]\n]*))?/g;
+
+/**
+ * Splits a file into classified lines. HTML comments may span lines and are
+ * stripped from `text`; fenced code blocks and YAML front matter are kept in
+ * `raw` only so section parsers never pick up sample content.
+ */
+export function toLines(source: string): Line[] {
+  const rawLines = source.replace(/\r\n?/g, "\n").split("\n");
+  if (rawLines.length > 0 && rawLines[rawLines.length - 1] === "") {
+    rawLines.pop();
+  }
+
+  const lines: Line[] = [];
+  let inComment = false;
+  let fence: string | null = null;
+  let inFrontMatter = rawLines[0]?.trim() === "---";
+
+  rawLines.forEach((raw, i) => {
+    const number = i + 1;
+
+    if (inFrontMatter) {
+      lines.push({ number, raw, text: "", kind: "frontmatter" });
+      if (i > 0 && raw.trim() === "---") {
+        inFrontMatter = false;
+      }
+      return;
+    }
+
+    if (!inComment) {
+      const fenceMatch = FENCE.exec(raw);
+      if (fence !== null) {
+        if (fenceMatch && fenceMatch[1] === fence) {
+          fence = null;
+        }
+        lines.push({ number, raw, text: "", kind: "code" });
+        return;
+      }
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        lines.push({ number, raw, text: "", kind: "code" });
+        return;
+      }
+    }
+
+    let text = "";
+    let rest = raw;
+    while (rest.length > 0) {
+      if (inComment) {
+        const end = rest.indexOf("-->");
+        if (end === -1) {
+          rest = "";
+        } else {
+          inComment = false;
+          rest = rest.slice(end + 3);
+        }
+      } else {
+        const start = rest.indexOf("<!--");
+        if (start === -1) {
+          text += rest;
+          rest = "";
+        } else {
+          text += rest.slice(0, start);
+          inComment = true;
+          rest = rest.slice(start + 4);
+        }
+      }
+    }
+
+    lines.push({ number, raw, text: text.trimEnd(), kind: "text" });
+  });
+
+  return lines;
+}
+
+export function headingsOf(lines: Line[]): Heading[] {
+  const headings: Heading[] = [];
+  lines.forEach((line, index) => {
+    if (line.kind !== "text") return;
+    const match = HEADING.exec(line.text);
+    if (match) {
+      headings.push({ level: match[1].length, title: match[2], line: line.number, index });
+    }
+  });
+  return headings;
+}
+
+/** Every heading together with the lines it owns. */
+export function sectionsOf(lines: Line[]): Section[] {
+  const headings = headingsOf(lines);
+  return headings.map((heading, i) => {
+    let end = lines.length;
+    for (const next of headings.slice(i + 1)) {
+      if (next.level <= heading.level) {
+        end = next.index;
+        break;
+      }
+    }
+    return { heading, body: lines.slice(heading.index + 1, end) };
+  });
+}
+
+/**
+ * Finds the first section whose title starts with `prefix` (case-insensitive),
+ * ignoring trailing annotations such as `*(mandatory)*`.
+ */
+export function findSection(sections: Section[], prefix: string, level?: number): Section | undefined {
+  const wanted = prefix.toLowerCase();
+  return sections.find(
+    (section) =>
+      (level === undefined || section.heading.level === level) &&
+      section.heading.title.toLowerCase().startsWith(wanted),
+  );
+}
+
+/** Lines before the first heading of `level` or higher (the document preamble). */
+export function preambleOf(lines: Line[], level = 2): Line[] {
+  const first = headingsOf(lines).find((heading) => heading.level <= level && heading.level > 1);
+  return first === undefined ? lines : lines.slice(0, first.index);
+}
+
+/** The first level-1 heading, with any `Label:` prefix removed. */
+export function titleOf(lines: Line[]): { title: string; line: number } | undefined {
+  const h1 = headingsOf(lines).find((heading) => heading.level === 1);
+  if (h1 === undefined) return undefined;
+  const colon = h1.title.indexOf(":");
+  return { title: colon === -1 ? h1.title : h1.title.slice(colon + 1).trim(), line: h1.line };
+}
+
+export function hasClarification(text: string): boolean {
+  return text.includes("NEEDS CLARIFICATION");
+}
+
+/**
+ * Parses `**Name**: value` lines. A line may hold several fields separated by
+ * ` | `, as in the plan header (`**Branch**: ... | **Date**: ... | **Spec**: ...`).
+ * Both `**Name**:` and `**Name:**` spellings are accepted.
+ */
+export function parseFieldLine(line: Line): Field[] {
+  if (line.kind !== "text") return [];
+  const fields: Field[] = [];
+  for (const segment of line.text.trim().split(/\s+\|\s+(?=\*\*)/)) {
+    const match = FIELD_SEGMENT.exec(segment);
+    if (!match) {
+      if (fields.length === 0) return [];
+      continue;
+    }
+    const value = match[2].trim();
+    fields.push({ name: match[1].trim(), value, line: line.number, needsClarification: hasClarification(value) });
+  }
+  return fields;
+}
+
+/** All fields in `lines`, keyed by name. The first occurrence of a name wins. */
+export function fieldsOf(lines: Line[]): Record<string, Field> {
+  const fields: Record<string, Field> = {};
+  for (const line of lines) {
+    for (const field of parseFieldLine(line)) {
+      if (!(field.name in fields)) {
+        fields[field.name] = field;
+      }
+    }
+  }
+  return fields;
+}
+
+export function parseListItem(line: Line): ListItem | undefined {
+  if (line.kind !== "text") return undefined;
+  const numbered = NUMBERED.exec(line.text);
+  if (numbered) {
+    return { text: numbered[2].trim(), line: line.number, ordinal: Number(numbered[1]) };
+  }
+  const bullet = BULLET.exec(line.text);
+  if (bullet) {
+    return { text: bullet[1].trim(), line: line.number };
+  }
+  return undefined;
+}
+
+export function listItemsOf(lines: Line[]): ListItem[] {
+  return lines.flatMap((line) => {
+    const item = parseListItem(line);
+    return item === undefined ? [] : [item];
+  });
+}
+
+/** Plain paragraph text: visible lines that are not headings, fields, list items, tables or rules. */
+export function paragraphOf(lines: Line[]): string {
+  const parts: string[] = [];
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (line.kind !== "text" || text === "") {
+      if (parts.length > 0) break;
+      continue;
+    }
+    if (
+      HEADING.test(text) ||
+      text.startsWith("|") ||
+      /^-{3,}$/.test(text) ||
+      parseFieldLine(line).length > 0 ||
+      parseListItem(line) !== undefined
+    ) {
+      if (parts.length > 0) break;
+      continue;
+    }
+    parts.push(text);
+  }
+  return parts.join(" ");
+}
+
+/** Splits a pipe-table row into trimmed cells. Pipes inside backticks or escaped as `\|` are kept. */
+export function splitTableRow(text: string): string[] {
+  let row = text.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = "";
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === "\\" && row[i + 1] === "|") {
+      current += "|";
+      i++;
+    } else if (ch === "`") {
+      inCode = !inCode;
+      current += ch;
+    } else if (ch === "|" && !inCode) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/** Pipe tables in `lines`, in document order. */
+export function tablesOf(lines: Line[]): Table[] {
+  const tables: Table[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const header = lines[i];
+    const separator = lines[i + 1];
+    if (
+      header.kind === "text" &&
+      header.text.trim().startsWith("|") &&
+      separator !== undefined &&
+      separator.kind === "text" &&
+      TABLE_SEPARATOR.test(separator.text.trim())
+    ) {
+      const table: Table = { headers: splitTableRow(header.text), rows: [], line: header.number };
+      i += 2;
+      while (i < lines.length && lines[i].kind === "text" && lines[i].text.trim().startsWith("|")) {
+        table.rows.push({ cells: splitTableRow(lines[i].text), line: lines[i].number });
+        i++;
+      }
+      tables.push(table);
+    } else {
+      i++;
+    }
+  }
+  return tables;
+}
+
+export type TableRecord<K extends string> = Record<K, string> & { line: number };
+
+/**
+ * Maps table rows onto named columns. `columns` pairs each key with its header
+ * text (matched case-insensitively). Missing columns and rows with the wrong
+ * number of cells are reported to `diagnostics` and skipped.
+ */
+export function readTable<K extends string>(
+  table: Table,
+  columns: Record<K, string>,
+  diagnostics: DiagnosticCollector,
+): TableRecord<K>[] {
+  const headers = table.headers.map((header) => header.toLowerCase());
+  const indexes = {} as Record<K, number>;
+  let complete = true;
+  for (const key of Object.keys(columns) as K[]) {
+    const index = headers.indexOf(columns[key].toLowerCase());
+    if (index === -1) {
+      diagnostics.error(table.line, `table is missing the "${columns[key]}" column`);
+      complete = false;
+    }
+    indexes[key] = index;
+  }
+  if (!complete) return [];
+
+  const records: TableRecord<K>[] = [];
+  for (const row of table.rows) {
+    if (row.cells.length !== table.headers.length) {
+      diagnostics.error(row.line, `expected ${table.headers.length} table cells, found ${row.cells.length}`);
+      continue;
+    }
+    const record = { line: row.line } as TableRecord<K>;
+    for (const key of Object.keys(columns) as K[]) {
+      (record as Record<K, string>)[key] = row.cells[indexes[key]];
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+/** Removes one pair of surrounding backticks: `` `main.tf` `` becomes `main.tf`. */
+export function unwrapCode(cell: string): string {
+  const match = /^`([^`]*)`$/.exec(cell.trim());
+  return match ? match[1] : cell.trim();
+}
+
+/** Every NEEDS CLARIFICATION marker in visible text. */
+export function clarificationsOf(lines: Line[]): ClarificationMarker[] {
+  const markers: ClarificationMarker[] = [];
+  for (const line of lines) {
+    if (line.kind !== "text") continue;
+    for (const match of line.text.matchAll(CLARIFICATION)) {
+      markers.push({ question: (match[1] ?? "").trim(), line: line.number });
+    }
+  }
+  return markers;
+}
@@ -0,0 +1,153 @@
+// Parser for plan.md files created from .foundations/templates/plan-template.md.
+
+import { DiagnosticCollector } from "./errors.ts";
+import {
+  type ClarificationMarker,
+  type Field,
+  type Section,
+  clarificationsOf,
+  fieldsOf,
+  findSection,
+  paragraphOf,
+  preambleOf,
+  readTable,
+  sectionsOf,
+  tablesOf,
+  titleOf,
+  toLines,
+  unwrapCode,
+} from "./markdown.ts";
+
+export interface PlannedResource {
+  /** e.g. `aws_s3_bucket` */
+  resourceType: string;
+  logicalName: string;
+  purpose: string;
+  /** Free text from the Conditional column, e.g. `No` or `var.create_logging`. */
+  conditional: string;
+  line: number;
+}
+
+export interface PlannedDataSource {
+  dataSource: string;
+  purpose: string;
+  line: number;
+}
+
+export interface PlannedSubmodule {
+  name: string;
+  path: string;
+  purpose: string;
+  line: number;
+}
+
+export interface PlannedTest {
+  /** e.g. `tests/basic.tftest.hcl` */
+  file: string;
+  scope: string;
+  validates: string;
+  line: number;
+}
+
+export interface ResourceInventory {
+  resources: PlannedResource[];
+  dataSources: PlannedDataSource[];
+  submodules: PlannedSubmodule[];
+}
+
+export interface PlanDocument {
+  kind: "plan";
+  file: string;
+  title: string;
+  /** Header fields: Branch, Date, Spec, Input, Note. */
+  fields: Record<string, Field>;
+  summary: string;
+  /**
+   * Technical Context fields keyed by name (`Terraform Version`, `Provider(s)`, ...).
+   * Unlike `extract_plan_field` in update-agent-context.sh, values marked
+   * NEEDS CLARIFICATION are kept and flagged rather than dropped.
+   */
+  technicalContext: Record<string, Field>;
+  resourceInventory: ResourceInventory;
+  testFiles: PlannedTest[];
+  clarifications: ClarificationMarker[];
+}
+
+function firstTable(section: Section | undefined) {
+  return section === undefined ? undefined : tablesOf(section.body)[0];
+}
+
+export function parsePlan(source: string, file = "plan.md"): PlanDocument {
+  const diagnostics = new DiagnosticCollector(file);
+  const lines = toLines(source);
+  const sections = sectionsOf(lines);
+
+  const title = titleOf(lines);
+  if (title === undefined) {
+    diagnostics.error(1, 'missing "# Implementation Plan: ..." title');
+  }
+
+  const technicalSection = findSection(sections, "Technical Context", 2);
+  if (technicalSection === undefined) {
+    diagnostics.error(title?.line ?? 1, 'missing "## Technical Context" section');
+  }
+
+  const inventory: ResourceInventory = { resources: [], dataSources: [], submodules: [] };
+
+  const resourcesTable = firstTable(findSection(sections, "Resources Created", 3));
+  if (resourcesTable !== undefined) {
+    inventory.resources = readTable(
+      resourcesTable,
+      { resourceType: "Resource Type", logicalName: "Logical Name", purpose: "Purpose", conditional: "Conditional" },
+      diagnostics,
+    ).map((row) => ({
+      resourceType: unwrapCode(row.resourceType),
+      logicalName: unwrapCode(row.logicalName),
+      purpose: row.purpose,
+      conditional: unwrapCode(row.conditional),
+      line: row.line,
+    }));
+  }
+
+  const dataTable = firstTable(findSection(sections, "Data Sources", 3));
+  if (dataTable !== undefined) {
+    inventory.dataSources = readTable(dataTable, { dataSource: "Data Source", purpose: "Purpose" }, diagnostics).map(
+      (row) => ({ dataSource: unwrapCode(row.dataSource), purpose: row.purpose, line: row.line }),
+    );
+  }
+
+  const submoduleTable = firstTable(findSection(sections, "Submodules", 3));
+  if (submoduleTable !== undefined) {
+    inventory.submodules = readTable(
+      submoduleTable,
+      { name: "Submodule", path: "Path", purpose: "Purpose" },
+      diagnostics,
+    ).map((row) => ({ name: unwrapCode(row.name), path: unwrapCode(row.path), purpose: row.purpose, line: row.line }));
+  }
+
+  let testFiles: PlannedTest[] = [];
+  const testTable = firstTable(findSection(sections, "Unit Tests", 3));
+  if (testTable !== undefined) {
+    testFiles = readTable(
+      testTable,
+      { file: "Test File", scope: "Scope", validates: "What It Validates" },
+      diagnostics,
+    )
+      .filter((row) => row.file.includes(".tftest.hcl"))
+      .map((row) => ({ file: unwrapCode(row.file), scope: row.scope, validates: row.validates, line: row.line }));
+  }
+
+  diagnostics.throwIfAny();
+
+  return {
+    kind: "plan",
+    file,
+    title: title?.title ?? "",
+    fields: fieldsOf(preambleOf(lines)),
+    summary: paragraphOf(findSection(sections, "Summary", 2)?.body ?? []),
+    technicalContext: fieldsOf(technicalSection?.body ?? []),
+    resourceInventory: inventory,
+    testFiles,
+    clarifications: clarificationsOf(lines),
+  };
+}
@@ -0,0 +1,230 @@
+// Parser for spec.md files created from .foundations/templates/spec-template.md.
+
+import { DiagnosticCollector } from "./errors.ts";
+import {
+  type ClarificationMarker,
+  type Field,
+  type Line,
+  type ListItem,
+  clarificationsOf,
+  fieldsOf,
+  findSection,
+  hasClarification,
+  listItemsOf,
+  paragraphOf,
+  preambleOf,
+  sectionsOf,
+  titleOf,
+  toLines,
+} from "./markdown.ts";
+
+/** Story priority as written in the artifacts; P1 is the most critical. */
+export type Priority = `P${number}`;
+
+/** Story reference as used in task tags, e.g. `US1`. */
+export type StoryId = `US${number}`;
+
+export interface StoryHeading {
+  id: StoryId;
+  number: number;
+  title: string;
+  priority: Priority;
+  /** Numeric part of the priority, for sorting (P1 = 1). */
+  rank: number;
+  /** Trailing text after the priority, e.g. `MVP` in tasks.md phase titles. */
+  suffix: string;
+}
+
+export interface AcceptanceScenario {
+  ordinal: number;
+  text: string;
+  /** Clauses of a `**Given** ..., **When** ..., **Then** ...` scenario, when written that way. */
+  given?: string;
+  when?: string;
+  then?: string;
+  line: number;
+}
+
+export interface UserStory extends StoryHeading {
+  description: string;
+  whyPriority?: Field;
+  independentTest?: Field;
+  acceptanceScenarios: AcceptanceScenario[];
+  line: number;
+}
+
+export interface Requirement {
+  /** e.g. `FR-001` */
+  id: string;
+  text: string;
+  needsClarification: boolean;
+  line: number;
+}
+
+export interface SuccessCriterion {
+  /** e.g. `SC-001` */
+  id: string;
+  text: string;
+  line: number;
+}
+
+export interface KeyEntity {
+  name: string;
+  description: string;
+  line: number;
+}
+
+export interface SpecDocument {
+  kind: "spec";
+  file: string;
+  title: string;
+  /** Header fields: Feature Branch, Created, Status, Input. */
+  fields: Record<string, Field>;
+  userStories: UserStory[];
+  edgeCases: ListItem[];
+  functionalRequirements: Requirement[];
+  keyEntities: KeyEntity[];
+  successCriteria: SuccessCriterion[];
+  clarifications: ClarificationMarker[];
+}
+
+const STORY_HEADING = /^User Story\s+(\d+)\s*[-–—:]\s*(.*?)\s*\(Priority:\s*([^)]*)\)\s*(.*)$/i;
+const PRIORITY = /^P(\d+)$/;
+const ID_ITEM = /^\*\*([A-Z]+-\d+)(?::\*\*|\*\*:)\s*(.*)$/;
+const ENTITY_ITEM = /^\*\*([^*]+?)(?::\*\*|\*\*:)\s*(.*)$/;
+const SCENARIO = /^\*\*Given\*\*\s*(.*?),?\s*\*\*When\*\*\s*(.*?),?\s*\*\*Then\*\*\s*(.*)$/i;
+
+/**
+ * Parses a `User Story N - Title (Priority: PN)` heading. Shared with the
+ * tasks.md parser, whose story phases use the same wording. Returns undefined
+ * for titles that do not start with "User Story"; reports malformed ones.
+ */
+export function parseStoryHeading(
+  title: string,
+  line: number,
+  diagnostics: DiagnosticCollector,
+): StoryHeading | undefined {
+  if (!/^User Story\b/i.test(title)) return undefined;
+
+  const match = STORY_HEADING.exec(title);
+  if (!match) {
+    diagnostics.error(line, `malformed user story heading "${title}"; expected "User Story N - Title (Priority: PN)"`);
+    return undefined;
+  }
+  const priority = match[3].trim();
+  const rank = PRIORITY.exec(priority);
+  if (!rank) {
+    diagnostics.error(line, `invalid priority "${priority}" for User Story ${match[1]}; expected P1, P2, P3, ...`);
+    return undefined;
+  }
+  const number = Number(match[1]);
+  return {
+    id: `US${number}`,
+    number,
+    title: match[2],
+    priority: `P${Number(rank[1])}`,
+    rank: Number(rank[1]),
+    suffix: match[4],
+  };
+}
+
+function parseScenario(item: ListItem): AcceptanceScenario {
+  const scenario: AcceptanceScenario = { ordinal: item.ordinal ?? 0, text: item.text, line: item.line };
+  const match = SCENARIO.exec(item.text);
+  if (match) {
+    scenario.given = match[1].trim();
+    scenario.when = match[2].trim();
+    scenario.then = match[3].trim();
+  }
+  return scenario;
+}
+
+function parseStoryBody(heading: StoryHeading, line: number, body: Line[]): UserStory {
+  const fields = fieldsOf(body);
+  const scenarios: AcceptanceScenario[] = [];
+  const start = body.findIndex((l) => /^\*\*Acceptance Scenarios\*\*:?/.test(l.text.trim()));
+  if (start !== -1) {
+    for (const item of listItemsOf(body.slice(start + 1))) {
+      if (item.ordinal !== undefined) scenarios.push(parseScenario(item));
+    }
+  }
+  return {
+    ...heading,
+    description: paragraphOf(body),
+    whyPriority: fields["Why this priority"],
+    independentTest: fields["Independent Test"],
+    acceptanceScenarios: scenarios,
+    line,
+  };
+}
+
+/** Reads every `- **PREFIX-NNN**: text` item, reporting duplicate IDs. */
+function idItems(lines: Line[], prefix: string, diagnostics: DiagnosticCollector): Requirement[] {
+  const seen = new Map<string, number>();
+  const items: Requirement[] = [];
+  for (const item of listItemsOf(lines)) {
+    const match = ID_ITEM.exec(item.text);
+    if (!match || !match[1].startsWith(`${prefix}-`)) continue;
+    const id = match[1];
+    const previous = seen.get(id);
+    if (previous !== undefined) {
+      diagnostics.error(item.line, `duplicate ${id} (first defined on line ${previous})`);
+      continue;
+    }
+    seen.set(id, item.line);
+    items.push({ id, text: match[2].trim(), needsClarification: hasClarification(match[2]), line: item.line });
+  }
+  return items;
+}
+
+export function parseSpec(source: string, file = "spec.md"): SpecDocument {
+  const diagnostics = new DiagnosticCollector(file);
+  const lines = toLines(source);
+  const sections = sectionsOf(lines);
+
+  const title = titleOf(lines);
+  if (title === undefined) {
+    diagnostics.error(1, 'missing "# Feature Specification: ..." title');
+  }
+
+  const userStories: UserStory[] = [];
+  const storyLines = new Map<number, number>();
+  for (const section of sections) {
+    if (section.heading.level !== 3) continue;
+    const heading = parseStoryHeading(section.heading.title, section.heading.line, diagnostics);
+    if (heading === undefined) continue;
+    const previous = storyLines.get(heading.number);
+    if (previous !== undefined) {
+      diagnostics.error(section.heading.line, `duplicate User Story ${heading.number} (first defined on line ${previous})`);
+      continue;
+    }
+    storyLines.set(heading.number, section.heading.line);
+    userStories.push(parseStoryBody(heading, section.heading.line, section.body));
+  }
+
+  const keyEntities: KeyEntity[] = [];
+  for (const item of listItemsOf(findSection(sections, "Key Entities")?.body ?? [])) {
+    const match = ENTITY_ITEM.exec(item.text);
+    if (match) {
+      keyEntities.push({ name: match[1].trim(), description: match[2].trim(), line: item.line });
+    }
+  }
+
+  const functionalRequirements = idItems(lines, "FR", diagnostics);
+  const successCriteria = idItems(lines, "SC", diagnostics).map(({ id, text, line }) => ({ id, text, line }));
+
+  diagnostics.throwIfAny();
+
+  return {
+    kind: "spec",
+    file,
+    title: title?.title ?? "",
+    fields: fieldsOf(preambleOf(lines)),
+    userStories,
+    edgeCases: listItemsOf(findSection(sections, "Edge Cases")?.body ?? []),
+    functionalRequirements,
+    keyEntities,
+    successCriteria,
+    clarifications: clarificationsOf(lines),
+  };
+}
@@ -0,0 +1,241 @@
+// Parser for tasks.md files created from .foundations/templates/tasks-template.md.
+
+import { DiagnosticCollector } from "./errors.ts";
+import { type Field, type Line, fieldsOf, headingsOf, preambleOf, sectionsOf, titleOf, toLines } from "./markdown.ts";
+import { type StoryHeading, type StoryId, parseStoryHeading } from "./spec.ts";
+
+export interface Task {
+  /** `T001`, or `TXXX` for template placeholders. */
+  id: string;
+  /** Numeric part of the ID; null for placeholders. */
+  number: number | null;
+  completed: boolean;
+  /** Story tag (`[US1]`), null for setup/foundational/polish tasks. */
+  story: StoryId | null;
+  /** True when tagged `[P]`. The Terraform template runs everything sequentially. */
+  parallel: boolean;
+  description: string;
+  /** Backticked file and directory paths mentioned in the description. */
+  paths: string[];
+  /** `id` of the owning phase. */
+  phase: string;
+  /** Title of the `###` subsection the task sits under, if any. */
+  group?: string;
+  line: number;
+}
+
+export interface Checkpoint {
+  text: string;
+  line: number;
+}
+
+export interface Phase {
+  /** `1`, `2`, ... or the template's relative `N-1` / `N`. */
+  id: string;
+  title: string;
+  /** Set for `Phase N: User Story N - Title (Priority: PN)` phases. */
+  story: StoryHeading | null;
+  /** True when the title is marked MVP. */
+  mvp: boolean;
+  purpose?: Field;
+  goal?: Field;
+  independentTest?: Field;
+  tasks: Task[];
+  checkpoints: Checkpoint[];
+  line: number;
+}
+
+export interface TasksDocument {
+  kind: "tasks";
+  file: string;
+  title: string;
+  /** `description` from the YAML front matter, if present. */
+  description?: string;
+  /** Header fields: Input, Prerequisites, Tests, Organization. */
+  fields: Record<string, Field>;
+  phases: Phase[];
+  /** All tasks in document order. */
+  tasks: Task[];
+}
+
+const PHASE_HEADING = /^Phase\s+(\d+|N(?:-\d+)?)\s*:\s*(.+)$/;
+const CHECKBOX = /^\s*[-*]\s+\[([ xX])\]\s+(.*)$/;
+const TASK_ID = /^(T\d{3,}|TXXX)\b\s*(.*)$/;
+const STORY_TAG = /^\[(US\d+)\]\s*/;
+const PARALLEL_TAG = /^\[P\]\s*/;
+const PATH = /`([^`\s]+)`/g;
+const CHECKPOINT = /^\*\*Checkpoint\*\*:?\s*(.*)$/;
+
+function pathsIn(description: string): string[] {
+  const paths: string[] = [];
+  for (const match of description.matchAll(PATH)) {
+    const candidate = match[1];
+    if (candidate.includes("/") || /\.[A-Za-z0-9]+$/.test(candidate)) {
+      paths.push(candidate);
+    }
+  }
+  return paths;
+}
+
+function parseTask(
+  line: Line,
+  phase: string,
+  group: string | undefined,
+  diagnostics: DiagnosticCollector,
+): Task | undefined {
+  const checkbox = CHECKBOX.exec(line.text);
+  if (!checkbox) return undefined;
+
+  const idMatch = TASK_ID.exec(checkbox[2].trim());
+  if (!idMatch) {
+    diagnostics.error(line.number, `task is missing a T### ID: "${checkbox[2].trim()}"`);
+    return undefined;
+  }
+
+  let rest = idMatch[2];
+  let parallel = false;
+  let story: StoryId | null = null;
+  for (;;) {
+    const p = PARALLEL_TAG.exec(rest);
+    if (p) {
+      parallel = true;
+      rest = rest.slice(p[0].length);
+      continue;
+    }
+    const s = STORY_TAG.exec(rest);
+    if (s) {
+      if (story !== null) {
+        diagnostics.error(line.number, `task ${idMatch[1]} has more than one story tag`);
+      }
+      story = s[1] as StoryId;
+      rest = rest.slice(s[0].length);
+      continue;
+    }
+    break;
+  }
+
+  const id = idMatch[1];
+  const description = rest.trim();
+  if (description === "") {
+    diagnostics.error(line.number, `task ${id} has no description`);
+  }
+  return {
+    id,
+    number: id === "TXXX" ? null : Number(id.slice(1)),
+    completed: checkbox[1] !== " ",
+    story,
+    parallel,
+    description,
+    paths: pathsIn(description),
+    phase,
+    group,
+    line: line.number,
+  };
+}
+
+function parsePhaseBody(phase: Phase, body: Line[], diagnostics: DiagnosticCollector): void {
+  const fields = fieldsOf(body);
+  phase.purpose = fields["Purpose"];
+  phase.goal = fields["Goal"];
+  phase.independentTest = fields["Independent Test"];
+
+  const subheadings = new Map(headingsOf(body).map((heading) => [heading.index, heading.title]));
+  let group: string | undefined;
+  body.forEach((line, index) => {
+    const subheading = subheadings.get(index);
+    if (subheading !== undefined) {
+      group = subheading;
+      return;
+    }
+    if (line.kind !== "text") return;
+
+    const checkpoint = CHECKPOINT.exec(line.text.trim());
+    if (checkpoint) {
+      phase.checkpoints.push({ text: checkpoint[1].trim(), line: line.number });
+      return;
+    }
+    const task = parseTask(line, phase.id, group, diagnostics);
+    if (task !== undefined) phase.tasks.push(task);
+  });
+}
+
+export function parseTasks(source: string, file = "tasks.md"): TasksDocument {
+  const diagnostics = new DiagnosticCollector(file);
+  const lines = toLines(source);
+
+  const title = titleOf(lines);
+  if (title === undefined) {
+    diagnostics.error(1, 'missing "# Tasks: ..." title');
+  }
+
+  const phases: Phase[] = [];
+  const phaseLines = new Map<string, number>();
+  const inPhase = new Set<Line>();
+  for (const section of sectionsOf(lines)) {
+    if (section.heading.level !== 2 || !/^Phase\b/i.test(section.heading.title)) continue;
+    for (const line of section.body) inPhase.add(line);
+    const match = PHASE_HEADING.exec(section.heading.title);
+    if (!match) {
+      diagnostics.error(section.heading.line, `malformed phase heading "${section.heading.title}"; expected "Phase N: Title"`);
+      continue;
+    }
+    const id = match[1];
+    const previous = phaseLines.get(id);
+    if (previous !== undefined) {
+      diagnostics.error(section.heading.line, `duplicate Phase ${id} (first defined on line ${previous})`);
+      continue;
+    }
+    phaseLines.set(id, section.heading.line);
+
+    const story = parseStoryHeading(match[2], section.heading.line, diagnostics) ?? null;
+    const phase: Phase = {
+      id,
+      title: match[2].trim(),
+      story,
+      mvp: /\bMVP\b/.test(story?.suffix ?? match[2]),
+      tasks: [],
+      checkpoints: [],
+      line: section.heading.line,
+    };
+    parsePhaseBody(phase, section.body, diagnostics);
+    phases.push(phase);
+  }
+
+  // A task outside every phase would be dropped by everything that walks phases.
+  for (const line of lines) {
+    if (line.kind !== "text" || inPhase.has(line)) continue;
+    const checkbox = CHECKBOX.exec(line.text);
+    const id = checkbox ? TASK_ID.exec(checkbox[2].trim())?.[1] : undefined;
+    if (id !== undefined) diagnostics.error(line.number, `task ${id} is not under a "## Phase N: Title" heading`);
+  }
+
+  const tasks = phases.flatMap((phase) => phase.tasks);
+  const seen = new Map<string, number>();
+  for (const task of tasks) {
+    if (task.number === null) continue;
+    const previous = seen.get(task.id);
+    if (previous !== undefined) {
+      diagnostics.error(task.line, `duplicate task ${task.id} (first defined on line ${previous})`);
+    } else {
+      seen.set(task.id, task.line);
+    }
+  }
+
+  diagnostics.throwIfAny();
+
+  const frontMatter = lines.filter((line) => line.kind === "frontmatter");
+  const description = frontMatter
+    .map((line) => /^description:\s*(.*)$/.exec(line.raw.trim())?.[1])
+    .find((value) => value !== undefined)
+    ?.replace(/^["']|["']$/g, "");
+
+  return {
+    kind: "tasks",
+    file,
+    title: title?.title ?? "",
+    description,
+    fields: fieldsOf(preambleOf(lines)),
+    phases,
+    tasks,
+  };
+}
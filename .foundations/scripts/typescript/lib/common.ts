@@ -0,0 +1,218 @@
+// Common feature-path helpers, ported from ../bash/common.sh.
+//
+// Resolution order and fallbacks match the bash functions of the same name so
+// both implementations agree on which specs/NNN-* directory is current.
+
+import { execFileSync } from "node:child_process";
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Which script copy's conventions apply. The .foundations layout splits
+ * research into research-*.md and keeps the data model under contracts/;
+ * the .specify layout is Spec Kit's research.md and data-model.md, with
+ * .specify/templates taking precedence. The .specify wrappers select theirs
+ * through SPECKIT_LAYOUT so their callers see the contract they were written
+ * against.
+ */
+export type Layout = "foundations" | "specify";
+
+export const LAYOUT_ENV = "SPECKIT_LAYOUT";
+
+export interface FeaturePaths {
+  layout: Layout;
+  repoRoot: string;
+  currentBranch: string;
+  hasGit: boolean;
+  featureDir: string;
+  featureSpec: string;
+  implPlan: string;
+  tasks: string;
+  /** research.md, or the research-*.md glob in the .foundations layout. */
+  research: string;
+  dataModel: string;
+  quickstart: string;
+  contractsDir: string;
+}
+
+const FEATURE_PREFIX = /^(\d{3})-/;
+
+/**
+ * Template directories in lookup order. Spec Kit installs its templates under
+ * .specify; each layout prefers its own copy where both exist.
+ */
+const TEMPLATE_DIRS: Record<Layout, string[]> = {
+  foundations: [".foundations/templates", ".specify/templates"],
+  specify: [".specify/templates", ".foundations/templates"],
+};
+
+function git(args: string[], cwd: string): string | undefined {
+  try {
+    return execFileSync("git", args, { cwd, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export function layoutOf(env: NodeJS.ProcessEnv = process.env): Layout {
+  return env[LAYOUT_ENV] === "specify" ? "specify" : "foundations";
+}
+
+export function hasGit(cwd = process.cwd()): boolean {
+  return git(["rev-parse", "--show-toplevel"], cwd) !== undefined;
+}
+
+/** Repository root, falling back to this file's location for non-git checkouts. */
+export function getRepoRoot(cwd = process.cwd()): string {
+  return git(["rev-parse", "--show-toplevel"], cwd) ?? resolve(fileURLToPath(new URL("../../../..", import.meta.url)));
+}
+
+/**
+ * Current feature: SPECIFY_FEATURE, then the git branch, then the
+ * highest-numbered specs/NNN-* directory, then "main".
+ */
+export function getCurrentBranch(cwd = process.cwd(), env: NodeJS.ProcessEnv = process.env): string {
+  if (env.SPECIFY_FEATURE) return env.SPECIFY_FEATURE;
+
+  const branch = git(["rev-parse", "--abbrev-ref", "HEAD"], cwd);
+  if (branch !== undefined) return branch;
+
+  const specsDir = join(getRepoRoot(cwd), "specs");
+  let latest = "";
+  let highest = 0;
+  if (isDirectory(specsDir)) {
+    for (const name of readdirSync(specsDir)) {
+      const match = FEATURE_PREFIX.exec(name);
+      if (match && isDirectory(join(specsDir, name)) && Number(match[1]) > highest) {
+        highest = Number(match[1]);
+        latest = name;
+      }
+    }
+  }
+  return latest || "main";
+}
+
+/**
+ * Validates the `NNN-name` branch convention. Returns an error message, or
+ * undefined when the branch is acceptable. Non-git checkouts are not checked.
+ */
+export function checkFeatureBranch(
+  branch: string,
+  hasGitRepo: boolean,
+  warn: (message: string) => void = console.error,
+): string | undefined {
+  if (!hasGitRepo) {
+    warn("[specify] Warning: Git repository not detected; skipped branch validation");
+    return undefined;
+  }
+  if (!FEATURE_PREFIX.test(branch)) {
+    return `Not on a feature branch. Current branch: ${branch}\nFeature branches should be named like: 001-feature-name`;
+  }
+  return undefined;
+}
+
+/**
+ * Finds the feature directory by numeric prefix rather than exact branch name,
+ * so several branches (004-fix-bug, 004-add-feature) can share one spec.
+ */
+export function findFeatureDirByPrefix(
+  repoRoot: string,
+  branchName: string,
+  warn: (message: string) => void = console.error,
+): string {
+  const specsDir = join(repoRoot, "specs");
+  const match = FEATURE_PREFIX.exec(branchName);
+  if (!match) return join(specsDir, branchName);
+
+  const prefix = match[1];
+  const matches = isDirectory(specsDir)
+    ? readdirSync(specsDir)
+        .filter((name) => name.startsWith(`${prefix}-`) && isDirectory(join(specsDir, name)))
+        .sort()
+    : [];
+
+  if (matches.length === 1) return join(specsDir, matches[0]);
+  if (matches.length > 1) {
+    warn(`ERROR: Multiple spec directories found with prefix '${prefix}': ${matches.join(" ")}`);
+    warn("Please ensure only one spec directory exists per numeric prefix.");
+  }
+  return join(specsDir, branchName);
+}
+
+export function featurePathsFor(
+  repoRoot: string,
+  currentBranch: string,
+  hasGitRepo: boolean,
+  featureDir: string,
+  layout: Layout = "foundations",
+): FeaturePaths {
+  const specify = layout === "specify";
+  return {
+    layout,
+    repoRoot,
+    currentBranch,
+    hasGit: hasGitRepo,
+    featureDir,
+    featureSpec: join(featureDir, "spec.md"),
+    implPlan: join(featureDir, "plan.md"),
+    tasks: join(featureDir, "tasks.md"),
+    research: join(featureDir, specify ? "research.md" : "research-*.md"),
+    dataModel: specify ? join(featureDir, "data-model.md") : join(featureDir, "contracts", "data-model.md"),
+    quickstart: join(featureDir, "quickstart.md"),
+    contractsDir: join(featureDir, "contracts"),
+  };
+}
+
+export function getFeaturePaths(
+  cwd = process.cwd(),
+  env: NodeJS.ProcessEnv = process.env,
+  warn: (message: string) => void = console.error,
+): FeaturePaths {
+  const repoRoot = getRepoRoot(cwd);
+  const currentBranch = getCurrentBranch(cwd, env);
+  return featurePathsFor(repoRoot, currentBranch, hasGit(cwd), findFeatureDirByPrefix(repoRoot, currentBranch, warn), layoutOf(env));
+}
+
+/** Paths for an explicit feature directory, e.g. one passed on the command line. */
+export function featurePathsForDir(featureDir: string, cwd = process.cwd()): FeaturePaths {
+  const dir = resolve(cwd, featureDir);
+  return featurePathsFor(getRepoRoot(cwd), basename(dir), hasGit(cwd), dir);
+}
+
+/** research-*.md files in the feature directory, sorted by name. */
+export function researchFiles(paths: FeaturePaths): string[] {
+  if (!existsSync(paths.featureDir)) return [];
+  return readdirSync(paths.featureDir)
+    .filter((name) => /^research-.*\.md$/.test(name))
+    .sort()
+    .map((name) => join(paths.featureDir, name));
+}
+
+/** Every specs/NNN-* feature directory, sorted by name. */
+export function listFeatureDirs(repoRoot: string): string[] {
+  const specsDir = join(repoRoot, "specs");
+  if (!isDirectory(specsDir)) return [];
+  return readdirSync(specsDir)
+    .filter((name) => FEATURE_PREFIX.test(name) && isDirectory(join(specsDir, name)))
+    .sort()
+    .map((name) => join(specsDir, name));
+}
+
+/** First existing copy of a workflow template, e.g. `plan-template.md`. */
+export function findTemplate(repoRoot: string, name: string, layout: Layout = "foundations"): string | undefined {
+  return TEMPLATE_DIRS[layout].map((dir) => join(repoRoot, dir, name)).find((path) => existsSync(path));
+}
+
+/** Where findTemplate looks first; used in "not found" messages. */
+export function preferredTemplatePath(repoRoot: string, name: string, layout: Layout = "foundations"): string {
+  return join(repoRoot, TEMPLATE_DIRS[layout][0], name);
+}
@@ -0,0 +1,138 @@
+// Judge calibration metrics from judge-evaluation-criteria.md ("Judge-Human
+// Agreement Tracking" and "Quality Metrics & Reporting"):
+//   - Pearson correlation between judge and human scores, target > 0.80 with N >= 5
+//   - calibration drift, < 5% month-over-month change in average scores
+
+import type { CorrelationRecord, ReviewKind, ReviewRecord } from "./schema.ts";
+
+export const CORRELATION_TARGET = 0.8;
+export const MINIMUM_SAMPLES = 5;
+export const DRIFT_LIMIT_PERCENT = 5;
+
+export type CorrelationAssessment =
+  | "insufficient_data"
+  | "adjust_rubrics"
+  | "minor_calibration"
+  | "reliable"
+  | "possible_overfitting";
+
+export interface CorrelationReport {
+  dimension: string;
+  samples: number;
+  /** Pearson r rounded to three places for display, or null with fewer than two samples or zero variance. */
+  coefficient: number | null;
+  meanAbsoluteDelta: number | null;
+  targetMet: boolean;
+  assessment: CorrelationAssessment;
+}
+
+export interface MonthlyAverage {
+  /** `YYYY-MM` (UTC). */
+  month: string;
+  average: number;
+  samples: number;
+  /** Percent change from the previous month with data; null for the first. */
+  changePercent: number | null;
+  withinLimit: boolean;
+}
+
+export interface DriftReport {
+  kind: ReviewKind;
+  limitPercent: number;
+  months: MonthlyAverage[];
+  driftDetected: boolean;
+}
+
+function round(value: number, places = 3): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/** Maps r onto the calibration bands of the criteria document. */
+export function assessCorrelation(coefficient: number | null, samples: number): CorrelationAssessment {
+  if (coefficient === null || samples < MINIMUM_SAMPLES) return "insufficient_data";
+  if (coefficient > 0.9) return "possible_overfitting";
+  if (coefficient >= CORRELATION_TARGET) return "reliable";
+  if (coefficient >= 0.7) return "minor_calibration";
+  return "adjust_rubrics";
+}
+
+/** One correlation report per dimension, sorted with `overall` first. */
+export function computeCorrelations(records: CorrelationRecord[]): CorrelationReport[] {
+  const byDimension = new Map<string, CorrelationRecord[]>();
+  for (const record of records) {
+    byDimension.set(record.dimension, [...(byDimension.get(record.dimension) ?? []), record]);
+  }
+  const dimensions = [...byDimension.keys()].sort((a, b) =>
+    a === "overall" ? -1 : b === "overall" ? 1 : a.localeCompare(b),
+  );
+
+  return dimensions.map((dimension) => {
+    const samples = byDimension.get(dimension)!;
+    const r = pearson(
+      samples.map((sample) => sample.judge_score),
+      samples.map((sample) => sample.human_score),
+    );
+    // Bands are assessed on the exact r; 0.7996 must not round up to "reliable".
+    const assessment = assessCorrelation(r, samples.length);
+    return {
+      dimension,
+      samples: samples.length,
+      coefficient: r === null ? null : round(r),
+      meanAbsoluteDelta:
+        samples.length === 0 ? null : round(samples.reduce((sum, s) => sum + Math.abs(s.delta), 0) / samples.length),
+      targetMet: assessment === "reliable" || assessment === "possible_overfitting",
+      assessment,
+    };
+  });
+}
+
+/** Month-over-month change in average overall score for one review type. */
+export function computeDrift(kind: ReviewKind, records: ReviewRecord[]): DriftReport {
+  const byMonth = new Map<string, number[]>();
+  for (const record of records) {
+    const month = new Date(record.timestamp).toISOString().slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), record.overall_score]);
+  }
+
+  let previous: number | null = null;
+  const months = [...byMonth.keys()].sort().map((month) => {
+    const scores = byMonth.get(month)!;
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const changePercent = previous === null || previous === 0 ? null : round((Math.abs(average - previous) / previous) * 100, 2);
+    previous = average;
+    return {
+      month,
+      average: round(average, 2),
+      samples: scores.length,
+      changePercent,
+      withinLimit: changePercent === null || changePercent < DRIFT_LIMIT_PERCENT,
+    };
+  });
+
+  return {
+    kind,
+    limitPercent: DRIFT_LIMIT_PERCENT,
+    months,
+    driftDetected: months.some((month) => !month.withinLimit),
+  };
+}
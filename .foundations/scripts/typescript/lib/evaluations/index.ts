@@ -0,0 +1,8 @@
+// Judge evaluation history: schemas, storage, trends and calibration for the
+// JSONL files under <FEATURE_DIR>/evaluations/.
+
+export * from "./calibration.ts";
+export * from "./report.ts";
+export * from "./schema.ts";
+export * from "./store.ts";
+export * from "./trends.ts";
@@ -0,0 +1,160 @@
+// Assembles trend and calibration reports across one or more feature
+// directories and renders them as Markdown.
+
+import { basename } from "node:path";
+
+import type { Diagnostic } from "../artifacts/errors.ts";
+import { formatDiagnostic } from "../artifacts/errors.ts";
+import {
+  type CorrelationReport,
+  CORRELATION_TARGET,
+  type DriftReport,
+  DRIFT_LIMIT_PERCENT,
+  MINIMUM_SAMPLES,
+  computeCorrelations,
+  computeDrift,
+} from "./calibration.ts";
+import { type CorrelationRecord, MAX_ITERATIONS, type ReviewKind, type ReviewRecord } from "./schema.ts";
+import { evaluationsDir, readHistory } from "./store.ts";
+import { type TrendReport, computeTrend } from "./trends.ts";
+
+const REVIEW_KINDS: ReviewKind[] = ["spec", "code", "technical"];
+
+const KIND_LABELS: Record<ReviewKind, string> = {
+  spec: "Specification Quality",
+  code: "Code Quality",
+  technical: "Technical Quality",
+};
+
+export interface FeatureHistory {
+  featureDir: string;
+  /** Only review types that have at least one record. */
+  trends: TrendReport[];
+}
+
+export interface HistoryReport {
+  features: FeatureHistory[];
+  /** Aggregated across all features. */
+  correlations: CorrelationReport[];
+  /** Aggregated across all features, one per review type with records. */
+  drift: DriftReport[];
+  rejected: Diagnostic[];
+}
+
+export async function buildHistoryReport(featureDirs: string[]): Promise<HistoryReport> {
+  const report: HistoryReport = { features: [], correlations: [], drift: [], rejected: [] };
+  const allReviews: Record<ReviewKind, ReviewRecord[]> = { spec: [], code: [], technical: [] };
+  const correlationRecords: CorrelationRecord[] = [];
+
+  for (const featureDir of featureDirs) {
+    const dir = evaluationsDir(featureDir);
+    const feature: FeatureHistory = { featureDir, trends: [] };
+    for (const kind of REVIEW_KINDS) {
+      const history = await readHistory(kind, dir);
+      report.rejected.push(...history.rejected);
+      if (history.entries.length === 0) continue;
+      feature.trends.push(computeTrend(kind, history.entries));
+      allReviews[kind].push(...history.entries.map((entry) => entry.record));
+    }
+    const correlation = await readHistory("correlation", dir);
+    report.rejected.push(...correlation.rejected);
+    correlationRecords.push(...correlation.entries.map((entry) => entry.record));
+    report.features.push(feature);
+  }
+
+  report.correlations = computeCorrelations(correlationRecords);
+  report.drift = REVIEW_KINDS.filter((kind) => allReviews[kind].length > 0).map((kind) =>
+    computeDrift(kind, allReviews[kind]),
+  );
+  return report;
+}
+
+function signed(value: number | null): string {
+  if (value === null) return "-";
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+function renderTrend(trend: TrendReport, out: string[]): void {
+  out.push(
+    `### ${KIND_LABELS[trend.kind]} (threshold ${trend.threshold.toFixed(1)})`,
+    "",
+    "| Iteration | Score | Delta | Issues Fixed | Status |",
+    "|-----------|-------|-------|--------------|--------|",
+  );
+  for (const row of trend.rows) {
+    const fixed = row.issuesFixed === null ? "-" : `${row.issuesFixed.resolved}/${row.issuesFixed.previous}`;
+    out.push(
+      `| ${row.iteration} | ${row.score.toFixed(1)} | ${signed(row.delta)} | ${fixed} | ${row.aboveThreshold ? "Above threshold" : "Below threshold"} |`,
+    );
+  }
+  out.push("");
+
+  const threshold = trend.thresholdMet
+    ? `met (${trend.latestScore?.toFixed(1)} >= ${trend.threshold.toFixed(1)}, first reached at iteration ${trend.iterationsToThreshold})`
+    : `NOT met (latest ${trend.latestScore?.toFixed(1)} < ${trend.threshold.toFixed(1)})`;
+  const cap = trend.capRespected
+    ? `respected (${trend.maxIteration}/${MAX_ITERATIONS} iterations)`
+    : `EXCEEDED (${trend.maxIteration} iterations, cap is ${MAX_ITERATIONS})`;
+  out.push(`- Threshold: ${threshold}`, `- Refinement cap: ${cap}`);
+  if (trend.totalDelta !== null) out.push(`- Total improvement: ${signed(trend.totalDelta)}`);
+
+  const resolved = trend.rows.flatMap((row) => row.resolvedIssues.map((id) => `${id} (iteration ${row.iteration})`));
+  if (trend.issueTracking === "ids") {
+    out.push(`- Resolved issues: ${resolved.length > 0 ? resolved.join(", ") : "none"}`);
+    const open = trend.rows.length > 0 ? trend.rows[trend.rows.length - 1] : undefined;
+    if (open !== undefined && open.newIssues.length > 0 && trend.rows.length > 1) {
+      out.push(`- New in latest iteration: ${open.newIssues.join(", ")}`);
+    }
+  } else {
+    out.push("- Resolved issues: estimated from critical/high counts (records carry no issue IDs)");
+  }
+  out.push("");
+}
+
+export function renderMarkdown(report: HistoryReport): string {
+  const out: string[] = ["# Judge Evaluation History", ""];
+
+  for (const feature of report.features) {
+    out.push(`## ${basename(feature.featureDir)}`, "");
+    if (feature.trends.length === 0) {
+      out.push("No review records.", "");
+      continue;
+    }
+    for (const trend of feature.trends) renderTrend(trend, out);
+  }
+
+  out.push("## Calibration", "", `### Judge-Human Correlation (target ${CORRELATION_TARGET.toFixed(2)}, N >= ${MINIMUM_SAMPLES})`, "");
+  if (report.correlations.length === 0) {
+    out.push("No judge-human comparisons recorded.", "");
+  } else {
+    out.push("| Dimension | Samples | Pearson r | Mean abs delta | Target Met | Assessment |", "|-----------|---------|-----------|----------------|------------|------------|");
+    for (const c of report.correlations) {
+      out.push(
+        `| ${c.dimension} | ${c.samples} | ${c.coefficient?.toFixed(3) ?? "-"} | ${c.meanAbsoluteDelta?.toFixed(2) ?? "-"} | ${c.targetMet ? "Yes" : "No"} | ${c.assessment} |`,
+      );
+    }
+    out.push("");
+  }
+
+  out.push(`### Calibration Drift (limit < ${DRIFT_LIMIT_PERCENT}% monthly change)`, "");
+  if (report.drift.length === 0) {
+    out.push("No review records.", "");
+  } else {
+    out.push("| Review | Month | Average | Samples | Change | Within Limit |", "|--------|-------|---------|---------|--------|--------------|");
+    for (const drift of report.drift) {
+      for (const month of drift.months) {
+        out.push(
+          `| ${drift.kind} | ${month.month} | ${month.average.toFixed(2)} | ${month.samples} | ${month.changePercent === null ? "-" : `${month.changePercent.toFixed(2)}%`} | ${month.withinLimit ? "Yes" : "No"} |`,
+        );
+      }
+    }
+    out.push("");
+  }
+
+  if (report.rejected.length > 0) {
+    out.push("## Rejected Lines", "");
+    for (const diagnostic of report.rejected) out.push(`- ${formatDiagnostic(diagnostic)}`);
+    out.push("");
+  }
+  return out.join("\n");
+}
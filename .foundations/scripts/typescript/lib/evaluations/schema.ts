@@ -0,0 +1,249 @@
+// Record schemas for the judge evaluation history files described in
+// .specify/memory/judge-evaluation-criteria.md ("Evaluation History Storage").
+//
+// Each file under <FEATURE_DIR>/evaluations/ is JSON Lines, one record per
+// line. Validation is strict: unknown keys, wrong types, out-of-range scores
+// and unknown readiness values are all rejected.
+
+import type { Severity } from "../analyze/findings.ts";
+import { SEVERITIES } from "../analyze/findings.ts";
+
+export type ReviewKind = "spec" | "code" | "technical";
+export type HistoryKind = ReviewKind | "correlation";
+
+export const HISTORY_FILES: Record<HistoryKind, string> = {
+  spec: "spec-reviews.jsonl",
+  code: "code-reviews.jsonl",
+  technical: "technical-quality.jsonl",
+  correlation: "judge-human-correlation.jsonl",
+};
+
+/** Dimension keys and weights per review type, from the scoring rubrics. */
+export const DIMENSION_WEIGHTS: Record<ReviewKind, Record<string, number>> = {
+  spec: { clarity: 0.25, testability: 0.2, tech_agnostic: 0.2, constitution: 0.2, user_centric: 0.15 },
+  code: { modules: 0.25, security: 0.3, quality: 0.15, variables: 0.1, testing: 0.1, constitution: 0.1 },
+  technical: { architecture: 0.3, security: 0.25, tasks: 0.2, testing: 0.15, documentation: 0.1 },
+};
+
+/** Production-readiness thresholds: 7.0 for specs, 8.0 for code, 7.0 for technical quality. */
+export const THRESHOLDS: Record<ReviewKind, number> = { spec: 7.0, code: 8.0, technical: 7.0 };
+
+/** Refinement loops stop after this many iterations. */
+export const MAX_ITERATIONS = 3;
+
+/** Readiness values per review type, best first, with the lowest score each one starts at. */
+export const READINESS_LEVELS: Record<ReviewKind, readonly { value: string; minScore: number }[]> = {
+  spec: [
+    { value: "ready", minScore: 7.0 },
+    { value: "refinement_recommended", minScore: 5.0 },
+    { value: "rework_required", minScore: 0 },
+  ],
+  code: [
+    { value: "production_ready", minScore: 8.0 },
+    { value: "minor_fixes_required", minScore: 6.0 },
+    { value: "significant_rework", minScore: 4.0 },
+    { value: "not_production_ready", minScore: 0 },
+  ],
+  technical: [
+    { value: "high_confidence", minScore: 7.0 },
+    { value: "minor_improvements", minScore: 6.0 },
+    { value: "redesign_recommended", minScore: 0 },
+  ],
+};
+
+export interface TrackedIssue {
+  /** Stable identifier the judge reuses across iterations, e.g. `SEC-003`. */
+  id: string;
+  severity: Severity;
+  summary?: string;
+}
+
+export interface ReviewRecord {
+  timestamp: string;
+  iteration: number;
+  overall_score: number;
+  dimension_scores: Record<string, number>;
+  readiness: string;
+  critical_issues: number;
+  high_priority_issues: number;
+  evaluator?: string;
+  files_evaluated?: number;
+  /** Open issues at this iteration; lets reports say which earlier issues were resolved. */
+  issues?: TrackedIssue[];
+}
+
+export interface CorrelationRecord {
+  timestamp: string;
+  feature: string;
+  human_score: number;
+  judge_score: number;
+  /** human_score - judge_score */
+  delta: number;
+  dimension: string;
+  evaluator?: string;
+}
+
+export type HistoryRecord<K extends HistoryKind> = K extends "correlation" ? CorrelationRecord : ReviewRecord;
+
+/** Returns the readiness value the rubric assigns to `score`. */
+export function readinessFor(kind: ReviewKind, score: number): string {
+  const level = READINESS_LEVELS[kind].find((candidate) => score >= candidate.minScore);
+  return (level ?? READINESS_LEVELS[kind][READINESS_LEVELS[kind].length - 1]).value;
+}
+
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+const REVIEW_KEYS = new Set([
+  "timestamp",
+  "iteration",
+  "overall_score",
+  "dimension_scores",
+  "readiness",
+  "critical_issues",
+  "high_priority_issues",
+  "evaluator",
+  "files_evaluated",
+  "issues",
+]);
+const CORRELATION_KEYS = new Set(["timestamp", "feature", "human_score", "judge_score", "delta", "dimension", "evaluator"]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+class Checker {
+  readonly errors: string[] = [];
+  readonly record: Record<string, unknown>;
+
+  constructor(record: Record<string, unknown>, allowed: Set<string>) {
+    this.record = record;
+    for (const key of Object.keys(record)) {
+      if (!allowed.has(key)) this.errors.push(`unknown field "${key}"`);
+    }
+  }
+
+  private present(key: string, optional: boolean): boolean {
+    if (this.record[key] !== undefined) return true;
+    if (!optional) this.errors.push(`missing required field "${key}"`);
+    return false;
+  }
+
+  timestamp(key: string): void {
+    if (!this.present(key, false)) return;
+    const value = this.record[key];
+    if (typeof value !== "string" || !ISO_8601.test(value) || Number.isNaN(Date.parse(value))) {
+      this.errors.push(`"${key}" must be an ISO-8601 timestamp with time zone`);
+    }
+  }
+
+  string(key: string, optional = false): void {
+    if (!this.present(key, optional)) return;
+    const value = this.record[key];
+    if (typeof value !== "string" || value.trim() === "") {
+      this.errors.push(`"${key}" must be a non-empty string`);
+    }
+  }
+
+  score(key: string, value = this.record[key], label = `"${key}"`): void {
+    if (value === undefined) {
+      this.errors.push(`missing required field ${label}`);
+    } else if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 10) {
+      this.errors.push(`${label} must be a number from 0 to 10`);
+    }
+  }
+
+  count(key: string, minimum: number, optional = false): void {
+    if (!this.present(key, optional)) return;
+    const value = this.record[key];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < minimum) {
+      this.errors.push(`"${key}" must be an integer >= ${minimum}`);
+    }
+  }
+}
+
+function checkReview(kind: ReviewKind, record: Record<string, unknown>): string[] {
+  const check = new Checker(record, REVIEW_KEYS);
+  check.timestamp("timestamp");
+  check.count("iteration", 1);
+  check.score("overall_score");
+  check.count("critical_issues", 0);
+  check.count("high_priority_issues", 0);
+  check.string("evaluator", true);
+  check.count("files_evaluated", 0, true);
+
+  const readiness = record.readiness;
+  const allowed = READINESS_LEVELS[kind].map((level) => level.value);
+  if (readiness === undefined) {
+    check.errors.push('missing required field "readiness"');
+  } else if (typeof readiness !== "string" || !allowed.includes(readiness)) {
+    check.errors.push(`"readiness" must be one of ${allowed.join(", ")}`);
+  }
+
+  const dimensions = record.dimension_scores;
+  const expected = Object.keys(DIMENSION_WEIGHTS[kind]);
+  if (dimensions === undefined) {
+    check.errors.push('missing required field "dimension_scores"');
+  } else if (!isObject(dimensions)) {
+    check.errors.push('"dimension_scores" must be an object');
+  } else {
+    for (const key of Object.keys(dimensions)) {
+      if (!expected.includes(key)) check.errors.push(`unknown dimension "${key}" (expected ${expected.join(", ")})`);
+    }
+    for (const key of expected) {
+      check.score(key, dimensions[key], `dimension "${key}"`);
+    }
+  }
+
+  const issues = record.issues;
+  if (issues !== undefined) {
+    if (!Array.isArray(issues)) {
+      check.errors.push('"issues" must be an array');
+    } else {
+      const ids = new Set<string>();
+      issues.forEach((issue, i) => {
+        if (!isObject(issue) || typeof issue.id !== "string" || issue.id === "") {
+          check.errors.push(`issues[${i}] must have a non-empty string "id"`);
+          return;
+        }
+        if (ids.has(issue.id)) check.errors.push(`issues[${i}] repeats id "${issue.id}"`);
+        ids.add(issue.id);
+        if (!SEVERITIES.includes(issue.severity as Severity)) {
+          check.errors.push(`issues[${i}].severity must be one of ${SEVERITIES.join(", ")}`);
+        }
+        if (issue.summary !== undefined && typeof issue.summary !== "string") {
+          check.errors.push(`issues[${i}].summary must be a string`);
+        }
+        for (const key of Object.keys(issue)) {
+          if (!["id", "severity", "summary"].includes(key)) check.errors.push(`issues[${i}] has unknown field "${key}"`);
+        }
+      });
+    }
+  }
+  return check.errors;
+}
+
+function checkCorrelation(record: Record<string, unknown>): string[] {
+  const check = new Checker(record, CORRELATION_KEYS);
+  check.timestamp("timestamp");
+  check.string("feature");
+  check.score("human_score");
+  check.score("judge_score");
+  check.string("dimension");
+  check.string("evaluator", true);
+
+  const { human_score: human, judge_score: judge, delta } = record;
+  if (delta === undefined) {
+    check.errors.push('missing required field "delta"');
+  } else if (typeof delta !== "number" || !Number.isFinite(delta)) {
+    check.errors.push('"delta" must be a number');
+  } else if (typeof human === "number" && typeof judge === "number" && Math.abs(human - judge - delta) > 0.01) {
+    check.errors.push(`"delta" must equal human_score - judge_score (${(human - judge).toFixed(2)})`);
+  }
+  return check.errors;
+}
+
+/** Validates one decoded JSON value. Returns the problems found; empty means valid. */
+export function validateRecord(kind: HistoryKind, value: unknown): string[] {
+  if (!isObject(value)) return ["record must be a JSON object"];
+  return kind === "correlation" ? checkCorrelation(value) : checkReview(kind, value);
+}
@@ -0,0 +1,85 @@
+// Reading and appending the JSONL evaluation history under <FEATURE_DIR>/evaluations/.
+
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { Diagnostic } from "../artifacts/errors.ts";
+import { HISTORY_FILES, type HistoryKind, type HistoryRecord, validateRecord } from "./schema.ts";
+
+export interface HistoryEntry<K extends HistoryKind> {
+  line: number;
+  record: HistoryRecord<K>;
+}
+
+export interface HistoryFile<K extends HistoryKind> {
+  kind: K;
+  path: string;
+  entries: HistoryEntry<K>[];
+  /** Malformed lines, one diagnostic per problem. */
+  rejected: Diagnostic[];
+}
+
+/** Thrown by appendRecord when a record does not match its schema. */
+export class InvalidRecordError extends Error {
+  readonly problems: string[];
+
+  constructor(kind: HistoryKind, problems: string[]) {
+    super(`invalid ${HISTORY_FILES[kind]} record: ${problems.join("; ")}`);
+    this.name = "InvalidRecordError";
+    this.problems = problems;
+  }
+}
+
+export function evaluationsDir(featureDir: string): string {
+  return join(featureDir, "evaluations");
+}
+
+/** Parses JSONL text. Valid lines become entries; every other non-blank line is rejected. */
+export function parseHistory<K extends HistoryKind>(kind: K, source: string, path: string): HistoryFile<K> {
+  const history: HistoryFile<K> = { kind, path, entries: [], rejected: [] };
+  source.split(/\r?\n/).forEach((text, i) => {
+    const line = i + 1;
+    if (text.trim() === "") return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      history.rejected.push({ file: path, line, message: `invalid JSON: ${(error as Error).message}` });
+      return;
+    }
+    const problems = validateRecord(kind, value);
+    if (problems.length > 0) {
+      for (const message of problems) history.rejected.push({ file: path, line, message });
+      return;
+    }
+    history.entries.push({ line, record: value as HistoryRecord<K> });
+  });
+  return history;
+}
+
+/** Reads one history file from an evaluations directory. A missing file is an empty history. */
+export async function readHistory<K extends HistoryKind>(kind: K, dir: string): Promise<HistoryFile<K>> {
+  const path = join(dir, HISTORY_FILES[kind]);
+  let source: string;
+  try {
+    source = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { kind, path, entries: [], rejected: [] };
+    }
+    throw error;
+  }
+  return parseHistory(kind, source, path);
+}
+
+/** Validates `record` and appends it as one JSON line, creating the directory if needed. */
+export async function appendRecord<K extends HistoryKind>(kind: K, dir: string, record: unknown): Promise<HistoryRecord<K>> {
+  const problems = validateRecord(kind, record);
+  if (problems.length > 0) {
+    throw new InvalidRecordError(kind, problems);
+  }
+  await mkdir(dir, { recursive: true });
+  await appendFile(join(dir, HISTORY_FILES[kind]), JSON.stringify(record) + "\n", "utf8");
+  return record as HistoryRecord<K>;
+}
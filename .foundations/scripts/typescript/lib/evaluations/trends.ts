@@ -0,0 +1,111 @@
+// Iteration-over-iteration improvement tracking for one feature's reviews,
+// following "Iterative Refinement Protocol" in judge-evaluation-criteria.md.
+
+import { MAX_ITERATIONS, type ReviewKind, type ReviewRecord, THRESHOLDS } from "./schema.ts";
+import type { HistoryEntry } from "./store.ts";
+
+export interface IterationRow {
+  iteration: number;
+  timestamp: string;
+  score: number;
+  /** Score change from the previous row; null for the first. */
+  delta: number | null;
+  criticalIssues: number;
+  highPriorityIssues: number;
+  /** Issues open in the previous row and gone in this one. Empty without issue IDs. */
+  resolvedIssues: string[];
+  /** Issues that first appear in this row. Empty without issue IDs. */
+  newIssues: string[];
+  /** "Issues Fixed" as resolved/previous; null for the first row. */
+  issuesFixed: { resolved: number; previous: number } | null;
+  aboveThreshold: boolean;
+  line: number;
+}
+
+export interface TrendReport {
+  kind: ReviewKind;
+  threshold: number;
+  rows: IterationRow[];
+  latestScore: number | null;
+  thresholdMet: boolean;
+  /** Iteration number of the first row at or above the threshold. */
+  iterationsToThreshold: number | null;
+  maxIteration: number;
+  /** False when the refinement loop ran past MAX_ITERATIONS. */
+  capRespected: boolean;
+  /** Latest score minus first score. */
+  totalDelta: number | null;
+  /** "ids" when every row lists its issues, otherwise improvement is estimated from counts. */
+  issueTracking: "ids" | "counts";
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function openCount(record: ReviewRecord): number {
+  return record.issues?.length ?? record.critical_issues + record.high_priority_issues;
+}
+
+export function computeTrend(kind: ReviewKind, entries: HistoryEntry<ReviewKind>[]): TrendReport {
+  const threshold = THRESHOLDS[kind];
+  const sorted = [...entries].sort(
+    (a, b) =>
+      Date.parse(a.record.timestamp) - Date.parse(b.record.timestamp) ||
+      a.record.iteration - b.record.iteration ||
+      a.line - b.line,
+  );
+  const issueTracking = sorted.length > 0 && sorted.every((entry) => entry.record.issues !== undefined) ? "ids" : "counts";
+
+  const rows: IterationRow[] = sorted.map((entry, i) => {
+    const record = entry.record;
+    const previous = i > 0 ? sorted[i - 1].record : undefined;
+
+    let resolvedIssues: string[] = [];
+    let newIssues: string[] = [];
+    let issuesFixed: IterationRow["issuesFixed"] = null;
+    if (previous !== undefined) {
+      if (issueTracking === "ids") {
+        const before = new Set(previous.issues!.map((issue) => issue.id));
+        const after = new Set(record.issues!.map((issue) => issue.id));
+        resolvedIssues = [...before].filter((id) => !after.has(id)).sort();
+        newIssues = [...after].filter((id) => !before.has(id)).sort();
+        issuesFixed = { resolved: resolvedIssues.length, previous: before.size };
+      } else {
+        issuesFixed = {
+          resolved: Math.max(0, openCount(previous) - openCount(record)),
+          previous: openCount(previous),
+        };
+      }
+    }
+
+    return {
+      iteration: record.iteration,
+      timestamp: record.timestamp,
+      score: record.overall_score,
+      delta: previous === undefined ? null : round(record.overall_score - previous.overall_score),
+      criticalIssues: record.critical_issues,
+      highPriorityIssues: record.high_priority_issues,
+      resolvedIssues,
+      newIssues,
+      issuesFixed,
+      aboveThreshold: record.overall_score >= threshold,
+      line: entry.line,
+    };
+  });
+
+  const latest = rows[rows.length - 1];
+  const maxIteration = rows.reduce((max, row) => Math.max(max, row.iteration), 0);
+  return {
+    kind,
+    threshold,
+    rows,
+    latestScore: latest?.score ?? null,
+    thresholdMet: latest?.aboveThreshold ?? false,
+    iterationsToThreshold: rows.find((row) => row.aboveThreshold)?.iteration ?? null,
+    maxIteration,
+    capRespected: maxIteration <= MAX_ITERATIONS,
+    totalDelta: rows.length < 2 ? null : round(latest.score - rows[0].score),
+    issueTracking,
+  };
+}
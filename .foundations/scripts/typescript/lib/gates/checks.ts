@@ -0,0 +1,279 @@
+// Built-in check types for the environment gate.
+//
+// A repo's env-checks.json picks a `type` per check and supplies that type's
+// options; the type decides whether the check passed and what its detail
+// line says. Types never read process state directly: commands run through
+// the CheckRun context, and all of a check's commands share its deadline.
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { performance } from "node:perf_hooks";
+
+import { type CommandContext, type RunResult, commandExists, git, run } from "../speckit/context.ts";
+import { DEFAULT_GITHUB_HOST, isEnterpriseServer, originHost } from "../speckit/github.ts";
+import { requiredVersion, satisfies } from "./version.ts";
+
+export interface CheckOutcome {
+  passed: boolean;
+  /** Status such as `SET` or `NOT INSTALLED`. */
+  detail: string;
+  /** How to fix a failure; the check's configured remediation replaces it. */
+  remediation?: string;
+}
+
+export interface CheckRun {
+  ctx: CommandContext;
+  repoRoot: string;
+  /** `performance.now()` by which every command of the check must have finished. */
+  deadline: number;
+}
+
+/** Validates one option value; returns a message, or undefined when valid. */
+export type OptionValidator = (value: unknown) => string | undefined;
+
+export interface CheckType {
+  summary: string;
+  /** Type-specific keys accepted under a check's `options`. */
+  options: Record<string, { validate: OptionValidator; required: boolean }>;
+  run(options: Record<string, unknown>, check: CheckRun): CheckOutcome;
+}
+
+/** Thrown by `exec` when a command would outlive the check's deadline. */
+export class CheckTimeoutError extends Error {
+  constructor(command: string) {
+    super(`${command} timed out`);
+    this.name = "CheckTimeoutError";
+  }
+}
+
+export const isString: OptionValidator = (value) =>
+  typeof value === "string" && value.trim() !== "" ? undefined : "must be a non-empty string";
+
+export const isStringList: OptionValidator = (value) =>
+  Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "string" && item !== "")
+    ? undefined
+    : "must be a non-empty array of strings";
+
+/** Runs a command with whatever is left of the check's time; elapsed time is measured, not read from the context clock. */
+function exec(check: CheckRun, command: string, args: string[]): RunResult {
+  const remaining = Math.ceil(check.deadline - performance.now());
+  if (remaining <= 0) throw new CheckTimeoutError([command, ...args].join(" "));
+  const result = run(check.ctx, command, args, { timeoutMs: remaining });
+  if (result.timedOut) throw new CheckTimeoutError([command, ...args].join(" "));
+  return result;
+}
+
+/** Set when any of the listed variables is non-empty; names the variable when there is a choice. */
+const envCheck: CheckType = {
+  summary: "Environment variable set (any of `env`)",
+  options: { env: { validate: isStringList, required: true } },
+  run(options, check) {
+    const names = options.env as string[];
+    const found = names.find((name) => check.ctx.env[name]);
+    if (found === undefined) return { passed: false, detail: "NOT SET", remediation: `export ${names.join(" or ")}` };
+    return { passed: true, detail: names.length > 1 ? `SET (${found})` : "SET" };
+  },
+};
+
+/** Program on PATH. */
+const toolCheck: CheckType = {
+  summary: "Program `command` installed",
+  options: { command: { validate: isString, required: true } },
+  run(options, check) {
+    return commandExists(check.ctx, options.command as string)
+      ? { passed: true, detail: "INSTALLED" }
+      : { passed: false, detail: "NOT INSTALLED" };
+  },
+};
+
+/** Any project-specific command; passes when it exits 0. */
+const commandCheck: CheckType = {
+  summary: "Command `run` exits 0",
+  options: { run: { validate: isStringList, required: true } },
+  run(options, check) {
+    const [command, ...args] = options.run as string[];
+    const result = exec(check, command, args);
+    if (result.status === 0) return { passed: true, detail: "OK" };
+    if (result.status === 127) return { passed: false, detail: `NOT INSTALLED (${command})` };
+    return { passed: false, detail: `FAILED (exit ${result.status})` };
+  },
+};
+
+/**
+ * gh installed and authenticated for the origin host. gh also accepts
+ * GITHUB_TOKEN / GH_TOKEN for github.com and *.ghe.com, and
+ * GH_ENTERPRISE_TOKEN for GitHub Enterprise Server, without `gh auth login`.
+ */
+const ghAuthCheck: CheckType = {
+  summary: "GitHub CLI installed and authenticated for the origin host",
+  options: {},
+  run(_options, check) {
+    const { ctx } = check;
+    if (!commandExists(ctx, "gh")) {
+      return { passed: false, detail: "NOT INSTALLED", remediation: "see: https://cli.github.com" };
+    }
+    const insideWorkTree = git(ctx, ["rev-parse", "--is-inside-work-tree"]).status === 0;
+    const host = (insideWorkTree ? originHost(ctx) : undefined) ?? DEFAULT_GITHUB_HOST;
+    const enterprise = isEnterpriseServer(host);
+
+    if (exec(check, "gh", ["auth", "status", "--hostname", host]).status === 0) {
+      return { passed: true, detail: `AUTHENTICATED (${host})` };
+    }
+    if (enterprise && ctx.env.GH_ENTERPRISE_TOKEN) {
+      return { passed: true, detail: `AUTHENTICATED via GH_ENTERPRISE_TOKEN (${host})` };
+    }
+    if (!enterprise && (ctx.env.GITHUB_TOKEN || ctx.env.GH_TOKEN)) {
+      return { passed: true, detail: `AUTHENTICATED via GITHUB_TOKEN (${host})` };
+    }
+    return enterprise
+      ? { passed: false, detail: `NOT AUTHENTICATED for ${host}`, remediation: "export GH_ENTERPRISE_TOKEN" }
+      : { passed: false, detail: "NOT AUTHENTICATED", remediation: "export GITHUB_TOKEN" };
+  },
+};
+
+function terraformVersion(check: CheckRun): string | undefined {
+  const json = exec(check, "terraform", ["version", "-json"]);
+  if (json.status === 0) {
+    try {
+      const version = (JSON.parse(json.stdout) as { terraform_version?: unknown }).terraform_version;
+      if (typeof version === "string") return version;
+    } catch {
+      // older releases print text; fall through
+    }
+  }
+  const text = exec(check, "terraform", ["version"]);
+  return text.status === 0 ? /Terraform v(\S+)/.exec(text.stdout)?.[1] : undefined;
+}
+
+/** Installed terraform meets `required_version` in `file` (default versions.tf). */
+const terraformVersionCheck: CheckType = {
+  summary: "terraform satisfies required_version in `file` (default versions.tf)",
+  options: { file: { validate: isString, required: false } },
+  run(options, check) {
+    if (!commandExists(check.ctx, "terraform")) {
+      return { passed: false, detail: "NOT INSTALLED", remediation: "see: https://developer.hashicorp.com/terraform/install" };
+    }
+    const version = terraformVersion(check);
+    if (version === undefined) return { passed: false, detail: "VERSION UNKNOWN (terraform version failed)" };
+
+    const file = (options.file as string | undefined) ?? "versions.tf";
+    const path = join(check.repoRoot, file);
+    const constraint = existsSync(path) ? requiredVersion(readFileSync(path, "utf8")) : undefined;
+    if (constraint === undefined) return { passed: true, detail: `INSTALLED (${version}; ${file} sets no required_version)` };
+
+    const ok = satisfies(version, constraint);
+    if (ok === undefined) return { passed: false, detail: `CANNOT COMPARE ${version} with "${constraint}" in ${file}` };
+    return ok
+      ? { passed: true, detail: `INSTALLED (${version} satisfies ${constraint})` }
+      : {
+          passed: false,
+          detail: `${version} does not satisfy ${constraint} (${file})`,
+          remediation: "install a matching release, e.g. with tfenv",
+        };
+  },
+};
+
+/** `docker run` options that take a separate value, so the value is not mistaken for the image. */
+const DOCKER_VALUE_FLAGS = new Set([
+  "-e", "--env", "--env-file", "--name", "-v", "--volume", "-p", "--publish", "--network", "-w", "--workdir",
+  "-u", "--user", "--entrypoint", "--platform", "-l", "--label", "--mount", "--add-host", "-h", "--hostname",
+]);
+
+/** Image of a `docker run ... IMAGE [CMD]` argument list. */
+export function dockerRunImage(args: string[]): string | undefined {
+  const start = args.indexOf("run");
+  if (start === -1) return undefined;
+  for (let i = start + 1; i < args.length; i++) {
+    const arg = args[i];
+    if (DOCKER_VALUE_FLAGS.has(arg)) i++;
+    else if (!arg.startsWith("-")) return arg;
+  }
+  return undefined;
+}
+
+interface McpServer {
+  command?: unknown;
+  args?: unknown;
+}
+
+/** Images of the docker-based servers in an MCP config, optionally limited to one server. */
+export function mcpImages(config: unknown, server?: string): string[] {
+  const servers = (config as { mcpServers?: Record<string, McpServer> } | null)?.mcpServers ?? {};
+  return Object.entries(servers)
+    .filter(([name, entry]) => (server === undefined || name === server) && entry.command === "docker")
+    .map(([, entry]) => (Array.isArray(entry.args) ? dockerRunImage(entry.args.map(String)) : undefined))
+    .filter((image): image is string => image !== undefined);
+}
+
+/** Every docker image named in the MCP config is present locally. */
+const mcpImageCheck: CheckType = {
+  summary: "MCP server images from `config` (default .copilot/mcp-config.json) pulled",
+  options: { config: { validate: isString, required: false }, server: { validate: isString, required: false } },
+  run(options, check) {
+    const file = (options.config as string | undefined) ?? ".copilot/mcp-config.json";
+    let config: unknown;
+    try {
+      config = JSON.parse(readFileSync(join(check.repoRoot, file), "utf8"));
+    } catch (error) {
+      const reason = (error as NodeJS.ErrnoException).code === "ENOENT" ? "not found" : "invalid JSON";
+      return { passed: false, detail: `CANNOT READ ${file} (${reason})` };
+    }
+    const images = mcpImages(config, options.server as string | undefined);
+    if (images.length === 0) return { passed: true, detail: `NO DOCKER SERVERS in ${file}` };
+
+    const missing: string[] = [];
+    for (const image of images) {
+      const inspect = exec(check, "docker", ["image", "inspect", "--format", "{{.Id}}", image]);
+      if (inspect.status === 0) continue;
+      if (/Cannot connect to the Docker daemon/i.test(inspect.stderr)) {
+        return { passed: false, detail: "DOCKER DAEMON NOT RUNNING", remediation: "start Docker" };
+      }
+      missing.push(image);
+    }
+    if (missing.length === 0) return { passed: true, detail: `PRESENT (${images.join(", ")})` };
+    return {
+      passed: false,
+      detail: `NOT PULLED (${missing.join(", ")})`,
+      remediation: missing.map((image) => `docker pull ${image}`).join(" && "),
+    };
+  },
+};
+
+/** `aws sts get-caller-identity` succeeds with the ambient credentials. */
+const awsCredentialsCheck: CheckType = {
+  summary: "AWS credentials resolve (aws sts get-caller-identity)",
+  options: { profile: { validate: isString, required: false } },
+  run(options, check) {
+    if (!commandExists(check.ctx, "aws")) {
+      return { passed: false, detail: "AWS CLI NOT INSTALLED", remediation: "see: https://aws.amazon.com/cli/" };
+    }
+    const args = ["sts", "get-caller-identity", "--output", "json"];
+    if (options.profile !== undefined) args.push("--profile", options.profile as string);
+    const result = exec(check, "aws", args);
+    if (result.status !== 0) {
+      return {
+        passed: false,
+        detail: "NOT AUTHENTICATED",
+        remediation: "run aws configure / aws sso login, or export AWS_PROFILE or AWS_ACCESS_KEY_ID",
+      };
+    }
+    let arn: unknown;
+    try {
+      arn = (JSON.parse(result.stdout) as { Arn?: unknown }).Arn;
+    } catch {
+      // identity is informational only
+    }
+    return { passed: true, detail: typeof arn === "string" ? `AUTHENTICATED (${arn})` : "AUTHENTICATED" };
+  },
+};
+
+/** Check types by the `type` name used in env-checks.json. */
+export const CHECK_TYPES: Record<string, CheckType> = {
+  env: envCheck,
+  tool: toolCheck,
+  command: commandCheck,
+  "gh-auth": ghAuthCheck,
+  "terraform-version": terraformVersionCheck,
+  "mcp-image": mcpImageCheck,
+  "aws-credentials": awsCredentialsCheck,
+};
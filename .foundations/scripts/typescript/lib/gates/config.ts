@@ -0,0 +1,237 @@
+// Repo-level declaration of the environment gate checks.
+//
+// .foundations/env-checks.json lists the checks `speckit validate-env` runs,
+// in report order. Each names a type from CHECK_TYPES, a GATE/WARN severity,
+// an optional timeout in seconds for the whole check, remediation text shown when it
+// fails and the checks it depends on. Validation is strict: unknown keys,
+// unknown types, duplicate names, missing dependencies and cycles are errors.
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { type Diagnostic, formatDiagnostic } from "../artifacts/errors.ts";
+import { CHECK_TYPES } from "./checks.ts";
+import type { Severity } from "./runner.ts";
+
+export const CONFIG_FILE = ".foundations/env-checks.json";
+
+/** Seconds a check, all of its commands together, may run when the config sets no timeout. */
+export const DEFAULT_TIMEOUT = 10;
+
+export interface GateCheck {
+  name: string;
+  type: string;
+  severity: Severity;
+  /** Seconds. */
+  timeout: number;
+  /** Replaces the check type's own remediation hint. */
+  remediation?: string;
+  dependsOn: string[];
+  options: Record<string, unknown>;
+}
+
+/** The checks validate-env.sh hardcoded; used when the repo has no config file. */
+export const DEFAULT_CHECKS: GateCheck[] = [
+  {
+    name: "TFE_TOKEN",
+    type: "env",
+    severity: "GATE",
+    timeout: DEFAULT_TIMEOUT,
+    remediation: "export TFE_TOKEN from https://app.terraform.io/app/settings/tokens",
+    dependsOn: [],
+    options: { env: ["TFE_TOKEN"] },
+  },
+  {
+    name: "GITHUB_TOKEN",
+    type: "env",
+    severity: "GATE",
+    timeout: DEFAULT_TIMEOUT,
+    remediation: "export GITHUB_TOKEN or GH_ENTERPRISE_TOKEN",
+    dependsOn: [],
+    options: { env: ["GITHUB_TOKEN", "GH_ENTERPRISE_TOKEN"] },
+  },
+  { name: "GH_CLI", type: "gh-auth", severity: "GATE", timeout: DEFAULT_TIMEOUT, dependsOn: [], options: {} },
+  {
+    name: "TFLINT",
+    type: "tool",
+    severity: "WARN",
+    timeout: DEFAULT_TIMEOUT,
+    remediation: "code quality linting unavailable",
+    dependsOn: [],
+    options: { command: "tflint" },
+  },
+  {
+    name: "PRE_COMMIT",
+    type: "tool",
+    severity: "WARN",
+    timeout: DEFAULT_TIMEOUT,
+    remediation: "git hooks unavailable",
+    dependsOn: [],
+    options: { command: "pre-commit" },
+  },
+];
+
+/** Thrown when env-checks.json cannot be used; lists every problem found. */
+export class GateConfigError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join("\n"));
+    this.name = "GateConfigError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+const CHECK_KEYS = new Set(["name", "type", "severity", "timeout", "remediation", "depends_on", "options"]);
+const NAME = /^[A-Z][A-Z0-9_]*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** 1-based line declaring check `name`, or 1 when it cannot be found. */
+function lineOf(source: string, name: unknown): number {
+  if (typeof name !== "string") return 1;
+  const index = source.search(new RegExp(`"name"\\s*:\\s*${JSON.stringify(name).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+  return index === -1 ? 1 : source.slice(0, index).split("\n").length;
+}
+
+function checkEntry(entry: unknown, index: number): { check?: GateCheck; errors: string[] } {
+  if (!isObject(entry)) return { errors: [`checks[${index}] must be an object`] };
+  const errors: string[] = [];
+  const label = typeof entry.name === "string" ? entry.name : `checks[${index}]`;
+  const fail = (message: string) => errors.push(`${label}: ${message}`);
+
+  for (const key of Object.keys(entry)) {
+    if (!CHECK_KEYS.has(key)) fail(`unknown field "${key}"`);
+  }
+  if (typeof entry.name !== "string" || !NAME.test(entry.name)) {
+    fail('"name" must be UPPER_SNAKE_CASE, e.g. "TFE_TOKEN"');
+  }
+  if (entry.severity !== "GATE" && entry.severity !== "WARN") fail('"severity" must be GATE or WARN');
+
+  const timeout = entry.timeout ?? DEFAULT_TIMEOUT;
+  if (typeof timeout !== "number" || !Number.isFinite(timeout) || timeout <= 0) fail('"timeout" must be a positive number of seconds');
+  if (entry.remediation !== undefined && (typeof entry.remediation !== "string" || entry.remediation.trim() === "")) {
+    fail('"remediation" must be a non-empty string');
+  }
+  const dependsOn = entry.depends_on ?? [];
+  if (!Array.isArray(dependsOn) || !dependsOn.every((name) => typeof name === "string")) {
+    fail('"depends_on" must be an array of check names');
+  }
+
+  const options = entry.options ?? {};
+  const type = typeof entry.type === "string" && Object.hasOwn(CHECK_TYPES, entry.type) ? CHECK_TYPES[entry.type] : undefined;
+  if (type === undefined) {
+    fail(`"type" must be one of ${Object.keys(CHECK_TYPES).join(", ")}`);
+  } else if (!isObject(options)) {
+    fail('"options" must be an object');
+  } else {
+    for (const key of Object.keys(options)) {
+      if (!Object.hasOwn(type.options, key)) fail(`unknown option "${key}" for type ${entry.type}`);
+    }
+    for (const [key, spec] of Object.entries(type.options)) {
+      if (options[key] === undefined) {
+        if (spec.required) fail(`missing required option "${key}" for type ${entry.type}`);
+        continue;
+      }
+      const problem = spec.validate(options[key]);
+      if (problem !== undefined) fail(`option "${key}" ${problem}`);
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    check: {
+      name: entry.name as string,
+      type: entry.type as string,
+      severity: entry.severity as Severity,
+      timeout: timeout as number,
+      remediation: entry.remediation as string | undefined,
+      dependsOn: dependsOn as string[],
+      options: options as Record<string, unknown>,
+    },
+    errors,
+  };
+}
+
+/** The first dependency cycle found, as a path of check names, or undefined when there is none. */
+function findCycle(checks: GateCheck[]): string[] | undefined {
+  const byName = new Map(checks.map((check) => [check.name, check]));
+  const done = new Set<string>();
+  const visit = (name: string, path: string[]): string[] | undefined => {
+    if (path.includes(name)) return [...path.slice(path.indexOf(name)), name];
+    if (done.has(name)) return undefined;
+    for (const dependency of byName.get(name)?.dependsOn ?? []) {
+      const cycle = visit(dependency, [...path, name]);
+      if (cycle) return cycle;
+    }
+    done.add(name);
+    return undefined;
+  };
+  for (const check of checks) {
+    const cycle = visit(check.name, []);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+/** Validates decoded env-checks.json content. `file` and `source` locate diagnostics. */
+export function parseGateConfig(value: unknown, file: string, source = ""): GateCheck[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (line: number, message: string) => diagnostics.push({ file, line, message });
+
+  if (!isObject(value) || !Array.isArray(value.checks)) {
+    throw new GateConfigError([{ file, line: 1, message: 'expected an object with a "checks" array' }]);
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== "checks" && key !== "$schema") report(1, `unknown field "${key}"`);
+  }
+
+  const checks: GateCheck[] = [];
+  value.checks.forEach((entry, index) => {
+    const { check, errors } = checkEntry(entry, index);
+    const line = lineOf(source, isObject(entry) ? entry.name : undefined);
+    for (const message of errors) report(line, message);
+    if (check) checks.push(check);
+  });
+
+  const names = new Set<string>();
+  for (const check of checks) {
+    if (names.has(check.name)) report(lineOf(source, check.name), `${check.name}: declared more than once`);
+    names.add(check.name);
+  }
+  for (const check of checks) {
+    for (const dependency of check.dependsOn) {
+      if (!names.has(dependency)) report(lineOf(source, check.name), `${check.name}: depends on unknown check "${dependency}"`);
+    }
+  }
+  if (diagnostics.length === 0) {
+    const cycle = findCycle(checks);
+    if (cycle) report(lineOf(source, cycle[0]), `dependency cycle: ${cycle.join(" -> ")}`);
+  }
+
+  if (diagnostics.length > 0) throw new GateConfigError(diagnostics.sort((a, b) => a.line - b.line));
+  return checks;
+}
+
+/**
+ * Loads the gate checks from `path` (default: env-checks.json under
+ * `repoRoot`). A missing default file means DEFAULT_CHECKS; a missing
+ * explicit path is an error.
+ */
+export function loadGateConfig(repoRoot: string, path?: string): GateCheck[] {
+  const file = path ?? join(repoRoot, CONFIG_FILE);
+  if (!existsSync(file)) {
+    if (path === undefined) return DEFAULT_CHECKS;
+    throw new GateConfigError([{ file, line: 1, message: "file not found" }]);
+  }
+  const source = readFileSync(file, "utf8");
+  let value: unknown;
+  try {
+    value = JSON.parse(source);
+  } catch (error) {
+    throw new GateConfigError([{ file, line: 1, message: `invalid JSON: ${(error as Error).message}` }]);
+  }
+  return parseGateConfig(value, file, source);
+}
@@ -0,0 +1,12 @@
+// Environment gate framework: the check types, the env-checks.json config
+// that declares a repo's checks and the runner behind `speckit validate-env`.
+//
+// Usage:
+//   const checks = loadGateConfig(repoRoot);
+//   const result = runGates(checks, processContext(), repoRoot);
+//   process.exitCode = exitCodeFor(result);
+
+export * from "./checks.ts";
+export * from "./config.ts";
+export * from "./runner.ts";
+export * from "./version.ts";
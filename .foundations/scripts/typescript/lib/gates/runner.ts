@@ -0,0 +1,70 @@
+// Runs the declared gate checks and folds them into the validate-env result.
+//
+// A check runs only after the checks it depends on; if one of those failed it
+// is reported as failed with a SKIPPED detail instead of being run. Results
+// keep the config order whatever order the checks ran in.
+
+import { performance } from "node:perf_hooks";
+
+import type { CommandContext } from "../speckit/context.ts";
+import { CHECK_TYPES, CheckTimeoutError } from "./checks.ts";
+import type { GateCheck } from "./config.ts";
+
+export type Severity = "GATE" | "WARN";
+
+/** One entry of the `checks` array; field order is the JSON order. */
+export interface CheckResult {
+  name: string;
+  severity: Severity;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ValidationResult {
+  gate_passed: boolean;
+  checks: CheckResult[];
+}
+
+function runCheck(check: GateCheck, ctx: CommandContext, repoRoot: string): CheckResult {
+  const result = (passed: boolean, detail: string): CheckResult => ({ name: check.name, severity: check.severity, passed, detail });
+  try {
+    const deadline = performance.now() + check.timeout * 1000;
+    const outcome = CHECK_TYPES[check.type].run(check.options, { ctx, repoRoot, deadline });
+    if (outcome.passed) return result(true, outcome.detail);
+    const remediation = check.remediation ?? outcome.remediation;
+    return result(false, remediation === undefined ? outcome.detail : `${outcome.detail} — ${remediation}`);
+  } catch (error) {
+    if (!(error instanceof CheckTimeoutError)) throw error;
+    const detail = `TIMED OUT after ${check.timeout}s`;
+    return result(false, check.remediation === undefined ? detail : `${detail} — ${check.remediation}`);
+  }
+}
+
+/** Runs `checks`, dependencies first. The config must already be validated (no cycles). */
+export function runGates(checks: GateCheck[], ctx: CommandContext, repoRoot: string): ValidationResult {
+  const byName = new Map(checks.map((check) => [check.name, check]));
+  const results = new Map<string, CheckResult>();
+
+  const evaluate = (check: GateCheck): CheckResult => {
+    const known = results.get(check.name);
+    if (known) return known;
+    const failed = check.dependsOn.filter((name) => {
+      const dependency = byName.get(name);
+      return dependency !== undefined && !evaluate(dependency).passed;
+    });
+    const result: CheckResult =
+      failed.length > 0
+        ? { name: check.name, severity: check.severity, passed: false, detail: `SKIPPED — requires ${failed.join(", ")}` }
+        : runCheck(check, ctx, repoRoot);
+    results.set(check.name, result);
+    return result;
+  };
+
+  const ordered = checks.map(evaluate);
+  return { gate_passed: ordered.every((check) => check.passed || check.severity !== "GATE"), checks: ordered };
+}
+
+export function exitCodeFor(result: ValidationResult): number {
+  if (!result.gate_passed) return 1;
+  return result.checks.some((check) => !check.passed) ? 2 : 0;
+}
@@ -0,0 +1,130 @@
+// Terraform version constraints, as written in `required_version`.
+//
+// Supports the operators Terraform documents (=, !=, >, >=, <, <=, ~>) and
+// comma-separated lists, which must all hold. Missing version parts count as
+// zero, and a pre-release sorts before its release.
+
+export interface Version {
+  parts: [number, number, number];
+  prerelease: string;
+}
+
+type Operator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~>";
+
+interface Constraint {
+  operator: Operator;
+  version: Version;
+  /** Number of parts written, which sets the upper bound of `~>`. */
+  precision: number;
+}
+
+const VERSION = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?$/;
+const CONSTRAINT = /^(=|!=|>=|<=|>|<|~>)?\s*(\S+)$/;
+
+export function parseVersion(text: string): Version | undefined {
+  const match = VERSION.exec(text.trim());
+  if (!match) return undefined;
+  return {
+    parts: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)],
+    prerelease: match[4] ?? "",
+  };
+}
+
+export function compareVersions(a: Version, b: Version): number {
+  for (let i = 0; i < 3; i++) {
+    if (a.parts[i] !== b.parts[i]) return a.parts[i] - b.parts[i];
+  }
+  if (a.prerelease === b.prerelease) return 0;
+  if (a.prerelease === "") return 1;
+  if (b.prerelease === "") return -1;
+  return a.prerelease < b.prerelease ? -1 : 1;
+}
+
+function parseConstraints(text: string): Constraint[] | undefined {
+  const constraints: Constraint[] = [];
+  for (const part of text.split(",")) {
+    const match = CONSTRAINT.exec(part.trim());
+    const version = match ? parseVersion(match[2]) : undefined;
+    if (!match || !version) return undefined;
+    constraints.push({
+      operator: (match[1] ?? "=") as Operator,
+      version,
+      precision: match[2].replace(/^v/, "").split("-")[0].split(".").length,
+    });
+  }
+  return constraints;
+}
+
+/**
+ * Exclusive upper bound of `~>`: only the last written part may grow, so
+ * `~> 1.2.3` stops below 1.3.0 and `~> 1.2` below 2.0.0. `~> 1` has no bound.
+ */
+function pessimisticLimit(constraint: Constraint): Version | undefined {
+  const [major, minor] = constraint.version.parts;
+  if (constraint.precision >= 3) return { parts: [major, minor + 1, 0], prerelease: "" };
+  if (constraint.precision === 2) return { parts: [major + 1, 0, 0], prerelease: "" };
+  return undefined;
+}
+
+function holds(version: Version, constraint: Constraint): boolean {
+  const order = compareVersions(version, constraint.version);
+  switch (constraint.operator) {
+    case "=":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case "~>": {
+      const limit = pessimisticLimit(constraint);
+      return order >= 0 && (limit === undefined || compareVersions(version, limit) < 0);
+    }
+  }
+}
+
+/** Whether `version` meets every constraint in `constraint`; undefined when either cannot be parsed. */
+export function satisfies(version: string, constraint: string): boolean | undefined {
+  const parsed = parseVersion(version);
+  const constraints = parseConstraints(constraint);
+  if (!parsed || !constraints) return undefined;
+  return constraints.every((item) => holds(parsed, item));
+}
+
+/** HCL source with `#`, `//` and `/* *\/` comments removed; string contents are kept. */
+export function stripHclComments(source: string): string {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      out += char;
+      if (char === "\\") out += source[++i] ?? "";
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      out += char;
+    } else if (char === "#" || (char === "/" && source[i + 1] === "/")) {
+      while (i < source.length && source[i] !== "\n") i++;
+      out += "\n";
+    } else if (char === "/" && source[i + 1] === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const comment = source.slice(i, end === -1 ? source.length : end + 2);
+      out += comment.replace(/[^\n]/g, "");
+      i = end === -1 ? source.length : end + 1;
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+/** `required_version` of the `terraform` block, ignoring commented-out examples. */
+export function requiredVersion(hclSource: string): string | undefined {
+  return /\brequired_version\s*=\s*"([^"]*)"/.exec(stripHclComments(hclSource))?.[1];
+}
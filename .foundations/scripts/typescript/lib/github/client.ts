@@ -0,0 +1,220 @@
+// Minimal GitHub REST client for the issue commands.
+//
+// Talks to the API over fetch rather than through gh, so it can be pointed
+// at a local stand-in (see fake-server.ts) with the commands' --api-url. The
+// base URL and token follow the origin host the same way gh does:
+// api.github.com for github.com, api.<host> for *.ghe.com and
+// https://<host>/api/v3 for GitHub Enterprise Server.
+
+import { type CommandContext, run } from "../speckit/context.ts";
+import { DEFAULT_GITHUB_HOST, type Repository, isEnterpriseServer } from "../speckit/github.ts";
+
+export interface Label {
+  name: string;
+}
+
+export interface RepositoryInfo {
+  full_name: string;
+  html_url: string;
+  has_issues: boolean;
+  archived: boolean;
+}
+
+export interface Issue {
+  /** Database ID; the sub-issue endpoints take this, not the number. */
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: "open" | "closed";
+  state_reason?: string | null;
+  labels: Label[];
+  html_url: string;
+}
+
+/** Fields accepted by the create and update issue endpoints. */
+export interface IssueFields {
+  title?: string;
+  body?: string;
+  state?: "open" | "closed";
+  state_reason?: "completed" | "not_planned" | "reopened";
+  labels?: string[];
+}
+
+export interface User {
+  login: string;
+}
+
+export interface IssueComment {
+  id: number;
+  body: string;
+  html_url: string;
+  updated_at: string;
+  /** Null for deleted accounts. */
+  user: User | null;
+  /** Set when a GitHub App made the comment. */
+  performed_via_github_app?: { slug: string } | null;
+}
+
+export interface GitHubClientOptions {
+  baseUrl: string;
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+/** A non-2xx API response. */
+export class GitHubApiError extends Error {
+  readonly status: number;
+
+  constructor(method: string, path: string, status: number, message: string) {
+    super(`${method} ${path} failed with ${status}: ${message}`);
+    this.name = "GitHubApiError";
+    this.status = status;
+  }
+}
+
+function sameOrigin(a: string, b: string): boolean {
+  try {
+    return new URL(a).origin === new URL(b).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * REST base URL for `host`. An explicit `override` (--api-url) wins.
+ * GITHUB_API_URL, as GitHub Actions sets it, is used only when it has the
+ * origin of `host`'s own API, so a stray value cannot send the token to
+ * another server.
+ */
+export function apiBaseUrl(host: string, env: NodeJS.ProcessEnv, override?: string): string {
+  if (override) return override.replace(/\/$/, "");
+  const derived =
+    host === DEFAULT_GITHUB_HOST ? "https://api.github.com" : isEnterpriseServer(host) ? `https://${host}/api/v3` : `https://api.${host}`;
+  if (env.GITHUB_API_URL && sameOrigin(env.GITHUB_API_URL, derived)) return env.GITHUB_API_URL.replace(/\/$/, "");
+  return derived;
+}
+
+/**
+ * Token for `host`: the variable gh would use for that kind of host, then
+ * `gh auth token`. Undefined when none is available.
+ */
+export function resolveToken(ctx: CommandContext, host: string): string | undefined {
+  const { env } = ctx;
+  const fromEnv = isEnterpriseServer(host)
+    ? (env.GH_ENTERPRISE_TOKEN ?? env.GITHUB_ENTERPRISE_TOKEN)
+    : (env.GH_TOKEN ?? env.GITHUB_TOKEN);
+  if (fromEnv) return fromEnv;
+  const gh = run(ctx, "gh", ["auth", "token", "--hostname", host], { timeoutMs: 10_000 });
+  return gh.status === 0 && gh.stdout.trim() !== "" ? gh.stdout.trim() : undefined;
+}
+
+export class GitHubClient {
+  readonly baseUrl: string;
+  private readonly token?: string;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: GitHubClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.token = options.token;
+    this.fetch = options.fetch ?? globalThis.fetch;
+  }
+
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+      "User-Agent": "speckit",
+    };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    const response = await this.fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      let message = text;
+      try {
+        message = (JSON.parse(text) as { message?: string }).message ?? text;
+      } catch {
+        // not JSON; keep the raw text
+      }
+      throw new GitHubApiError(method, path, response.status, message);
+    }
+    return (text === "" ? undefined : JSON.parse(text)) as T;
+  }
+
+  /** Follows `page` until a short page comes back. */
+  async paginate<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    const separator = path.includes("?") ? "&" : "?";
+    for (let page = 1; ; page++) {
+      const batch = await this.request<T[]>("GET", `${path}${separator}per_page=100&page=${page}`);
+      items.push(...batch);
+      if (batch.length < 100) return items;
+    }
+  }
+
+  /** The token's user; GitHub App installation tokens get 403. */
+  getAuthenticatedUser(): Promise<User> {
+    return this.request("GET", "/user");
+  }
+
+  getRepository(repo: Repository): Promise<RepositoryInfo> {
+    return this.request("GET", repoPath(repo));
+  }
+
+  getIssue(repo: Repository, issue: number): Promise<Issue> {
+    return this.request("GET", `${repoPath(repo)}/issues/${issue}`);
+  }
+
+  createIssue(repo: Repository, fields: IssueFields & { title: string }): Promise<Issue> {
+    return this.request("POST", `${repoPath(repo)}/issues`, fields);
+  }
+
+  updateIssue(repo: Repository, issue: number, fields: IssueFields): Promise<Issue> {
+    return this.request("PATCH", `${repoPath(repo)}/issues/${issue}`, fields);
+  }
+
+  listSubIssues(repo: Repository, issue: number): Promise<Issue[]> {
+    return this.paginate(`${repoPath(repo)}/issues/${issue}/sub_issues`);
+  }
+
+  /** Makes `subIssueId` (an issue `id`) a sub-issue of `issue`, moving it from any other parent. */
+  addSubIssue(repo: Repository, issue: number, subIssueId: number): Promise<Issue> {
+    return this.request("POST", `${repoPath(repo)}/issues/${issue}/sub_issues`, { sub_issue_id: subIssueId, replace_parent: true });
+  }
+
+  listComments(repo: Repository, issue: number): Promise<IssueComment[]> {
+    return this.paginate(`${repoPath(repo)}/issues/${issue}/comments`);
+  }
+
+  createComment(repo: Repository, issue: number, body: string): Promise<IssueComment> {
+    return this.request("POST", `${repoPath(repo)}/issues/${issue}/comments`, { body });
+  }
+
+  updateComment(repo: Repository, id: number, body: string): Promise<IssueComment> {
+    return this.request("PATCH", `${repoPath(repo)}/issues/comments/${id}`, { body });
+  }
+
+  /** Adds labels to an issue; GitHub creates labels that do not exist yet. */
+  addLabels(repo: Repository, issue: number, labels: string[]): Promise<Label[]> {
+    return this.request("POST", `${repoPath(repo)}/issues/${issue}/labels`, { labels });
+  }
+
+  async removeLabel(repo: Repository, issue: number, label: string): Promise<void> {
+    try {
+      await this.request("DELETE", `${repoPath(repo)}/issues/${issue}/labels/${encodeURIComponent(label)}`);
+    } catch (error) {
+      // already gone
+      if (!(error instanceof GitHubApiError && error.status === 404)) throw error;
+    }
+  }
+}
+
+export function repoPath(repo: Repository): string {
+  return `/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+}
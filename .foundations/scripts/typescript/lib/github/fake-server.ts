@@ -0,0 +1,297 @@
+// In-memory stand-in for the GitHub REST endpoints the issue commands use.
+//
+// Pass its URL as --api-url to run post-issue-progress and tasks-to-issues
+// (or anything else built on GitHubClient) without network access. Issues,
+// sub-issue links, comments and labels live in a plain FakeGitHubData object
+// that callers can seed and inspect; every request is appended to `requests`
+// so a run can be replayed or asserted on. Only the fields the commands read
+// are modelled.
+
+import { type IncomingMessage, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface FakeIssue {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: "open" | "closed";
+  state_reason: string | null;
+  labels: string[];
+  /** Number of the parent issue, for sub-issues. */
+  parent?: number;
+}
+
+export interface FakeComment {
+  id: number;
+  issue: number;
+  /** Author's login. */
+  user: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeGitHubData {
+  /** By `owner/name`. */
+  repos: Record<string, { issues: FakeIssue[]; comments: FakeComment[] }>;
+  nextId: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+  status: number;
+}
+
+export interface FakeGitHub {
+  url: string;
+  data: FakeGitHubData;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export interface FakeGitHubOptions {
+  port?: number;
+  /** When set, requests without `Authorization: Bearer <token>` get 401. */
+  token?: string;
+  /** Login GET /user reports and new comments are written as (default: speckit). */
+  login?: string;
+  data?: FakeGitHubData;
+  /** Called after every request that changed `data`. */
+  onChange?: (data: FakeGitHubData) => void;
+  /** Called after every request. */
+  onRequest?: (request: RecordedRequest) => void;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function emptyFakeData(): FakeGitHubData {
+  return { repos: {}, nextId: 1 };
+}
+
+/** Adds an issue directly, e.g. to seed the issue a test posts progress to. */
+export function seedIssue(data: FakeGitHubData, repo: string, fields: Partial<FakeIssue> & { title: string }): FakeIssue {
+  const store = (data.repos[repo] ??= { issues: [], comments: [] });
+  const issue: FakeIssue = {
+    id: data.nextId++,
+    number: store.issues.reduce((max, item) => Math.max(max, item.number), 0) + 1,
+    body: null,
+    state: "open",
+    state_reason: null,
+    labels: [],
+    ...fields,
+  };
+  store.issues.push(issue);
+  return issue;
+}
+
+function readBody(request: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let text = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => (text += chunk));
+    request.on("end", () => {
+      try {
+        resolve(text === "" ? undefined : JSON.parse(text));
+      } catch {
+        reject(new HttpError(400, "Problems parsing JSON"));
+      }
+    });
+    request.on("error", reject);
+  });
+}
+
+function field<T>(body: unknown, key: string): T | undefined {
+  return typeof body === "object" && body !== null ? ((body as Record<string, unknown>)[key] as T | undefined) : undefined;
+}
+
+/** Starts the server on 127.0.0.1; port 0 (the default) picks a free port. */
+export function startFakeGitHub(options: FakeGitHubOptions = {}): Promise<FakeGitHub> {
+  const data = options.data ?? emptyFakeData();
+  const login = options.login ?? "speckit";
+  const requests: RecordedRequest[] = [];
+  let base = "";
+
+  const issueJson = (repo: string, issue: FakeIssue) => ({
+    id: issue.id,
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    state_reason: issue.state_reason,
+    labels: issue.labels.map((name) => ({ name })),
+    html_url: `${base}/${repo}/issues/${issue.number}`,
+  });
+  const commentJson = (repo: string, comment: FakeComment) => ({
+    id: comment.id,
+    body: comment.body,
+    user: { login: comment.user },
+    performed_via_github_app: null,
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+    html_url: `${base}/${repo}/issues/${comment.issue}#issuecomment-${comment.id}`,
+  });
+
+  const handle = (method: string, url: URL, body: unknown): { status: number; json?: unknown; changed: boolean } => {
+    if (url.pathname === "/user" && method === "GET") return { status: 200, json: { login }, changed: false };
+    const match = /^\/repos\/([^/]+)\/([^/]+)(\/.*)?$/.exec(url.pathname);
+    if (!match) throw new HttpError(404, "Not Found");
+    const repo = `${decodeURIComponent(match[1])}/${decodeURIComponent(match[2])}`;
+    const route = match[3] ?? "";
+    if (route === "" && method === "GET") {
+      // Only repositories that were seeded or written to exist
+      if (!Object.hasOwn(data.repos, repo)) throw new HttpError(404, "Not Found");
+      return {
+        status: 200,
+        json: { full_name: repo, html_url: `${base}/${repo}`, has_issues: true, archived: false },
+        changed: false,
+      };
+    }
+    const store = (data.repos[repo] ??= { issues: [], comments: [] });
+    const now = new Date().toISOString();
+    const findIssue = (number: string) => {
+      const issue = store.issues.find((item) => item.number === Number(number));
+      if (!issue) throw new HttpError(404, "Not Found");
+      return issue;
+    };
+    const page = <T>(items: T[]) => {
+      const perPage = Number(url.searchParams.get("per_page") ?? 30);
+      const start = (Number(url.searchParams.get("page") ?? 1) - 1) * perPage;
+      return items.slice(start, start + perPage);
+    };
+    let m: RegExpExecArray | null;
+
+    if (route === "/issues" && method === "GET") {
+      const state = url.searchParams.get("state") ?? "open";
+      const labels = url.searchParams.get("labels")?.split(",").filter(Boolean) ?? [];
+      const issues = store.issues.filter(
+        (issue) => (state === "all" || issue.state === state) && labels.every((label) => issue.labels.includes(label)),
+      );
+      return { status: 200, json: page(issues).map((issue) => issueJson(repo, issue)), changed: false };
+    }
+    if (route === "/issues" && method === "POST") {
+      const title = field<string>(body, "title");
+      if (!title) throw new HttpError(422, "Validation Failed: title is required");
+      const issue = seedIssue(data, repo, {
+        title,
+        body: field<string>(body, "body") ?? null,
+        labels: field<string[]>(body, "labels") ?? [],
+      });
+      return { status: 201, json: issueJson(repo, issue), changed: true };
+    }
+    if ((m = /^\/issues\/(\d+)$/.exec(route))) {
+      const issue = findIssue(m[1]);
+      if (method === "GET") return { status: 200, json: issueJson(repo, issue), changed: false };
+      if (method === "PATCH") {
+        for (const key of ["title", "body", "state", "state_reason", "labels"] as const) {
+          const value = field<never>(body, key);
+          if (value !== undefined) issue[key] = value;
+        }
+        return { status: 200, json: issueJson(repo, issue), changed: true };
+      }
+    }
+    if ((m = /^\/issues\/(\d+)\/sub_issues$/.exec(route))) {
+      const parent = findIssue(m[1]);
+      if (method === "GET") {
+        const children = store.issues.filter((issue) => issue.parent === parent.number);
+        return { status: 200, json: page(children).map((issue) => issueJson(repo, issue)), changed: false };
+      }
+      if (method === "POST") {
+        const child = store.issues.find((issue) => issue.id === field<number>(body, "sub_issue_id"));
+        if (!child) throw new HttpError(422, "Validation Failed: sub_issue_id does not exist");
+        if (child.parent !== undefined && child.parent !== parent.number && field<boolean>(body, "replace_parent") !== true) {
+          throw new HttpError(422, "Validation Failed: issue already has a parent");
+        }
+        child.parent = parent.number;
+        return { status: 201, json: issueJson(repo, parent), changed: true };
+      }
+    }
+    if ((m = /^\/issues\/(\d+)\/comments$/.exec(route))) {
+      const issue = findIssue(m[1]);
+      if (method === "GET") {
+        const comments = store.comments.filter((comment) => comment.issue === issue.number);
+        return { status: 200, json: page(comments).map((comment) => commentJson(repo, comment)), changed: false };
+      }
+      if (method === "POST") {
+        const comment: FakeComment = {
+          id: data.nextId++,
+          issue: issue.number,
+          user: login,
+          body: field<string>(body, "body") ?? "",
+          created_at: now,
+          updated_at: now,
+        };
+        store.comments.push(comment);
+        return { status: 201, json: commentJson(repo, comment), changed: true };
+      }
+    }
+    if ((m = /^\/issues\/comments\/(\d+)$/.exec(route)) && method === "PATCH") {
+      const comment = store.comments.find((item) => item.id === Number(m?.[1]));
+      if (!comment) throw new HttpError(404, "Not Found");
+      comment.body = field<string>(body, "body") ?? comment.body;
+      comment.updated_at = now;
+      return { status: 200, json: commentJson(repo, comment), changed: true };
+    }
+    if ((m = /^\/issues\/(\d+)\/labels$/.exec(route)) && method === "POST") {
+      const issue = findIssue(m[1]);
+      for (const name of field<string[]>(body, "labels") ?? []) if (!issue.labels.includes(name)) issue.labels.push(name);
+      return { status: 200, json: issue.labels.map((name) => ({ name })), changed: true };
+    }
+    if ((m = /^\/issues\/(\d+)\/labels\/(.+)$/.exec(route)) && method === "DELETE") {
+      const issue = findIssue(m[1]);
+      const name = decodeURIComponent(m[2]);
+      if (!issue.labels.includes(name)) throw new HttpError(404, "Label does not exist");
+      issue.labels = issue.labels.filter((label) => label !== name);
+      return { status: 200, json: issue.labels.map((label) => ({ name: label })), changed: true };
+    }
+    throw new HttpError(404, "Not Found");
+  };
+
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? "/", base);
+    const method = request.method ?? "GET";
+    const reply = (status: number, json: unknown, body?: unknown) => {
+      const recorded: RecordedRequest = { method, path: `${url.pathname}${url.search}`, status };
+      if (body !== undefined) recorded.body = body;
+      requests.push(recorded);
+      options.onRequest?.(recorded);
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(json === undefined ? "" : JSON.stringify(json));
+    };
+
+    readBody(request)
+      .then((body) => {
+        if (options.token !== undefined && request.headers.authorization !== `Bearer ${options.token}`) {
+          throw new HttpError(401, "Bad credentials");
+        }
+        const result = handle(method, url, body);
+        if (result.changed) options.onChange?.(data);
+        reply(result.status, result.json, body);
+      })
+      .catch((error: unknown) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        reply(status, { message: (error as Error).message });
+      });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve({
+        url: base,
+        data,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
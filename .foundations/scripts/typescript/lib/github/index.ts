@@ -0,0 +1,17 @@
+// GitHub issue integration: a fetch-based REST client, the updatable progress
+// comment behind `speckit post-issue-progress`, the tasks.md -> issues sync
+// behind `speckit tasks-to-issues`, and a local API stand-in.
+//
+// Usage:
+//   const server = await startFakeGitHub();
+//   seedIssue(server.data, "octo/repo", { title: "VPC module" });
+//   const client = new GitHubClient({ baseUrl: server.url });
+//   await updateProgress(client, { host: "github.com", owner: "octo", name: "repo" }, 1, {
+//     phase: "Environment Validation", status: "complete", now: new Date(),
+//   });
+
+export * from "./client.ts";
+export * from "./fake-server.ts";
+export * from "./issue-manifest.ts";
+export * from "./issue-sync.ts";
+export * from "./progress.ts";
@@ -0,0 +1,123 @@
+// The tasks-to-issues manifest, specs/NNN-*/github-issues.json.
+//
+// Maps every synced item (user story or phase parent, T### task) to the issue
+// created for it, with the title, body and state last written and whether
+// it has been linked to its parent yet. Re-runs diff
+// tasks.md against this record instead of searching the repository, so they
+// are deterministic and only touch issues whose content changed. Like the
+// workflow state file it is committed with the feature and validated strictly.
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { type Diagnostic, formatDiagnostic } from "../artifacts/errors.ts";
+
+export const MANIFEST_FILE = "github-issues.json";
+
+export interface ManifestEntry {
+  number: number;
+  /** Issue database ID, needed to link sub-issues. */
+  id: number;
+  title: string;
+  body: string;
+  state: "open" | "closed";
+  /** Key of the parent item, for tasks. */
+  parent?: string;
+  /** False until the issue is linked as a sub-issue of `parent`'s; a re-run retries the link. */
+  linked?: boolean;
+  /** Set once the item disappeared from tasks.md and its issue was closed. */
+  removed?: boolean;
+}
+
+export interface IssueManifest {
+  /** `host/owner/name` the issues were created in. */
+  repository: string;
+  /** Keyed by `US1`, `phase-setup`, `T001`, ... */
+  issues: Record<string, ManifestEntry>;
+}
+
+/** Thrown when a manifest cannot be read back; lists every problem found. */
+export class IssueManifestError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join("\n"));
+    this.name = "IssueManifestError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+export function manifestPath(featureDir: string): string {
+  return join(featureDir, MANIFEST_FILE);
+}
+
+const MANIFEST_KEYS = ["repository", "issues"];
+const ENTRY_KEYS = ["number", "id", "title", "body", "state", "parent", "linked", "removed"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unknownKeys(value: Record<string, unknown>, allowed: string[], label: string): string[] {
+  return Object.keys(value)
+    .filter((key) => !allowed.includes(key))
+    .map((key) => `${label}: unknown field "${key}"`);
+}
+
+function checkEntry(key: string, entry: unknown): string[] {
+  const label = `issues.${key}`;
+  if (!isObject(entry)) return [`${label} must be an object`];
+  const errors = unknownKeys(entry, ENTRY_KEYS, label);
+  for (const field of ["number", "id"]) {
+    if (!Number.isInteger(entry[field]) || (entry[field] as number) <= 0) errors.push(`${label}.${field} must be a positive integer`);
+  }
+  for (const field of ["title", "body"]) {
+    if (typeof entry[field] !== "string") errors.push(`${label}.${field} must be a string`);
+  }
+  if (entry.state !== "open" && entry.state !== "closed") errors.push(`${label}.state must be open or closed`);
+  if (entry.parent !== undefined && typeof entry.parent !== "string") errors.push(`${label}.parent must be a string`);
+  for (const field of ["linked", "removed"]) {
+    if (entry[field] !== undefined && typeof entry[field] !== "boolean") errors.push(`${label}.${field} must be a boolean`);
+  }
+  return errors;
+}
+
+/** Validates decoded manifest content. Returns the problems found; empty means valid. */
+export function validateManifest(value: unknown): string[] {
+  if (!isObject(value)) return ["manifest must be a JSON object"];
+  const errors = unknownKeys(value, MANIFEST_KEYS, "manifest");
+  if (typeof value.repository !== "string" || value.repository.split("/").length !== 3) {
+    errors.push('"repository" must be "host/owner/name"');
+  }
+  if (!isObject(value.issues)) {
+    errors.push('"issues" must be an object');
+  } else {
+    for (const [key, entry] of Object.entries(value.issues)) errors.push(...checkEntry(key, entry));
+    const numbers = new Map<number, string>();
+    for (const [key, entry] of Object.entries(value.issues)) {
+      if (!isObject(entry) || typeof entry.number !== "number") continue;
+      const previous = numbers.get(entry.number);
+      if (previous !== undefined) errors.push(`issues.${key}: issue #${entry.number} is already mapped to ${previous}`);
+      numbers.set(entry.number, key);
+    }
+  }
+  return errors;
+}
+
+/** Reads the manifest at `file`; undefined when the feature has never been synced. */
+export function loadManifest(file: string): IssueManifest | undefined {
+  if (!existsSync(file)) return undefined;
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new IssueManifestError([{ file, line: 1, message: `invalid JSON: ${(error as Error).message}` }]);
+  }
+  const errors = validateManifest(value);
+  if (errors.length > 0) throw new IssueManifestError(errors.map((message) => ({ file, line: 1, message })));
+  return value as IssueManifest;
+}
+
+export function saveManifest(file: string, manifest: IssueManifest): void {
+  writeFileSync(file, `${JSON.stringify(manifest, null, 2)}\n`);
+}
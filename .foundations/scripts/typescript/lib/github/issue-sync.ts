@@ -0,0 +1,348 @@
+// Deterministic tasks.md -> GitHub issues sync behind `speckit tasks-to-issues`.
+//
+// Every user story phase becomes a parent issue, and so does every other
+// phase (Setup, Core Resources, Polish) so its tasks and checkpoint are not
+// lost. Every T### task becomes a sub-issue of its phase's parent. Parents
+// are keyed by story ID, or by a slug of the phase title, so renumbering the
+// phases keeps their issues. The template's sequential order is kept as text
+// only: each body has a "Depends on" line naming the task(s) before it (the
+// parent before it, for parents) by issue number. No GitHub issue
+// dependencies are created.
+// The manifest (issue-manifest.ts) records what was written, so a re-run only
+// creates new items, updates changed ones and closes removed ones. A new
+// issue is recorded as soon as it exists; closing and linking it are
+// follow-up steps recorded separately, so a run that stops between them
+// retries the step instead of creating the issue again.
+
+import type { TasksDocument, Phase, Task } from "../artifacts/tasks.ts";
+import { type Repository, parseRemoteUrl } from "../speckit/github.ts";
+import { type GitHubClient, GitHubApiError } from "./client.ts";
+import type { IssueManifest, ManifestEntry } from "./issue-manifest.ts";
+
+/** GitHub rejects longer titles. */
+const MAX_TITLE = 256;
+
+export interface SyncItem {
+  /** `US1` for story phases, `phase-<title slug>` for the others, the task ID for tasks. */
+  key: string;
+  title: string;
+  /** Closed once the task (or every task of the phase) is checked off. */
+  state: "open" | "closed";
+  /** Key of the parent item, for tasks. */
+  parent?: string;
+  /** Keys of the items this one waits for. */
+  dependsOn: string[];
+  /** Renders the body; `ref` turns an item key into `#12`, or a placeholder before that issue exists. */
+  body(ref: (key: string) => string): string;
+}
+
+export interface SyncAction {
+  action: "create" | "update" | "close" | "unchanged";
+  key: string;
+  /** Undefined for an issue a dry run would create. */
+  number?: number;
+  /** Fields that differ from the manifest: `title`, `body`, `state`, `parent` (also when the link is pending). */
+  changes: string[];
+  before?: ManifestEntry;
+  after: Pick<ManifestEntry, "title" | "body" | "state" | "parent">;
+}
+
+export interface SyncTarget {
+  client: GitHubClient;
+  repo: Repository;
+  /** Called after every write, so an interrupted run resumes where it stopped. */
+  save(manifest: IssueManifest): void;
+}
+
+/** `phase-core-resources` for "Core Resources", with `-2`, `-3`, ... for a repeated title. */
+function parentKey(phase: Phase, used: Set<string>): string {
+  const slug = phase.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const base = phase.story !== null && !used.has(phase.story.id) ? phase.story.id : `phase-${slug || phase.id}`;
+  let key = base;
+  for (let n = 2; used.has(key); n++) key = `${base}-${n}`;
+  used.add(key);
+  return key;
+}
+
+function truncate(title: string): string {
+  return title.length <= MAX_TITLE ? title : `${title.slice(0, MAX_TITLE - 1)}…`;
+}
+
+function footer(source: string, key: string): string[] {
+  return [
+    "",
+    "---",
+    `<sub>Synced from \`${source}\` by speckit tasks-to-issues. Edit tasks.md and re-run rather than editing this issue.</sub>`,
+    `<!-- speckit:issue ${key} -->`,
+  ];
+}
+
+function dependencyLine(dependsOn: string[], ref: (key: string) => string): string[] {
+  return dependsOn.length === 0 ? [] : [`**Depends on**: ${dependsOn.map(ref).join(", ")}`];
+}
+
+/**
+ * Dependencies in execution order: a task waits for the sequential task
+ * before it, a `[P]` task only for the last sequential task, and the task
+ * after a run of `[P]` tasks for the whole run.
+ */
+function taskDependencies(tasks: Task[]): Map<string, string[]> {
+  const dependencies = new Map<string, string[]>();
+  let barrier: string[] = [];
+  let parallelRun: string[] = [];
+  for (const task of tasks) {
+    if (task.parallel) {
+      dependencies.set(task.id, barrier);
+      parallelRun.push(task.id);
+    } else {
+      dependencies.set(task.id, parallelRun.length > 0 ? parallelRun : barrier);
+      barrier = [task.id];
+      parallelRun = [];
+    }
+  }
+  return dependencies;
+}
+
+/** The issues tasks.md calls for, parents before their tasks, in document order. `source` is shown in each body. */
+export function syncItems(document: TasksDocument, source: string): SyncItem[] {
+  const phases = document.phases
+    .map((phase) => ({ phase, tasks: phase.tasks.filter((task) => task.number !== null) }))
+    .filter((entry) => entry.tasks.length > 0);
+  const dependencies = taskDependencies(phases.flatMap((entry) => entry.tasks));
+  const used = new Set<string>();
+  const items: SyncItem[] = [];
+  let previousParent: string | undefined;
+
+  for (const { phase, tasks } of phases) {
+    const key = parentKey(phase, used);
+    const dependsOn = previousParent === undefined ? [] : [previousParent];
+    items.push({
+      key,
+      title: truncate(`Phase ${phase.id}: ${phase.title}`),
+      state: tasks.every((task) => task.completed) ? "closed" : "open",
+      dependsOn,
+      body: (ref) => {
+        const lines: string[] = [];
+        for (const [label, field] of [
+          ["Purpose", phase.purpose],
+          ["Goal", phase.goal],
+          ["Independent Test", phase.independentTest],
+        ] as const) {
+          if (field !== undefined) lines.push(`**${label}**: ${field.value}`);
+        }
+        lines.push(...dependencyLine(dependsOn, ref));
+        lines.push("", `Tasks ${tasks[0].id}–${tasks[tasks.length - 1].id} are sub-issues of this issue, in order.`);
+        for (const checkpoint of phase.checkpoints) lines.push("", `**Checkpoint**: ${checkpoint.text}`);
+        return [...lines, ...footer(source, key)].join("\n").replace(/^\n+/, "");
+      },
+    });
+    previousParent = key;
+
+    for (const task of tasks) {
+      const taskDependsOn = dependencies.get(task.id) ?? [];
+      items.push({
+        key: task.id,
+        title: truncate(`${task.id}: ${task.description}`),
+        state: task.completed ? "closed" : "open",
+        parent: key,
+        dependsOn: taskDependsOn,
+        body: (ref) => {
+          const lines = [task.description, "", `**Phase**: ${ref(key)} Phase ${phase.id}: ${phase.title}`];
+          if (task.story !== null) lines.push(`**Story**: ${task.story}`);
+          if (task.group !== undefined) lines.push(`**Section**: ${task.group}`);
+          if (task.paths.length > 0) lines.push(`**Files**: ${task.paths.map((path) => `\`${path}\``).join(", ")}`);
+          if (task.parallel) lines.push("**Parallel**: yes, may run alongside the other [P] tasks around it");
+          lines.push(...dependencyLine(taskDependsOn, ref));
+          return [...lines, ...footer(source, task.id)].join("\n");
+        },
+      });
+    }
+  }
+  return items;
+}
+
+function changedFields(before: ManifestEntry, after: SyncAction["after"]): string[] {
+  const changes: string[] = [];
+  if (before.title !== after.title) changes.push("title");
+  if (before.body !== after.body) changes.push("body");
+  if (before.state !== after.state || before.removed === true) changes.push("state");
+  if (before.parent !== after.parent || before.linked === false) changes.push("parent");
+  return changes;
+}
+
+/** Links the issue of `key` under its parent's, if the parent exists, and records that. */
+async function linkToParent(target: SyncTarget, manifest: IssueManifest, key: string): Promise<void> {
+  const entry = manifest.issues[key];
+  const parent = entry.parent === undefined ? undefined : manifest.issues[entry.parent];
+  if (parent === undefined) return;
+  await target.client.addSubIssue(target.repo, parent.number, entry.id);
+  entry.linked = true;
+  target.save(manifest);
+}
+
+/**
+ * Brings the issues in line with `items`. Without a target nothing is
+ * written and the returned actions are the dry-run plan; issues that do not
+ * exist yet are then referenced by key.
+ */
+export async function syncIssues(items: SyncItem[], manifest: IssueManifest, target?: SyncTarget): Promise<SyncAction[]> {
+  const numbers = new Map(Object.entries(manifest.issues).map(([key, entry]) => [key, entry.number]));
+  const ref = (key: string) => {
+    const number = numbers.get(key);
+    return number === undefined ? `${key} (not created yet)` : `#${number}`;
+  };
+  const actions: SyncAction[] = [];
+
+  for (const item of items) {
+    const after: SyncAction["after"] = { title: item.title, body: item.body(ref), state: item.state };
+    if (item.parent !== undefined) after.parent = item.parent;
+    const before = manifest.issues[item.key];
+
+    if (before === undefined) {
+      actions.push({ action: "create", key: item.key, changes: [], after });
+      if (target === undefined) continue;
+      const { client, repo } = target;
+      const issue = await client.createIssue(repo, { title: after.title, body: after.body });
+      const entry: ManifestEntry = {
+        number: issue.number,
+        id: issue.id,
+        title: after.title,
+        body: after.body,
+        state: "open",
+        ...(after.parent === undefined ? {} : { parent: after.parent, linked: false }),
+      };
+      manifest.issues[item.key] = entry;
+      numbers.set(item.key, issue.number);
+      actions[actions.length - 1].number = issue.number;
+      target.save(manifest);
+
+      if (after.state === "closed") {
+        await client.updateIssue(repo, issue.number, { state: "closed", state_reason: "completed" });
+        entry.state = "closed";
+        target.save(manifest);
+      }
+      if (entry.parent !== undefined) await linkToParent(target, manifest, item.key);
+      continue;
+    }
+
+    const changes = changedFields(before, after);
+    actions.push({ action: changes.length === 0 ? "unchanged" : "update", key: item.key, number: before.number, changes, before, after });
+    if (changes.length === 0 || target === undefined) continue;
+    const { client, repo } = target;
+    await client.updateIssue(repo, before.number, {
+      title: after.title,
+      body: after.body,
+      state: after.state,
+      ...(changes.includes("state") ? { state_reason: after.state === "closed" ? "completed" : "reopened" } : {}),
+    });
+    const entry: ManifestEntry = { number: before.number, id: before.id, ...after };
+    if (after.parent !== undefined) entry.linked = changes.includes("parent") ? false : before.linked;
+    manifest.issues[item.key] = entry;
+    target.save(manifest);
+    if (entry.linked === false) await linkToParent(target, manifest, item.key);
+  }
+
+  const keys = new Set(items.map((item) => item.key));
+  for (const [key, before] of Object.entries(manifest.issues)) {
+    if (keys.has(key) || before.removed === true) continue;
+    const after = { title: before.title, body: before.body, state: "closed" as const, parent: before.parent };
+    actions.push({ action: "close", key, number: before.number, changes: ["state"], before, after });
+    if (target === undefined) continue;
+    await target.client.updateIssue(target.repo, before.number, { state: "closed", state_reason: "not_planned" });
+    manifest.issues[key] = { ...before, state: "closed", removed: true };
+    target.save(manifest);
+  }
+  return actions;
+}
+
+/** Line diff of two bodies: removed lines as `- `, added lines as `+ `, unchanged lines left out. */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push(`+ ${b[j++]}`);
+    } else {
+      lines.push(`- ${a[i++]}`);
+    }
+  }
+  return lines;
+}
+
+/** `host/owner/name`, the form the manifest records. */
+export function repositoryKey(repo: Repository): string {
+  return `${repo.host}/${repo.owner}/${repo.name}`;
+}
+
+function sameRepository(a: Repository, b: Repository): boolean {
+  return repositoryKey(a).toLowerCase() === repositoryKey(b).toLowerCase();
+}
+
+export interface RemoteCheckInput {
+  /** `git remote get-url origin`, undefined when there is no origin. */
+  fetchUrl?: string;
+  /** `git remote get-url --push origin`. */
+  pushUrl?: string;
+  /** GITHUB_REPOSITORY, if set. */
+  envRepository?: string;
+  manifest?: IssueManifest;
+}
+
+/**
+ * The repository to sync into, or why not. Stricter than "the remote is a
+ * GitHub URL": the origin must name exactly one repository for both fetch
+ * and push, and GITHUB_REPOSITORY and an existing manifest may confirm that
+ * repository but never redirect the sync elsewhere.
+ */
+export function checkSyncTarget(input: RemoteCheckInput): { repo?: Repository; problems: string[] } {
+  if (input.fetchUrl === undefined) return { problems: ["no origin remote; issues are only created in the repository origin points at"] };
+  const repo = parseRemoteUrl(input.fetchUrl);
+  if (repo === undefined) return { problems: [`origin (${input.fetchUrl}) is not a GitHub repository URL`] };
+
+  const problems: string[] = [];
+  const push = input.pushUrl === undefined ? repo : parseRemoteUrl(input.pushUrl);
+  if (push === undefined || !sameRepository(push, repo)) {
+    problems.push(`origin pushes to ${input.pushUrl} but fetches from ${input.fetchUrl}; refusing to guess which repository the issues belong to`);
+  }
+  if (input.envRepository && input.envRepository.toLowerCase() !== `${repo.owner}/${repo.name}`.toLowerCase()) {
+    problems.push(`GITHUB_REPOSITORY is ${input.envRepository} but origin is ${repo.owner}/${repo.name}`);
+  }
+  if (input.manifest !== undefined && input.manifest.repository.toLowerCase() !== repositoryKey(repo).toLowerCase()) {
+    problems.push(`the manifest was synced to ${input.manifest.repository} but origin is ${repositoryKey(repo)}; move or delete the manifest to sync elsewhere`);
+  }
+  return { repo, problems };
+}
+
+/** Problems with the repository as the API reports it: renamed or transferred (redirected), issues disabled, archived. */
+export async function checkRemoteRepository(client: GitHubClient, repo: Repository): Promise<string[]> {
+  let info;
+  try {
+    info = await client.getRepository(repo);
+  } catch (error) {
+    if (error instanceof GitHubApiError && error.status === 404) return [`${repo.owner}/${repo.name} does not exist on ${repo.host} or the token cannot see it`];
+    throw error;
+  }
+  const problems: string[] = [];
+  if (info.full_name.toLowerCase() !== `${repo.owner}/${repo.name}`.toLowerCase()) {
+    problems.push(`${repo.owner}/${repo.name} resolves to ${info.full_name} (renamed or transferred); update origin first`);
+  }
+  if (!info.has_issues) problems.push(`${info.full_name} has issues disabled`);
+  if (info.archived) problems.push(`${info.full_name} is archived`);
+  return problems;
+}
@@ -0,0 +1,245 @@
+// The single, updatable progress comment on a feature's GitHub issue.
+//
+// Every update rewrites one comment, found by PROGRESS_MARKER, instead of
+// adding a new one. The phase history is kept in the comment itself as JSON
+// inside an HTML comment, so any tool can read the current state back from
+// the issue. The rendered part is a phase table with durations, per-phase
+// details and, when tasks.md is given, its checkboxes as a task list.
+// The header shows ❌ only while a failure is unresolved: restarting the
+// failed phase, or starting any phase after it failed, clears it, while the
+// table keeps the failed row.
+
+import type { TasksDocument } from "../artifacts/tasks.ts";
+import type { Repository } from "../speckit/github.ts";
+import { type GitHubClient, GitHubApiError, type IssueComment } from "./client.ts";
+
+export const PROGRESS_MARKER = "<!-- speckit:progress -->";
+const DATA_PATTERN = /<!-- speckit:progress-data (.*?) -->/s;
+
+/** Labels this tracker owns all start with this prefix; others are never touched. */
+export const LABEL_PREFIX = "speckit:";
+export const FAILED_LABEL = `${LABEL_PREFIX}failed`;
+
+export type PhaseStatus = "started" | "complete" | "failed";
+
+export interface PhaseProgress {
+  name: string;
+  status: PhaseStatus;
+  started_at: string;
+  finished_at?: string;
+  summary?: string;
+  details?: string;
+}
+
+export interface ProgressData {
+  /** In the order the phases first started. */
+  phases: PhaseProgress[];
+  /** Name of the phase most recently updated. */
+  current?: string;
+}
+
+const STATUS_FORMAT: Record<PhaseStatus, { icon: string; label: string }> = {
+  started: { icon: "🔄", label: "In Progress" },
+  complete: { icon: "✅", label: "Complete" },
+  failed: { icon: "❌", label: "Failed" },
+};
+
+export function isPhaseStatus(value: string): value is PhaseStatus {
+  return Object.hasOwn(STATUS_FORMAT, value);
+}
+
+/** Reads the phase history back out of a progress comment body. */
+export function parseProgressData(body: string): ProgressData | undefined {
+  const match = DATA_PATTERN.exec(body);
+  if (!match) return undefined;
+  try {
+    const data = JSON.parse(match[1]) as ProgressData;
+    return Array.isArray(data.phases) ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Records a phase transition. `started` (re)opens the phase with a fresh
+ * start time; `complete` and `failed` close it, opening it first if no start
+ * was ever reported.
+ */
+export function applyProgress(
+  data: ProgressData,
+  phase: string,
+  status: PhaseStatus,
+  now: Date,
+  summary?: string,
+  details?: string,
+): ProgressData {
+  const at = now.toISOString();
+  const previous = data.phases.find((entry) => entry.name === phase);
+  const entry: PhaseProgress = {
+    name: phase,
+    status,
+    started_at: status === "started" || previous === undefined ? at : previous.started_at,
+  };
+  if (status !== "started") entry.finished_at = at;
+  if (summary) entry.summary = summary;
+  if (details) entry.details = details;
+  const phases = previous === undefined ? [...data.phases, entry] : data.phases.map((item) => (item === previous ? entry : item));
+  return { phases, current: phase };
+}
+
+/** `45s`, `3m 05s`, `1h 02m`. */
+export function formatDuration(milliseconds: number): string {
+  const seconds = Math.max(0, Math.round(milliseconds / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function html(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function timestamp(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function duration(entry: PhaseProgress, now: Date): string {
+  const end = entry.finished_at === undefined ? now.getTime() : Date.parse(entry.finished_at);
+  const text = formatDuration(end - Date.parse(entry.started_at));
+  return entry.finished_at === undefined ? `${text} (running)` : text;
+}
+
+function renderTasks(tasks: TasksDocument): string[] {
+  const done = tasks.tasks.filter((task) => task.completed).length;
+  const lines = [`### Tasks (${done}/${tasks.tasks.length})`, "", "<details><summary>Task list</summary>", ""];
+  for (const phase of tasks.phases) {
+    if (phase.tasks.length === 0) continue;
+    lines.push(`**Phase ${phase.id}: ${phase.title}**`, "");
+    for (const task of phase.tasks) {
+      const tags = [task.story === null ? "" : `[${task.story}] `, task.parallel ? "[P] " : ""].join("");
+      lines.push(`- [${task.completed ? "x" : " "}] ${task.id} ${tags}${task.description}`);
+    }
+    lines.push("");
+  }
+  lines.push("</details>");
+  return lines;
+}
+
+/** Failed while a failed phase has not been superseded by a phase started after it; else in progress while any phase is. */
+function overallStatus(data: ProgressData): PhaseStatus {
+  const superseded = (failed: PhaseProgress) =>
+    data.phases.some((other) => other !== failed && Date.parse(other.started_at) >= Date.parse(failed.finished_at ?? failed.started_at));
+  if (data.phases.some((entry) => entry.status === "failed" && !superseded(entry))) return "failed";
+  return data.phases.some((entry) => entry.status === "started") ? "started" : "complete";
+}
+
+/** The full comment body for `data`; JSON is escaped so it cannot close the HTML comment early. */
+export function renderProgressComment(data: ProgressData, now: Date, tasks?: TasksDocument): string {
+  const overall = overallStatus(data);
+  const current = data.phases.find((entry) => entry.name === data.current);
+
+  const lines = [PROGRESS_MARKER, `## ${STATUS_FORMAT[overall].icon} Workflow Progress`, ""];
+  if (current !== undefined) {
+    lines.push(`**Current phase**: ${current.name} — ${STATUS_FORMAT[current.status].label}`, "");
+  }
+  lines.push("| Phase | Status | Started | Duration | Result |", "|-------|--------|---------|----------|--------|");
+  for (const entry of data.phases) {
+    const format = STATUS_FORMAT[entry.status];
+    lines.push(
+      `| ${cell(entry.name)} | ${format.icon} ${format.label} | ${timestamp(entry.started_at)} | ${duration(entry, now)} | ${cell(entry.summary ?? "")} |`,
+    );
+  }
+  for (const entry of data.phases.filter((item) => item.details)) {
+    lines.push("", `<details><summary>${html(entry.name)}</summary>`, "", entry.details ?? "", "", "</details>");
+  }
+  if (tasks !== undefined && tasks.tasks.length > 0) lines.push("", ...renderTasks(tasks));
+
+  const json = JSON.stringify(data).replaceAll("-->", "--\\u003e");
+  lines.push("", `<sub>Updated ${timestamp(now.toISOString())} by speckit post-issue-progress</sub>`, `<!-- speckit:progress-data ${json} -->`);
+  return lines.join("\n");
+}
+
+/** `speckit:environment-validation` for "Environment Validation"; at most 50 characters, GitHub's limit. */
+export function phaseLabel(phase: string): string {
+  const slug = phase
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${LABEL_PREFIX}${slug}`.slice(0, 50).replace(/-$/, "");
+}
+
+/** Labels the issue should carry for `data`: the current phase, plus FAILED_LABEL while it is failed. */
+export function desiredLabels(data: ProgressData): string[] {
+  const current = data.phases.find((entry) => entry.name === data.current);
+  if (current === undefined) return [];
+  return current.status === "failed" ? [phaseLabel(current.name), FAILED_LABEL] : [phaseLabel(current.name)];
+}
+
+export interface ProgressUpdate {
+  phase: string;
+  status: PhaseStatus;
+  summary?: string;
+  details?: string;
+  tasks?: TasksDocument;
+  /** Set the `speckit:` labels (default true). */
+  labels?: boolean;
+  now: Date;
+}
+
+export interface ProgressResult {
+  comment: IssueComment;
+  created: boolean;
+  data: ProgressData;
+  labelsAdded: string[];
+  labelsRemoved: string[];
+}
+
+/**
+ * The newest comment carrying PROGRESS_MARKER written by `login`, if any.
+ * Undefined `login` stands for a GitHub App token, whose comments carry
+ * `performed_via_github_app`. Anyone can paste the marker into a comment;
+ * rewriting theirs would fail or, with a maintainer token, clobber it.
+ */
+export function findProgressComment(comments: IssueComment[], login: string | undefined): IssueComment | undefined {
+  return comments.findLast(
+    (comment) =>
+      comment.body.includes(PROGRESS_MARKER) &&
+      (login === undefined ? Boolean(comment.performed_via_github_app) : comment.user?.login === login),
+  );
+}
+
+/** Login of the token's user; undefined for a GitHub App installation token, which cannot read GET /user. */
+async function tokenLogin(client: GitHubClient): Promise<string | undefined> {
+  try {
+    return (await client.getAuthenticatedUser()).login;
+  } catch (error) {
+    if (error instanceof GitHubApiError && error.status === 403) return undefined;
+    throw error;
+  }
+}
+
+/** Creates or rewrites the issue's progress comment and brings its `speckit:` labels in line. */
+export async function updateProgress(client: GitHubClient, repo: Repository, issue: number, update: ProgressUpdate): Promise<ProgressResult> {
+  const existing = findProgressComment(await client.listComments(repo, issue), await tokenLogin(client));
+  const previous = (existing && parseProgressData(existing.body)) ?? { phases: [] };
+  const data = applyProgress(previous, update.phase, update.status, update.now, update.summary, update.details);
+  const body = renderProgressComment(data, update.now, update.tasks);
+  const comment = existing ? await client.updateComment(repo, existing.id, body) : await client.createComment(repo, issue, body);
+
+  let labelsAdded: string[] = [];
+  let labelsRemoved: string[] = [];
+  if (update.labels !== false) {
+    const current = (await client.getIssue(repo, issue)).labels.map((label) => label.name).filter((name) => name.startsWith(LABEL_PREFIX));
+    const desired = desiredLabels(data);
+    labelsAdded = desired.filter((name) => !current.includes(name));
+    labelsRemoved = current.filter((name) => !desired.includes(name));
+    if (labelsAdded.length > 0) await client.addLabels(repo, issue, labelsAdded);
+    for (const name of labelsRemoved) await client.removeLabel(repo, issue, name);
+  }
+  return { comment, created: existing === undefined, data, labelsAdded, labelsRemoved };
+}
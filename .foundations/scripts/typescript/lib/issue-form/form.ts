@@ -0,0 +1,271 @@
+// GitHub issue forms: the YAML definition and the Markdown body GitHub
+// renders a submitted form into.
+//
+// A submitted form arrives as `### <label>` sections, one per field, with
+// `_No response_` for empty fields, comma-separated dropdown selections and
+// `- [X]` checkbox lines. parseIssueBody() maps those sections back to field
+// IDs; validateResponse() checks them against the definition the way GitHub
+// would (required fields, dropdown and checkbox options). renderIssueBody()
+// writes the same Markdown, so converted input can be filed as an issue.
+
+import { DiagnosticCollector } from "../artifacts/errors.ts";
+import { toLines } from "../artifacts/markdown.ts";
+import { type YamlValue, parseYaml } from "./yaml.ts";
+
+export type FormFieldType = "input" | "textarea" | "dropdown" | "checkboxes";
+
+const FIELD_TYPES: readonly string[] = ["input", "textarea", "dropdown", "checkboxes"];
+
+export interface FormField {
+  id: string;
+  type: FormFieldType;
+  label: string;
+  description?: string;
+  /** Dropdown options, or checkbox labels. */
+  options: string[];
+  /** Checkbox labels that must be ticked. */
+  requiredOptions: string[];
+  /** Dropdowns only: more than one option may be selected. */
+  multiple: boolean;
+  required: boolean;
+  line: number;
+}
+
+export interface IssueForm {
+  file: string;
+  name: string;
+  description: string;
+  /** Default issue title. */
+  title?: string;
+  labels: string[];
+  /** Input fields in form order; markdown blocks are left out. */
+  fields: FormField[];
+}
+
+/** Text for inputs and textareas; the selected options for dropdowns and checkboxes. */
+export type FieldValue = string | string[];
+
+/** Field values by ID. Fields without a response are absent. */
+export type FormResponse = Record<string, FieldValue>;
+
+export interface ParsedIssueBody {
+  response: FormResponse;
+  /** Text GitHub does not render from the form: content before the first field, a heading after a non-textarea field. */
+  errors: string[];
+  /** `###` headings that are not (or repeat) a field label, kept as part of the textarea above them. */
+  warnings: string[];
+}
+
+export interface ResponseCheck {
+  /** Required fields (or required checkboxes) without a response. */
+  missing: FormField[];
+  /** Values the form would not have accepted. */
+  errors: string[];
+}
+
+export const NO_RESPONSE = "_No response_";
+
+type YamlMap = { [key: string]: YamlValue };
+
+function isMap(value: YamlValue | undefined): value is YamlMap {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Parses and checks an issue form definition; throws ArtifactParseError with every problem found. */
+export function parseIssueForm(source: string, file = "issue-form.yml"): IssueForm {
+  const document = parseYaml(source, file);
+  const diagnostics = new DiagnosticCollector(file);
+  const root = document.value;
+  const lineOf = (node: YamlValue | undefined, fallback: number) => (typeof node === "object" && node !== null ? (document.lineOf(node) ?? fallback) : fallback);
+
+  if (!isMap(root)) {
+    diagnostics.error(1, "an issue form must be a mapping with name, description and body");
+    diagnostics.throwIfAny();
+  }
+  const form = root as YamlMap;
+  for (const key of ["name", "description"]) {
+    if (typeof form[key] !== "string" || form[key] === "") diagnostics.error(1, `"${key}" must be a non-empty string`);
+  }
+  const labels = form.labels ?? [];
+  if (!Array.isArray(labels) || !labels.every((label) => typeof label === "string")) diagnostics.error(lineOf(form.labels, 1), '"labels" must be a list of strings');
+
+  const fields: FormField[] = [];
+  const ids = new Map<string, number>();
+  const body = form.body;
+  if (!Array.isArray(body) || body.length === 0) diagnostics.error(lineOf(body, 1), '"body" must be a non-empty list of form elements');
+  for (const element of Array.isArray(body) ? body : []) {
+    const line = lineOf(element, lineOf(body, 1));
+    if (!isMap(element) || typeof element.type !== "string") {
+      diagnostics.error(line, "form elements need a type");
+      continue;
+    }
+    if (element.type === "markdown") continue;
+    if (!FIELD_TYPES.includes(element.type)) {
+      diagnostics.error(line, `unknown element type "${element.type}" (expected markdown, ${FIELD_TYPES.join(", ")})`);
+      continue;
+    }
+    const attributes = isMap(element.attributes) ? element.attributes : {};
+    const validations = isMap(element.validations) ? element.validations : {};
+    const id = element.id;
+    if (typeof id !== "string" || !/^[A-Za-z0-9_-]+$/.test(id)) {
+      diagnostics.error(line, `${element.type} elements need an id of letters, digits, "-" and "_"`);
+      continue;
+    }
+    const previous = ids.get(id);
+    if (previous !== undefined) diagnostics.error(line, `duplicate id "${id}" (first defined on line ${previous})`);
+    ids.set(id, line);
+    if (typeof attributes.label !== "string" || attributes.label.trim() === "") diagnostics.error(line, `${id}: attributes.label is required`);
+
+    const options: string[] = [];
+    const requiredOptions: string[] = [];
+    if (element.type === "dropdown" || element.type === "checkboxes") {
+      const raw = attributes.options;
+      if (!Array.isArray(raw) || raw.length === 0) diagnostics.error(line, `${id}: attributes.options must be a non-empty list`);
+      for (const option of Array.isArray(raw) ? raw : []) {
+        const label = element.type === "checkboxes" && isMap(option) ? option.label : option;
+        if (typeof label !== "string" && typeof label !== "number") {
+          diagnostics.error(lineOf(option, line), `${id}: ${element.type === "checkboxes" ? "each option needs a label" : "options must be strings"}`);
+          continue;
+        }
+        if (options.includes(String(label))) diagnostics.error(line, `${id}: duplicate option "${label}"`);
+        options.push(String(label));
+        if (isMap(option) && option.required === true) requiredOptions.push(String(label));
+      }
+    }
+
+    fields.push({
+      id,
+      type: element.type as FormFieldType,
+      label: typeof attributes.label === "string" ? attributes.label.trim() : id,
+      description: typeof attributes.description === "string" ? attributes.description : undefined,
+      options,
+      requiredOptions,
+      multiple: attributes.multiple === true,
+      required: validations.required === true,
+      line,
+    });
+  }
+  diagnostics.throwIfAny();
+
+  return {
+    file,
+    name: form.name as string,
+    description: form.description as string,
+    title: typeof form.title === "string" ? form.title : undefined,
+    labels: labels as string[],
+    fields,
+  };
+}
+
+/** A label without its leading emoji and punctuation: "☁️ Cloud Provider" -> "Cloud Provider". */
+export function plainLabel(label: string): string {
+  return label.replace(/^[^\p{L}\p{N}]+/u, "").trim();
+}
+
+function normalize(label: string): string {
+  return plainLabel(label).toLowerCase().replace(/\s+/g, " ");
+}
+
+const CHECKBOX_LINE = /^\s*[-*]\s+\[([ xX])\]\s+(.*)$/;
+
+/**
+ * Field values from a submitted form body. Sections are matched to fields by
+ * label (ignoring a leading emoji, which some clients drop), so `###` headings
+ * typed inside a textarea stay part of that textarea, with a warning. Anything
+ * the form cannot have produced is an error rather than silently dropped or
+ * merged into a field.
+ */
+export function parseIssueBody(body: string, form: IssueForm): ParsedIssueBody {
+  const byLabel = new Map(form.fields.map((field) => [normalize(field.label), field]));
+  const lines = toLines(body);
+  const sections: { field: FormField; lines: string[] }[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  for (const line of lines) {
+    const heading = line.kind === "text" ? /^###\s+(.*?)\s*$/.exec(line.raw) : null;
+    const field = heading ? byLabel.get(normalize(heading[1])) : undefined;
+    if (field !== undefined && !sections.some((section) => section.field === field)) {
+      sections.push({ field, lines: [] });
+      continue;
+    }
+    const current = sections[sections.length - 1];
+    if (current === undefined) {
+      if ((line.kind === "text" ? line.text : line.raw).trim() !== "") {
+        errors.push(`line ${line.number}: text before the first field heading is not part of any field of ${form.name}`);
+      }
+      continue;
+    }
+    if (heading) {
+      const problem = `line ${line.number}: "### ${heading[1]}" ${field === undefined ? "is not a field" : "repeats a field"} of ${form.name}`;
+      if (current.field.type === "textarea") warnings.push(`${problem}; kept as part of ${plainLabel(current.field.label)}`);
+      else errors.push(problem);
+    }
+    current.lines.push(line.raw);
+  }
+
+  const response: FormResponse = {};
+  for (const { field, lines: content } of sections) {
+    const text = content.join("\n").trim();
+    if (text === "" || text === NO_RESPONSE) continue;
+    if (field.type === "checkboxes") {
+      const checked = content.flatMap((line) => {
+        const match = CHECKBOX_LINE.exec(line);
+        return match && match[1] !== " " ? [match[2].trim()] : [];
+      });
+      if (checked.length > 0) response[field.id] = checked;
+    } else if (field.type === "dropdown") {
+      response[field.id] = field.multiple ? text.split(/,\s*/).filter(Boolean) : text;
+    } else {
+      response[field.id] = text;
+    }
+  }
+  return { response, errors, warnings };
+}
+
+/** Checks `response` the way GitHub validates a submitted form. */
+export function validateResponse(form: IssueForm, response: FormResponse): ResponseCheck {
+  const missing: FormField[] = [];
+  const errors: string[] = [];
+  const known = new Set(form.fields.map((field) => field.id));
+  for (const id of Object.keys(response)) {
+    if (!known.has(id)) errors.push(`"${id}" is not a field of ${form.name}`);
+  }
+
+  for (const field of form.fields) {
+    const value = response[field.id];
+    const name = plainLabel(field.label);
+    if (value === undefined || (Array.isArray(value) && value.length === 0) || (typeof value === "string" && value.trim() === "")) {
+      if (field.required || field.requiredOptions.length > 0) missing.push(field);
+      continue;
+    }
+    if (field.type === "input" || field.type === "textarea") {
+      if (typeof value !== "string") errors.push(`${name}: expected text`);
+      continue;
+    }
+    const selected = Array.isArray(value) ? value : [value];
+    if (field.type === "dropdown" && !field.multiple && selected.length > 1) errors.push(`${name}: only one option may be selected`);
+    for (const option of selected) {
+      if (!field.options.includes(option)) errors.push(`${name}: "${option}" is not one of the options (${field.options.join(", ")})`);
+    }
+    if (field.requiredOptions.some((option) => !selected.includes(option))) missing.push(field);
+  }
+  return { missing, errors };
+}
+
+/** The Markdown body GitHub would create for `response`. */
+export function renderIssueBody(form: IssueForm, response: FormResponse): string {
+  const sections = form.fields.map((field) => {
+    const value = response[field.id];
+    let text: string;
+    if (field.type === "checkboxes") {
+      const checked = Array.isArray(value) ? value : [];
+      text = field.options.map((option) => `- [${checked.includes(option) ? "X" : " "}] ${option}`).join("\n");
+    } else if (value === undefined || value.length === 0) {
+      text = NO_RESPONSE;
+    } else {
+      text = Array.isArray(value) ? value.join(", ") : value;
+    }
+    return `### ${field.label}\n\n${text}`;
+  });
+  return `${sections.join("\n\n")}\n`;
+}
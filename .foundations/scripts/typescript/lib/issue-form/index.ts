@@ -0,0 +1,14 @@
+// GitHub issue forms as spec input: a minimal YAML reader for the form
+// definitions, submitted-body parsing and validation, conversion of the
+// .github/test-scenarios prompts, and spec.md drafting.
+//
+// Usage:
+//   const form = parseIssueForm(readFileSync(formPath, "utf8"), formPath);
+//   const { response, errors, warnings } = parseIssueBody(issue.body, form);
+//   const check = validateResponse(form, response); // check.errors, check.missing
+//   const draft = draftSpec(template, form, response, check, { issue: 42, date: "2026-01-05", source: "GitHub issue #42" });
+
+export * from "./form.ts";
+export * from "./scenario.ts";
+export * from "./spec-draft.ts";
+export * from "./yaml.ts";
@@ -0,0 +1,73 @@
+// Converts .github/test-scenarios/*.md prompts into terraform-consumer-
+// requirements form responses, so they go through the same validation and
+// spec drafting as a filed issue.
+//
+// The scenarios are free-form, so the mapping is a fixed set of rules:
+//   - `# Example: <name>` becomes project_name;
+//   - Infrastructure Requirements bullets go to cloud_accounts_regions when
+//     they mention a region, existing_infrastructure when they mention
+//     something existing, cost_budget when they mention cost or budget, and
+//     infrastructure_components otherwise; a provider named there (AWS, Azure,
+//     GCP) fills the provider dropdown;
+//   - HCP Terraform Configuration `**Organization**` / `**Project**` fill
+//     hcp_org / hcp_project, and any other entry there goes to
+//     configuration_parameters;
+//   - everything else (agent instructions) is kept in additional_context.
+// Nothing is invented: business_requirements, which no scenario states, is
+// left missing and becomes a NEEDS CLARIFICATION marker in the spec draft.
+
+import { type Line, fieldsOf, listItemsOf, preambleOf, sectionsOf, titleOf, toLines } from "../artifacts/markdown.ts";
+import type { FormResponse, IssueForm } from "./form.ts";
+
+const ROUTES: { field: string; pattern: RegExp }[] = [
+  { field: "cloud_accounts_regions", pattern: /\bregions?\b/i },
+  { field: "existing_infrastructure", pattern: /\bexisting\b/i },
+  { field: "cost_budget", pattern: /\b(?:cost|budget)\b/i },
+];
+
+function unwrap(value: string): string {
+  return value.replace(/^`(.*)`$/, "$1").trim();
+}
+
+function visibleText(lines: Line[]): string[] {
+  return lines.filter((line) => line.kind === "text" && line.text.trim() !== "").map((line) => line.text.trim());
+}
+
+/** The form response a scenario file describes; only fields `form` defines are set. */
+export function scenarioResponse(source: string, form: IssueForm): FormResponse {
+  const lines = toLines(source);
+  const sections = sectionsOf(lines).filter((section) => section.heading.level === 2);
+  const values: Record<string, string[]> = {};
+  const add = (field: string, text: string) => (values[field] ??= []).push(text);
+  const response: FormResponse = {};
+
+  const title = titleOf(lines)?.title.replace(/^Example:\s*/i, "").trim();
+  if (title) response.project_name = title;
+
+  for (const text of visibleText(preambleOf(lines)).filter((text) => !text.startsWith("# "))) add("additional_context", text);
+
+  for (const section of sections) {
+    const name = section.heading.title.toLowerCase();
+    if (name.startsWith("infrastructure requirements")) {
+      const items = listItemsOf(section.body).map((item) => item.text);
+      for (const item of items) add(ROUTES.find((route) => route.pattern.test(item))?.field ?? "infrastructure_components", `- ${item}`);
+      const provider = form.fields.find((field) => field.id === "provider");
+      const named = provider?.options.filter((option) => !/multi|other/i.test(option) && new RegExp(`\\b${option}\\b`).test(items.join("\n")));
+      if (named !== undefined && named.length > 0) response.provider = named.length === 1 ? named[0] : "Multi-cloud";
+    } else if (name.startsWith("hcp terraform")) {
+      const fields = fieldsOf(section.body.map((line) => ({ ...line, text: line.text.replace(/^\s*[-*]\s+/, "") })));
+      for (const [label, field] of Object.entries(fields)) {
+        if (label === "Organization") response.hcp_org = unwrap(field.value);
+        else if (label === "Project") response.hcp_project = unwrap(field.value);
+        else add("configuration_parameters", `- HCP Terraform ${label.toLowerCase()}: ${field.value}`);
+      }
+    } else {
+      add("additional_context", `${section.heading.title}:`);
+      for (const text of visibleText(section.body)) add("additional_context", text);
+    }
+  }
+
+  for (const [field, texts] of Object.entries(values)) response[field] = texts.join("\n");
+  const known = new Set(form.fields.map((field) => field.id));
+  return Object.fromEntries(Object.entries(response).filter(([id]) => known.has(id)));
+}
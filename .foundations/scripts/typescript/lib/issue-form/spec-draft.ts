@@ -0,0 +1,132 @@
+// Pre-fills spec-template.md from a terraform-consumer-requirements response.
+//
+// Only what the form states is filled in: the title, branch, date and input
+// line; User Story 1 from the business requirements; one functional
+// requirement per answered item (component, region, module, security
+// control, ...); and an "Issue Form Input" appendix with every answer
+// verbatim. Required fields without an answer become NEEDS CLARIFICATION
+// requirements for /speckit.clarify. The rest of the template is left for
+// /speckit.specify to complete.
+
+import { cleanBranchName, generateBranchName } from "../speckit/create-new-feature.ts";
+import { type FieldValue, type FormField, type FormResponse, type IssueForm, type ResponseCheck, plainLabel } from "./form.ts";
+
+export interface DraftOptions {
+  /** Issue number; becomes the feature number, as with `create-new-feature --issue`. */
+  issue?: number;
+  /** Branch suffix; derived from the project name when absent. */
+  shortName?: string;
+  /** `YYYY-MM-DD`. */
+  date: string;
+  /** Where the input came from, e.g. `GitHub issue #42`. */
+  source: string;
+}
+
+export interface SpecDraft {
+  spec: string;
+  description: string;
+  shortName: string;
+  /** `NNN-short-name` when the issue number is known. */
+  branch?: string;
+  /** Arguments for `speckit create-new-feature` (and create-new-feature.sh). */
+  args: string[];
+}
+
+/** Fields drafted elsewhere in the spec rather than as requirements. */
+const NOT_REQUIREMENTS = new Set(["project_name", "business_requirements", "additional_context"]);
+
+const REQUIREMENT_TEXT: Record<string, (item: string) => string> = {
+  provider: (item) => `use ${item} as the cloud provider`,
+  hcp_org: (item) => `run in HCP Terraform organization \`${item}\``,
+  hcp_project: (item) => `run in HCP Terraform project \`${item}\``,
+  infrastructure_components: (item) => `provision ${item}`,
+  cloud_accounts_regions: (item) => `deploy to ${item}`,
+  modules_to_consume: (item) => `consume \`${item}\` from the private registry`,
+  existing_infrastructure: (item) => `integrate with existing infrastructure: ${item}`,
+  security_requirements: (item) => `provide ${item}`,
+  compliance_standards: (item) => `comply with ${item}`,
+};
+
+/** One entry per line of a textarea, without list markers; dropdowns and checkboxes as selected. */
+function itemsOf(value: FieldValue): string[] {
+  if (Array.isArray(value)) return value;
+  return value
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").trim())
+    .filter((line) => line !== "");
+}
+
+function text(response: FormResponse, id: string): string | undefined {
+  const value = response[id];
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+function requirements(form: IssueForm, response: FormResponse, missing: FormField[]): string[] {
+  const lines: string[] = [];
+  for (const field of form.fields) {
+    if (missing.includes(field)) {
+      const name = plainLabel(field.label);
+      lines.push(`Deployment MUST satisfy the ${name} requirement [NEEDS CLARIFICATION: "${name}" is required by the issue form but was not answered]`);
+      continue;
+    }
+    const value = response[field.id];
+    if (value === undefined || NOT_REQUIREMENTS.has(field.id)) continue;
+    const phrase = REQUIREMENT_TEXT[field.id] ?? ((item: string) => `meet this ${plainLabel(field.label).toLowerCase()} requirement: ${item}`);
+    for (const item of itemsOf(value)) lines.push(`Deployment MUST ${phrase(item)}`);
+  }
+  return lines.map((line, i) => `- **FR-${String(i + 1).padStart(3, "0")}**: ${line}`);
+}
+
+function appendix(form: IssueForm, response: FormResponse, source: string): string[] {
+  const lines = ["## Issue Form Input", "", `<!-- Answers from ${source}, verbatim. -->`];
+  for (const field of form.fields) {
+    const value = response[field.id];
+    if (value === undefined) continue;
+    const items = Array.isArray(value) ? value.map((item) => `- ${item}`).join("\n") : value.trim();
+    lines.push("", /\n|^[-*+] /.test(items) ? `**${plainLabel(field.label)}**:\n\n${items}` : `**${plainLabel(field.label)}**: ${items}`);
+  }
+  return lines;
+}
+
+/** Replaces the list under `### Functional Requirements` up to the next heading. */
+function replaceRequirements(lines: string[], requirementLines: string[]): string[] {
+  const start = lines.findIndex((line) => /^###\s+Functional Requirements\b/.test(line));
+  if (start === -1) return lines;
+  let end = lines.findIndex((line, i) => i > start && /^#{1,3}\s/.test(line));
+  if (end === -1) end = lines.length;
+  return [...lines.slice(0, start + 1), "", ...requirementLines, "", ...lines.slice(end)];
+}
+
+/** The spec.md draft and create-new-feature arguments for a validated response. */
+export function draftSpec(template: string, form: IssueForm, response: FormResponse, check: ResponseCheck, options: DraftOptions): SpecDraft {
+  const project = text(response, "project_name");
+  const business = text(response, "business_requirements");
+  const firstNeed = business === undefined ? undefined : itemsOf(business)[0];
+  const description = [project ?? form.title ?? form.name, firstNeed].filter(Boolean).join(": ");
+  const shortName = cleanBranchName(options.shortName ?? generateBranchName(project ?? description));
+  const branch = options.issue === undefined ? undefined : `${String(options.issue).padStart(3, "0")}-${shortName}`;
+
+  let lines = template
+    .replace("[FEATURE NAME]", project ?? "[NEEDS CLARIFICATION: project name not provided]")
+    .replace("[DATE]", options.date)
+    .replace("$ARGUMENTS", description.replace(/"/g, "'"))
+    .replace("[Brief Title]", `Deploy ${project ?? "the requested infrastructure"}`)
+    .split("\n");
+  if (branch !== undefined) lines = lines.map((line) => line.replace("`[###-feature-name]`", `\`${branch}\``));
+  const input = lines.findIndex((line) => line.startsWith("**Input**:"));
+  if (input !== -1) lines.splice(input + 1, 0, `**Source**: ${options.source}`);
+  if (business !== undefined) {
+    const story = lines.findIndex((line) => line.startsWith("[Describe this module capability"));
+    if (story !== -1) lines.splice(story, 1, ...business.split("\n"));
+  }
+  lines = replaceRequirements(lines, requirements(form, response, check.missing));
+
+  const spec = `${[...lines, "", ...appendix(form, response, options.source)].join("\n").replace(/\n{3,}/g, "\n\n").trimEnd()}\n`;
+  const args = [...(options.issue === undefined ? [] : ["--issue", String(options.issue)]), "--short-name", shortName, description];
+  return { spec, description, shortName, branch, args };
+}
+
+/** `args` quoted for a POSIX shell. */
+export function shellQuote(args: string[]): string {
+  return args.map((arg) => (/^[A-Za-z0-9_./:=@%+-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`)).join(" ");
+}
@@ -0,0 +1,300 @@
+// Minimal YAML reader for GitHub issue form definitions.
+//
+// Issue forms (.github/ISSUE_TEMPLATE/*.yml) use a small part of YAML: block
+// mappings and sequences, `|` / `>` block scalars, quoted and plain scalars
+// and `[a, b]` flow sequences. This reads exactly that without a dependency,
+// and remembers the line of every mapping and sequence so form errors can
+// point at the field. Anchors, aliases, tags, flow mappings and multi-line
+// plain scalars are reported as errors rather than misread.
+
+import { DiagnosticCollector } from "../artifacts/errors.ts";
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export interface YamlDocument {
+  value: YamlValue;
+  /** 1-based line a mapping or sequence starts on. */
+  lineOf(node: object): number | undefined;
+}
+
+interface SourceLine {
+  number: number;
+  /** Leading spaces. */
+  indent: number;
+  /** Content after the indentation with any comment removed; empty for blank lines. */
+  text: string;
+  raw: string;
+}
+
+const SEQUENCE_ITEM = /^-(?:\s|$)/;
+const UNSUPPORTED = /^[&*!%@`]/;
+
+/** `text` up to an unquoted ` #` comment, trailing space trimmed. */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote !== undefined) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      // Quotes only open a scalar at its start, not inside plain text like it's
+      if (i === 0 || /[\s:[,-]/.test(text[i - 1])) quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "0": "\0", '"': '"', "\\": "\\", "/": "/", " ": " " };
+
+class Parser {
+  private readonly lines: SourceLine[];
+  private readonly diagnostics: DiagnosticCollector;
+  private readonly nodeLines = new WeakMap<object, number>();
+  private pos = 0;
+
+  constructor(source: string, diagnostics: DiagnosticCollector) {
+    this.diagnostics = diagnostics;
+    this.lines = source.split(/\r?\n/).map((raw, index) => {
+      const indent = /^ */.exec(raw)?.[0].length ?? 0;
+      if (/^ *\t/.test(raw) && raw.trim() !== "") diagnostics.error(index + 1, "tabs are not allowed for indentation");
+      return { number: index + 1, indent, text: stripComment(raw.slice(indent)), raw };
+    });
+  }
+
+  parse(): YamlDocument {
+    const first = this.peek();
+    if (first?.text === "---") this.pos++;
+    const value = this.block(0);
+    const rest = this.peek();
+    if (rest !== undefined) this.diagnostics.error(rest.number, `unexpected content "${rest.text}"`);
+    return { value, lineOf: (node) => this.nodeLines.get(node) };
+  }
+
+  /** Next non-blank line, without consuming it. */
+  private peek(): SourceLine | undefined {
+    while (this.pos < this.lines.length && this.lines[this.pos].text === "") this.pos++;
+    return this.lines[this.pos];
+  }
+
+  private block(minIndent: number): YamlValue {
+    const line = this.peek();
+    if (line === undefined || line.indent < minIndent) return null;
+    return SEQUENCE_ITEM.test(line.text) ? this.sequence(line.indent) : this.mapping(line.indent);
+  }
+
+  private sequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    this.nodeLines.set(items, this.peek()?.number ?? 0);
+    for (let line = this.peek(); line !== undefined && line.indent === indent && SEQUENCE_ITEM.test(line.text); line = this.peek()) {
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.pos++;
+        items.push(this.block(indent + 1));
+      } else if (this.keyEnd(rest) !== undefined) {
+        // `- key: value` starts a mapping indented to where `key` is
+        this.lines[this.pos] = { ...line, indent: indent + line.text.length - rest.length, text: rest };
+        items.push(this.mapping(this.lines[this.pos].indent));
+      } else {
+        this.pos++;
+        items.push(this.value(rest, line, indent));
+      }
+      this.rejectDeeper(indent);
+    }
+    return items;
+  }
+
+  private mapping(indent: number): { [key: string]: YamlValue } {
+    const map: { [key: string]: YamlValue } = {};
+    this.nodeLines.set(map, this.peek()?.number ?? 0);
+    for (let line = this.peek(); line !== undefined && line.indent === indent && !SEQUENCE_ITEM.test(line.text); line = this.peek()) {
+      this.pos++;
+      const end = this.keyEnd(line.text);
+      if (end === undefined) {
+        this.diagnostics.error(line.number, `expected "key: value", found "${line.text}"`);
+        continue;
+      }
+      const key = this.scalar(line.text.slice(0, end).trim(), line);
+      const name = String(key);
+      if (Object.hasOwn(map, name)) this.diagnostics.error(line.number, `duplicate key "${name}"`);
+      const rest = line.text.slice(end + 1).trim();
+
+      let value: YamlValue;
+      if (rest !== "") {
+        value = this.value(rest, line, indent);
+      } else {
+        const next = this.peek();
+        if (next !== undefined && next.indent > indent) value = this.block(indent + 1);
+        else if (next !== undefined && next.indent === indent && SEQUENCE_ITEM.test(next.text)) value = this.sequence(indent);
+        else value = null;
+      }
+      Object.defineProperty(map, name, { value, enumerable: true, writable: true, configurable: true });
+      this.rejectDeeper(indent);
+    }
+    return map;
+  }
+
+  /** Reports and skips lines indented deeper than a finished entry at `indent`. */
+  private rejectDeeper(indent: number): void {
+    for (let line = this.peek(); line !== undefined && line.indent > indent; line = this.peek()) {
+      this.diagnostics.error(line.number, `unexpected indentation (multi-line plain scalars are not supported; use | or quotes)`);
+      this.pos++;
+    }
+  }
+
+  /** Index of the `:` ending a mapping key in `text`, if `text` starts with one. */
+  private keyEnd(text: string): number | undefined {
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const quote = text[0];
+      for (let i = 1; i < text.length; i++) {
+        if (quote === '"' && text[i] === "\\") i++;
+        else if (text[i] === quote && text[i + 1] === quote && quote === "'") i++;
+        else if (text[i] === quote) return /^\s*:(?:\s|$)/.test(text.slice(i + 1)) ? text.indexOf(":", i + 1) : undefined;
+      }
+      return undefined;
+    }
+    if (text.startsWith("[") || text.startsWith("{")) return undefined;
+    const match = /:(?:\s|$)/.exec(text);
+    return match?.index;
+  }
+
+  /** The value after `key:` or `- ` on `line`; block scalars read the lines below. */
+  private value(text: string, line: SourceLine, parentIndent: number): YamlValue {
+    if (/^[|>]/.test(text)) return this.blockScalar(text, line, parentIndent);
+    if (text.startsWith("[")) return this.flowSequence(text, line);
+    if (text.startsWith("{")) {
+      if (text === "{}") return {};
+      this.diagnostics.error(line.number, "flow mappings ({...}) are not supported");
+      return null;
+    }
+    return this.scalar(text, line);
+  }
+
+  private blockScalar(header: string, line: SourceLine, parentIndent: number): string {
+    const match = /^([|>])([+-]?)$/.exec(header);
+    if (!match) {
+      this.diagnostics.error(line.number, `unsupported block scalar header "${header}"`);
+      return "";
+    }
+    const [, style, chomping] = match;
+    const content: string[] = [];
+    let contentIndent: number | undefined;
+    while (this.pos < this.lines.length) {
+      const next = this.lines[this.pos];
+      if (next.raw.trim() === "") {
+        content.push("");
+      } else {
+        contentIndent ??= next.indent;
+        if (next.indent <= parentIndent || next.indent < contentIndent) break;
+        content.push(next.raw.slice(contentIndent));
+      }
+      this.pos++;
+    }
+    // Trailing blank lines belong to the scalar only for the keep (+) indicator
+    let trailing = 0;
+    while (content.length > 0 && content[content.length - 1] === "") {
+      content.pop();
+      trailing++;
+    }
+    this.pos -= trailing;
+    if (content.length === 0) return "";
+
+    let text = content.join("\n");
+    if (style === ">") {
+      // Folding: adjacent lines join with a space, each blank line is a line break
+      text = content[0];
+      for (let i = 1; i < content.length; i++) {
+        const [previous, item] = [content[i - 1], content[i]];
+        if (item === "") text += "\n";
+        else if (previous === "") text += item;
+        else text += /^\s/.test(item) || /^\s/.test(previous) ? `\n${item}` : ` ${item}`;
+      }
+    }
+    if (chomping === "-") return text;
+    return chomping === "+" ? `${text}\n${"\n".repeat(trailing)}` : `${text}\n`;
+  }
+
+  private flowSequence(text: string, line: SourceLine): YamlValue[] {
+    const items: YamlValue[] = [];
+    this.nodeLines.set(items, line.number);
+    if (!text.endsWith("]")) {
+      this.diagnostics.error(line.number, "flow sequences must close on the same line");
+      return items;
+    }
+    const inner = text.slice(1, -1).trim();
+    if (inner === "") return items;
+    let start = 0;
+    let quote: string | undefined;
+    for (let i = 0; i <= inner.length; i++) {
+      const char = inner[i];
+      if (quote !== undefined) {
+        if (char === "\\" && quote === '"') i++;
+        else if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "[" || char === "{") {
+        this.diagnostics.error(line.number, "nested flow collections are not supported");
+        return items;
+      } else if (char === "," || i === inner.length) {
+        items.push(this.scalar(inner.slice(start, i).trim(), line));
+        start = i + 1;
+      }
+    }
+    return items;
+  }
+
+  private scalar(text: string, line: SourceLine): string | number | boolean | null {
+    if (text.startsWith('"')) return this.doubleQuoted(text, line);
+    if (text.startsWith("'")) {
+      const match = /^'((?:[^']|'')*)'$/.exec(text);
+      if (!match) this.diagnostics.error(line.number, `unterminated or malformed single-quoted string ${text}`);
+      return (match?.[1] ?? text.slice(1)).replace(/''/g, "'");
+    }
+    if (UNSUPPORTED.test(text)) {
+      this.diagnostics.error(line.number, `anchors, aliases, tags and reserved indicators are not supported: ${text}`);
+      return text;
+    }
+    if (/^(?:null|Null|NULL|~)?$/.test(text)) return null;
+    if (/^(?:true|True|TRUE)$/.test(text)) return true;
+    if (/^(?:false|False|FALSE)$/.test(text)) return false;
+    if (/^[-+]?\d+$/.test(text) || /^[-+]?(?:\d+\.\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(text)) return Number(text);
+    return text;
+  }
+
+  private doubleQuoted(text: string, line: SourceLine): string {
+    let result = "";
+    for (let i = 1; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') {
+        if (text.slice(i + 1).trim() !== "") this.diagnostics.error(line.number, `unexpected text after string: ${text.slice(i + 1).trim()}`);
+        return result;
+      }
+      if (char !== "\\") {
+        result += char;
+        continue;
+      }
+      const escape = text[++i];
+      const hex = escape === "x" ? 2 : escape === "u" ? 4 : escape === "U" ? 8 : 0;
+      if (hex > 0 && /^[0-9a-fA-F]+$/.test(text.slice(i + 1, i + 1 + hex)) && i + hex < text.length) {
+        result += String.fromCodePoint(parseInt(text.slice(i + 1, i + 1 + hex), 16));
+        i += hex;
+      } else if (escape !== undefined && Object.hasOwn(ESCAPES, escape)) {
+        result += ESCAPES[escape];
+      } else {
+        this.diagnostics.error(line.number, `unknown escape \\${escape ?? ""} in double-quoted string`);
+      }
+    }
+    this.diagnostics.error(line.number, "unterminated double-quoted string");
+    return result;
+  }
+}
+
+/** Parses `source`; throws ArtifactParseError listing every problem, with lines. */
+export function parseYaml(source: string, file = "document.yml"): YamlDocument {
+  const diagnostics = new DiagnosticCollector(file);
+  const document = new Parser(source, diagnostics).parse();
+  diagnostics.throwIfAny();
+  return document;
+}
@@ -0,0 +1,171 @@
+// `speckit check-prerequisites`: port of check-prerequisites.sh.
+//
+// Validates that the current feature has reached the plan (and optionally
+// tasks) phase and lists the optional design documents that exist. Output
+// shapes and exit codes are unchanged from the bash script.
+
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { basename, relative } from "node:path";
+
+import { type FeaturePaths, type Layout, checkFeatureBranch, getFeaturePaths, researchFiles } from "../common.ts";
+import type { CommandContext } from "./context.ts";
+
+const HELP = `Usage: speckit check-prerequisites [OPTIONS]
+
+Consolidated prerequisite checking for Spec-Driven Development workflow.
+
+OPTIONS:
+  --json              Output in JSON format
+  --require-tasks     Require tasks.md to exist (for implementation phase)
+  --include-tasks     Include tasks.md in AVAILABLE_DOCS list
+  --paths-only        Only output path variables (no prerequisite validation)
+  --help, -h          Show this help message
+
+EXAMPLES:
+  # Check task prerequisites (plan.md required)
+  speckit check-prerequisites --json
+
+  # Check implementation prerequisites (plan.md + tasks.md required)
+  speckit check-prerequisites --json --require-tasks --include-tasks
+
+  # Get feature paths only (no validation)
+  speckit check-prerequisites --paths-only`;
+
+export interface PrerequisiteOptions {
+  requireTasks: boolean;
+  includeTasks: boolean;
+}
+
+/** A missing prerequisite: the error line and the phase that produces it. */
+export interface MissingPrerequisite {
+  error: string;
+  hint: string;
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isNonEmptyDir(path: string): boolean {
+  try {
+    return statSync(path).isDirectory() && readdirSync(path).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/** The command that produces each prerequisite, as each layout's script names it. */
+const PRODUCERS: Record<Layout, Record<"specify" | "plan" | "tasks", string>> = {
+  foundations: { specify: "/tf-plan first (specify phase)", plan: "/tf-plan first (plan phase)", tasks: "/tf-plan first (tasks phase)" },
+  specify: { specify: "/speckit.specify first", plan: "/speckit.plan first", tasks: "/speckit.tasks first" },
+};
+
+/** The first missing prerequisite, checked in workflow order, or undefined. */
+export function missingPrerequisite(paths: FeaturePaths, options: PrerequisiteOptions): MissingPrerequisite | undefined {
+  const producers = PRODUCERS[paths.layout];
+  if (!existsSync(paths.featureDir)) {
+    return {
+      error: `Feature directory not found: ${paths.featureDir}`,
+      hint: `Run ${producers.specify} to create the feature structure.`,
+    };
+  }
+  if (!isFile(paths.implPlan)) {
+    return {
+      error: `plan.md not found in ${paths.featureDir}`,
+      hint: `Run ${producers.plan} to create the implementation plan.`,
+    };
+  }
+  if (options.requireTasks && !isFile(paths.tasks)) {
+    return {
+      error: `tasks.md not found in ${paths.featureDir}`,
+      hint: `Run ${producers.tasks} to create the task list.`,
+    };
+  }
+  return undefined;
+}
+
+/** Every optional document with whether it exists, in AVAILABLE_DOCS order. */
+export function documentStatus(paths: FeaturePaths, includeTasks: boolean): { name: string; present: boolean }[] {
+  const docs =
+    paths.layout === "specify"
+      ? [{ name: basename(paths.research), present: isFile(paths.research) }]
+      : researchFiles(paths).map((file) => ({ name: basename(file), present: true }));
+  docs.push(
+    { name: relative(paths.featureDir, paths.dataModel), present: isFile(paths.dataModel) },
+    { name: "contracts/", present: isNonEmptyDir(paths.contractsDir) },
+    { name: "quickstart.md", present: isFile(paths.quickstart) },
+  );
+  if (includeTasks) docs.push({ name: "tasks.md", present: isFile(paths.tasks) });
+  return docs;
+}
+
+export function checkPrerequisites(argv: string[], ctx: CommandContext): number {
+  let jsonMode = false;
+  let pathsOnly = false;
+  const options: PrerequisiteOptions = { requireTasks: false, includeTasks: false };
+
+  for (const arg of argv) {
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--require-tasks") {
+      options.requireTasks = true;
+    } else if (arg === "--include-tasks") {
+      options.includeTasks = true;
+    } else if (arg === "--paths-only") {
+      pathsOnly = true;
+    } else if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    } else {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    }
+  }
+
+  const paths = getFeaturePaths(ctx.cwd, ctx.env, ctx.err);
+  const branchError = checkFeatureBranch(paths.currentBranch, paths.hasGit, ctx.err);
+  if (branchError !== undefined) {
+    ctx.err(`ERROR: ${branchError}`);
+    return 1;
+  }
+
+  if (pathsOnly) {
+    const variables = {
+      REPO_ROOT: paths.repoRoot,
+      BRANCH: paths.currentBranch,
+      FEATURE_DIR: paths.featureDir,
+      FEATURE_SPEC: paths.featureSpec,
+      IMPL_PLAN: paths.implPlan,
+      TASKS: paths.tasks,
+    };
+    if (jsonMode) ctx.out(JSON.stringify(variables));
+    else for (const [key, value] of Object.entries(variables)) ctx.out(`${key}: ${value}`);
+    return 0;
+  }
+
+  const missing = missingPrerequisite(paths, options);
+  if (missing !== undefined) {
+    ctx.err(`ERROR: ${missing.error}`);
+    ctx.err(missing.hint);
+    return 1;
+  }
+
+  const docs = documentStatus(paths, options.includeTasks);
+  if (jsonMode) {
+    ctx.out(
+      JSON.stringify({
+        FEATURE_DIR: paths.featureDir,
+        AVAILABLE_DOCS: docs.filter((doc) => doc.present).map((doc) => doc.name),
+      }),
+    );
+  } else {
+    ctx.out(`FEATURE_DIR:${paths.featureDir}`);
+    ctx.out("AVAILABLE_DOCS:");
+    for (const doc of docs) ctx.out(`  ${doc.present ? "✓" : "✗"} ${doc.name}`);
+  }
+  return 0;
+}
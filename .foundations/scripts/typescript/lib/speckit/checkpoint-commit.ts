@@ -0,0 +1,139 @@
+// `speckit checkpoint-commit`: port of checkpoint-commit.sh.
+//
+// Stages a directory, commits it with a deterministic
+// `<prefix>(<feature>): complete <step> artifacts` message and pushes.
+// Exit codes: 0 committed and pushed (or nothing to commit), 1 a git
+// operation failed, 2 invalid arguments. git's own output goes to stderr so
+// stdout carries only the result line.
+
+import { getCurrentBranch } from "../common.ts";
+import { type CommandContext, forward, git } from "./context.ts";
+
+const HELP = `Usage: speckit checkpoint-commit [OPTIONS] <step_name>
+
+Commit and push staged artifacts after a workflow step.
+
+ARGUMENTS:
+  step_name           Short step identifier (e.g., "specify", "clarify")
+
+OPTIONS:
+  --dir <path>        Directory to stage (default: specs/)
+  --prefix <type>     Commit type prefix: docs, feat, compound (default: docs)
+  --json              Output result as JSON
+  --quiet             Suppress output (exit code only)
+  --help, -h          Show this help message
+
+EXIT CODES:
+  0: Commit and push succeeded (or nothing to commit)
+  1: Git operation failed
+  2: Invalid arguments`;
+
+export type CheckpointReason = "success" | "nothing_to_commit" | "add_failed" | "commit_failed" | "push_failed";
+
+/** The --json result; field order is the JSON order. */
+export interface CheckpointResult {
+  committed: boolean;
+  pushed: boolean;
+  reason: CheckpointReason;
+  message: string;
+}
+
+/** Feature short name from the branch: `004-vpc-setup` → `vpc-setup`. */
+export function featureName(branch: string): string {
+  return /^\d{3}-(.+)$/.exec(branch)?.[1] ?? branch;
+}
+
+export function checkpointMessage(prefix: string, branch: string, step: string): string {
+  return `${prefix}(${featureName(branch)}): complete ${step} artifacts`;
+}
+
+/**
+ * Stages `dir` and any `extra` paths, commits and pushes. `quiet` suppresses
+ * git's own output.
+ */
+export function checkpoint(ctx: CommandContext, step: string, dir: string, prefix: string, quiet = false, extra: string[] = []): CheckpointResult {
+  const message = checkpointMessage(prefix, getCurrentBranch(ctx.cwd, ctx.env), step);
+  const runGit = (args: string[]): boolean => {
+    const result = git(ctx, args);
+    if (!quiet) {
+      forward(result.stdout, ctx.err);
+      forward(result.stderr, ctx.err);
+    }
+    return result.status === 0;
+  };
+
+  if (!runGit(["add", dir, ...extra])) return { committed: false, pushed: false, reason: "add_failed", message };
+  if (git(ctx, ["diff", "--cached", "--quiet"]).status === 0) {
+    return { committed: false, pushed: false, reason: "nothing_to_commit", message: "" };
+  }
+  if (!runGit(["commit", "-m", message])) return { committed: false, pushed: false, reason: "commit_failed", message };
+  if (!runGit(["push"])) return { committed: true, pushed: false, reason: "push_failed", message };
+  return { committed: true, pushed: true, reason: "success", message };
+}
+
+export function checkpointCommit(argv: string[], ctx: CommandContext): number {
+  let dir = "specs/";
+  let prefix = "docs";
+  let jsonMode = false;
+  let quietMode = false;
+  let step = "";
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--dir" || arg === "--prefix") {
+      const value = argv[++i];
+      if (value === undefined) {
+        ctx.err(`ERROR: ${arg} requires a value. Use --help for usage.`);
+        return 2;
+      }
+      if (arg === "--dir") dir = value;
+      else prefix = value;
+    } else if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--quiet") {
+      quietMode = true;
+    } else if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    } else if (arg.startsWith("-")) {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage.`);
+      return 2;
+    } else if (step === "") {
+      step = arg;
+    } else {
+      ctx.err(`ERROR: Unexpected argument '${arg}'. Only one step_name allowed.`);
+      return 2;
+    }
+  }
+  if (step === "") {
+    ctx.err("ERROR: step_name is required. Use --help for usage.");
+    return 2;
+  }
+
+  const result = checkpoint(ctx, step, dir, prefix, quietMode);
+  const exitCode = result.reason === "success" || result.reason === "nothing_to_commit" ? 0 : 1;
+  if (jsonMode) {
+    ctx.out(JSON.stringify(result));
+    return exitCode;
+  }
+  if (quietMode) return exitCode;
+
+  switch (result.reason) {
+    case "success":
+      ctx.out(`Committed and pushed: ${result.message}`);
+      break;
+    case "nothing_to_commit":
+      ctx.out(`Nothing to commit in ${dir} — skipping.`);
+      break;
+    case "add_failed":
+      ctx.err(`ERROR: git add ${dir} failed.`);
+      break;
+    case "commit_failed":
+      ctx.err("ERROR: git commit failed.");
+      break;
+    case "push_failed":
+      ctx.err(`ERROR: git push failed. Commit was created locally: ${result.message}`);
+      break;
+  }
+  return exitCode;
+}
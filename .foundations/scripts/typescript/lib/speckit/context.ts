@@ -0,0 +1,95 @@
+// Process boundary for the speckit subcommands.
+//
+// Commands never read process.cwd(), process.env or the real clock and never
+// write to process.stdout directly; everything goes through a CommandContext,
+// so a command can be driven against a temporary git repository and its
+// output captured line by line.
+
+import { spawnSync } from "node:child_process";
+import { accessSync, constants } from "node:fs";
+import { delimiter, join } from "node:path";
+
+export interface CommandContext {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  /** Writes one line to stdout. */
+  out: (line: string) => void;
+  /** Writes one line to stderr. */
+  err: (line: string) => void;
+  now: () => Date;
+}
+
+/** A subcommand: parses its own arguments and returns the exit code. Commands that call the GitHub API are async. */
+export type Command = (argv: string[], ctx: CommandContext) => number | Promise<number>;
+
+export interface RunResult {
+  status: number;
+  stdout: string;
+  stderr: string;
+  /** Killed after RunOptions.timeoutMs. */
+  timedOut: boolean;
+}
+
+export interface RunOptions {
+  env?: NodeJS.ProcessEnv;
+  timeoutMs?: number;
+}
+
+export function processContext(): CommandContext {
+  return {
+    cwd: process.cwd(),
+    env: process.env,
+    out: (line) => process.stdout.write(`${line}\n`),
+    err: (line) => process.stderr.write(`${line}\n`),
+    now: () => new Date(),
+  };
+}
+
+/**
+ * Runs a program to completion with the context's directory and environment.
+ * A program that cannot be started reports status 127, like the shell.
+ */
+export function run(ctx: CommandContext, command: string, args: string[], options: RunOptions = {}): RunResult {
+  const result = spawnSync(command, args, {
+    cwd: ctx.cwd,
+    env: options.env ?? ctx.env,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    timeout: options.timeoutMs,
+  });
+  const timedOut = (result.error as NodeJS.ErrnoException | undefined)?.code === "ETIMEDOUT";
+  if (result.error !== undefined && result.status === null && !timedOut) {
+    return { status: 127, stdout: "", stderr: result.error.message, timedOut };
+  }
+  return { status: result.status ?? 1, stdout: result.stdout ?? "", stderr: result.stderr ?? "", timedOut };
+}
+
+export function git(ctx: CommandContext, args: string[]): RunResult {
+  return run(ctx, "git", args);
+}
+
+/** Equivalent of `command -v NAME` against the context's PATH. */
+export function commandExists(ctx: CommandContext, name: string): boolean {
+  for (const dir of (ctx.env.PATH ?? "").split(delimiter)) {
+    if (dir === "") continue;
+    try {
+      accessSync(join(dir, name), constants.X_OK);
+      return true;
+    } catch {
+      // not in this directory
+    }
+  }
+  return false;
+}
+
+/** Forwards captured program output to the context, one line at a time. */
+export function forward(text: string, write: (line: string) => void): void {
+  const trimmed = text.replace(/\n$/, "");
+  if (trimmed !== "") for (const line of trimmed.split("\n")) write(line);
+}
+
+/** `YYYY-MM-DD` in local time, as `date +%Y-%m-%d` prints it. */
+export function isoDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
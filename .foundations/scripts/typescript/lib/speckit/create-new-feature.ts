@@ -0,0 +1,244 @@
+// `speckit create-new-feature`: port of create-new-feature.sh.
+//
+// Derives an NNN-short-name branch from the feature description, picks a
+// number that collides with no existing spec directory or branch (local or
+// remote), checks the branch out and seeds specs/NNN-short-name/spec.md.
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+import { findTemplate, layoutOf } from "../common.ts";
+import { type CommandContext, forward, git } from "./context.ts";
+
+const HELP = `Usage: speckit create-new-feature [--json] [--short-name <name>] [--number N] [--issue N] <feature_description>
+
+Options:
+  --json              Output in JSON format
+  --short-name <name> Provide a custom short name (2-4 words) for the branch
+  --number N          Specify branch number manually (overrides auto-detection)
+  --issue N           Use GitHub issue number as the branch number
+  --help, -h          Show this help message
+
+Examples:
+  speckit create-new-feature 'Add user authentication system' --short-name 'user-auth'
+  speckit create-new-feature 'Implement OAuth2 integration for API' --number 5
+  speckit create-new-feature 'Deploy EC2 with VPC' --issue 42 --short-name 'ec2-vpc'`;
+
+const USAGE = "Usage: speckit create-new-feature [--json] [--short-name <name>] [--number N] <feature_description>";
+
+/** GitHub rejects branch names longer than this. */
+export const MAX_BRANCH_LENGTH = 244;
+
+const STOP_WORDS = new Set(
+  (
+    "i a an the to for of in on at by with from is are was were be been being have has had do does did " +
+    "will would should could can may might must shall this that these those my your our their want need add get set"
+  ).split(" "),
+);
+
+/** Directories that mark a repository root when git is unavailable. */
+const ROOT_MARKERS = [".git", ".foundations", ".specify"];
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/** Lowercase, non-alphanumerics collapsed to single hyphens, no leading/trailing hyphen. */
+export function cleanBranchName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-/, "")
+    .replace(/-$/, "");
+}
+
+/**
+ * Branch suffix from a free-text description: stop words are dropped, as are
+ * words under three letters unless they appear in upper case (acronyms such
+ * as "S3" or "DB"). The first three meaningful words are kept, or all four
+ * when there are exactly four.
+ */
+export function generateBranchName(description: string): string {
+  const words = description.toLowerCase().replace(/[^a-z0-9]/g, " ").split(/\s+/).filter(Boolean);
+  const meaningful = words.filter((word) => {
+    if (STOP_WORDS.has(word)) return false;
+    return word.length >= 3 || new RegExp(`\\b${word.toUpperCase()}\\b`).test(description);
+  });
+
+  if (meaningful.length > 0) {
+    return meaningful.slice(0, meaningful.length === 4 ? 4 : 3).join("-");
+  }
+  return cleanBranchName(description).split("-").filter(Boolean).slice(0, 3).join("-");
+}
+
+function highestFromSpecs(specsDir: string): number {
+  if (!isDirectory(specsDir)) return 0;
+  let highest = 0;
+  for (const name of readdirSync(specsDir)) {
+    const match = /^\d+/.exec(name);
+    if (match && isDirectory(join(specsDir, name))) highest = Math.max(highest, Number(match[0]));
+  }
+  return highest;
+}
+
+function highestFromBranches(ctx: CommandContext): number {
+  const result = git(ctx, ["branch", "-a"]);
+  if (result.status !== 0) return 0;
+  let highest = 0;
+  for (const line of result.stdout.split("\n")) {
+    const branch = line.replace(/^[* ]*/, "").replace(/^remotes\/[^/]*\//, "");
+    const match = /^(\d{3})-/.exec(branch);
+    if (match) highest = Math.max(highest, Number(match[1]));
+  }
+  return highest;
+}
+
+/** Next number after every remote branch, local branch and spec directory that uses this suffix. */
+function nextForSuffix(ctx: CommandContext, suffix: string, specsDir: string): number {
+  git(ctx, ["fetch", "--all", "--prune"]);
+  const pattern = new RegExp(`^(\\d+)-${suffix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`);
+  const numbers: number[] = [];
+
+  const remote = git(ctx, ["ls-remote", "--heads", "origin"]);
+  if (remote.status === 0) {
+    for (const line of remote.stdout.split("\n")) {
+      const match = pattern.exec(line.replace(/^.*refs\/heads\//, ""));
+      if (match) numbers.push(Number(match[1]));
+    }
+  }
+  const local = git(ctx, ["branch"]);
+  if (local.status === 0) {
+    for (const line of local.stdout.split("\n")) {
+      const match = pattern.exec(line.replace(/^[* ]*/, ""));
+      if (match) numbers.push(Number(match[1]));
+    }
+  }
+  if (isDirectory(specsDir)) {
+    for (const name of readdirSync(specsDir)) {
+      const match = pattern.exec(name);
+      if (match && isDirectory(join(specsDir, name))) numbers.push(Number(match[1]));
+    }
+  }
+  return Math.max(0, ...numbers) + 1;
+}
+
+/**
+ * Branch number when none is given: the highest of the next free number for
+ * this suffix, the next spec number and the next branch number, so a new
+ * feature never reuses a prefix held by a different suffix.
+ */
+export function nextFeatureNumber(ctx: CommandContext, suffix: string, specsDir: string, hasGitRepo: boolean): number {
+  if (!hasGitRepo) return highestFromSpecs(specsDir) + 1;
+  return Math.max(nextForSuffix(ctx, suffix, specsDir), highestFromSpecs(specsDir) + 1, highestFromBranches(ctx) + 1);
+}
+
+function findRepoRoot(start: string): string | undefined {
+  for (let dir = start; dir !== dirname(dir); dir = dirname(dir)) {
+    if (ROOT_MARKERS.some((marker) => isDirectory(join(dir, marker)))) return dir;
+  }
+  return undefined;
+}
+
+/** Returns the value for an option that requires one, or undefined if it is missing. */
+function optionValue(argv: string[], index: number): string | undefined {
+  const value = argv[index + 1];
+  return value === undefined || value.startsWith("--") ? undefined : value;
+}
+
+export function createNewFeature(argv: string[], ctx: CommandContext): number {
+  let jsonMode = false;
+  let shortName = "";
+  let branchNumber: string | undefined;
+  const words: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--short-name" || arg === "--number" || arg === "--issue") {
+      const value = optionValue(argv, i);
+      if (value === undefined) {
+        ctx.err(`Error: ${arg} requires a value`);
+        return 1;
+      }
+      i++;
+      if (arg === "--short-name") shortName = value;
+      else branchNumber = value;
+    } else if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    } else {
+      words.push(arg);
+    }
+  }
+
+  const description = words.join(" ");
+  if (description === "") {
+    ctx.err(USAGE);
+    return 1;
+  }
+  if (branchNumber !== undefined && !/^\d+$/.test(branchNumber)) {
+    ctx.err(`Error: branch number must be a non-negative integer (got: ${branchNumber})`);
+    return 1;
+  }
+
+  const toplevel = git(ctx, ["rev-parse", "--show-toplevel"]);
+  const hasGitRepo = toplevel.status === 0;
+  const repoRoot = hasGitRepo ? toplevel.stdout.trim() : findRepoRoot(ctx.cwd);
+  if (repoRoot === undefined) {
+    ctx.err("Error: Could not determine repository root. Please run this script from within the repository.");
+    return 1;
+  }
+  // Commands that follow run from the repository root, as the script did after `cd "$REPO_ROOT"`.
+  const rootCtx: CommandContext = { ...ctx, cwd: repoRoot };
+
+  const specsDir = join(repoRoot, "specs");
+  mkdirSync(specsDir, { recursive: true });
+
+  const suffix = shortName !== "" ? cleanBranchName(shortName) : generateBranchName(description);
+  const number = branchNumber !== undefined ? Number(branchNumber) : nextFeatureNumber(rootCtx, suffix, specsDir, hasGitRepo);
+  const featureNum = String(number).padStart(3, "0");
+
+  let branchName = `${featureNum}-${suffix}`;
+  if (branchName.length > MAX_BRANCH_LENGTH) {
+    const truncated = suffix.slice(0, MAX_BRANCH_LENGTH - 4).replace(/-$/, "");
+    const original = branchName;
+    branchName = `${featureNum}-${truncated}`;
+    ctx.err("[specify] Warning: Branch name exceeded GitHub's 244-byte limit");
+    ctx.err(`[specify] Original: ${original} (${original.length} bytes)`);
+    ctx.err(`[specify] Truncated to: ${branchName} (${branchName.length} bytes)`);
+  }
+
+  if (hasGitRepo) {
+    const current = git(rootCtx, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    ctx.err(`[specify] Creating feature branch '${branchName}' from '${current.status === 0 ? current.stdout.trim() : ""}'`);
+    const checkout = git(rootCtx, ["checkout", "-b", branchName]);
+    forward(checkout.stdout, ctx.err);
+    forward(checkout.stderr, ctx.err);
+    if (checkout.status !== 0) return checkout.status;
+  } else {
+    ctx.err(`[specify] Warning: Git repository not detected; skipped branch creation for ${branchName}`);
+  }
+
+  const featureDir = join(specsDir, branchName);
+  mkdirSync(featureDir, { recursive: true });
+  const specFile = join(featureDir, "spec.md");
+  const template = findTemplate(repoRoot, "spec-template.md", layoutOf(ctx.env));
+  if (template !== undefined) copyFileSync(template, specFile);
+  else if (!existsSync(specFile)) writeFileSync(specFile, "");
+
+  if (jsonMode) {
+    ctx.out(JSON.stringify({ BRANCH_NAME: branchName, SPEC_FILE: specFile, FEATURE_NUM: featureNum, FEATURE_DIR: featureDir }));
+  } else {
+    ctx.out(`BRANCH_NAME: ${branchName}`);
+    ctx.out(`SPEC_FILE: ${specFile}`);
+    ctx.out(`FEATURE_NUM: ${featureNum}`);
+    ctx.out(`SPECIFY_FEATURE environment variable set to: ${branchName}`);
+  }
+  return 0;
+}
@@ -0,0 +1,49 @@
+// GitHub host and repository detection shared by validate-env and the issue
+// commands.
+//
+// gh picks its credentials by host: GITHUB_TOKEN / GH_TOKEN serve github.com
+// and *.ghe.com (cloud), GH_ENTERPRISE_TOKEN serves GitHub Enterprise Server.
+// See https://cli.github.com/manual/gh_help_environment
+
+import { type CommandContext, git } from "./context.ts";
+
+export const DEFAULT_GITHUB_HOST = "github.com";
+
+export interface Repository {
+  host: string;
+  owner: string;
+  name: string;
+}
+
+/** Host of the `origin` remote (`git@host:` or `https://host/`), if any. */
+export function originHost(ctx: CommandContext): string | undefined {
+  const result = git(ctx, ["remote", "get-url", "origin"]);
+  if (result.status !== 0) return undefined;
+  const url = result.stdout.trim();
+  return (/^git@([^:]+):/.exec(url) ?? /^https?:\/\/([^/]+)\//.exec(url))?.[1];
+}
+
+/** Host, owner and repository name of a GitHub remote URL (scp-like, ssh:// or https://). */
+export function parseRemoteUrl(url: string): Repository | undefined {
+  const match =
+    /^[^@/]+@([^:/]+):([^/]+)\/([^/]+?)(?:\.git)?\/?$/.exec(url) ??
+    /^(?:ssh|https?|git):\/\/(?:[^@/]+@)?([^:/]+)(?::\d+)?\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/.exec(url);
+  return match ? { host: match[1], owner: match[2], name: match[3] } : undefined;
+}
+
+/**
+ * Repository of the `origin` remote. GITHUB_REPOSITORY (`owner/name`, as in
+ * GitHub Actions) overrides the owner and name but keeps the origin host.
+ */
+export function originRepository(ctx: CommandContext): Repository | undefined {
+  const result = git(ctx, ["remote", "get-url", "origin"]);
+  const remote = result.status === 0 ? parseRemoteUrl(result.stdout.trim()) : undefined;
+  const override = /^([^/]+)\/([^/]+)$/.exec(ctx.env.GITHUB_REPOSITORY ?? "");
+  if (override) return { host: remote?.host ?? DEFAULT_GITHUB_HOST, owner: override[1], name: override[2] };
+  return remote;
+}
+
+/** Self-hosted GitHub Enterprise Server, as opposed to github.com or GHE.com cloud. */
+export function isEnterpriseServer(host: string): boolean {
+  return host !== DEFAULT_GITHUB_HOST && !host.endsWith(".ghe.com");
+}
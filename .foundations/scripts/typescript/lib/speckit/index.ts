@@ -0,0 +1,50 @@
+// The speckit workflow commands that replace the .specify and .foundations
+// bash scripts. Every command is a function of (argv, CommandContext) that
+// returns its exit code, so it can run in-process against a temporary repo.
+//
+// Usage:
+//   const lines: string[] = [];
+//   const ctx = { ...processContext(), cwd: tempRepo, out: (line) => lines.push(line) };
+//   const exitCode = COMMANDS["check-prerequisites"].run(["--json"], ctx);
+
+import { checkPrerequisites } from "./check-prerequisites.ts";
+import { checkpointCommit } from "./checkpoint-commit.ts";
+import type { Command } from "./context.ts";
+import { createNewFeature } from "./create-new-feature.ts";
+import { issueToSpec } from "./issue-to-spec.ts";
+import { paths } from "./paths.ts";
+import { postIssueProgress } from "./post-issue-progress.ts";
+import { setupPlan } from "./setup-plan.ts";
+import { tasksToIssues } from "./tasks-to-issues.ts";
+import { updateAgentContext } from "./update-agent-context.ts";
+import { validateEnv } from "./validate-env.ts";
+import { workflow } from "./workflow.ts";
+
+export * from "./check-prerequisites.ts";
+export * from "./checkpoint-commit.ts";
+export * from "./context.ts";
+export * from "./create-new-feature.ts";
+export * from "./github.ts";
+export * from "./issue-to-spec.ts";
+export * from "./paths.ts";
+export * from "./post-issue-progress.ts";
+export * from "./setup-plan.ts";
+export * from "./tasks-to-issues.ts";
+export * from "./update-agent-context.ts";
+export * from "./validate-env.ts";
+export * from "./workflow.ts";
+
+/** Subcommands by name; most replace the bash script of the same name. */
+export const COMMANDS: Record<string, { run: Command; summary: string }> = {
+  "create-new-feature": { run: createNewFeature, summary: "Create the NNN-name branch and spec.md for a feature" },
+  "check-prerequisites": { run: checkPrerequisites, summary: "Check that plan.md (and tasks.md) exist; list design docs" },
+  "setup-plan": { run: setupPlan, summary: "Seed plan.md from the plan template" },
+  "validate-env": { run: validateEnv, summary: "Check GATE/WARN environment prerequisites" },
+  paths: { run: paths, summary: "Print the feature path variables (common.sh get_feature_paths)" },
+  "update-agent-context": { run: updateAgentContext, summary: "Record plan.md technologies in agent context files" },
+  "checkpoint-commit": { run: checkpointCommit, summary: "Commit and push a workflow step's artifacts" },
+  "post-issue-progress": { run: postIssueProgress, summary: "Keep an updatable progress comment on a GitHub issue" },
+  "issue-to-spec": { run: issueToSpec, summary: "Draft spec.md from a deployment requirements issue form" },
+  "tasks-to-issues": { run: tasksToIssues, summary: "Sync tasks.md to story issues with task sub-issues" },
+  workflow: { run: workflow, summary: "Track, resume and roll back the feature's workflow phases" },
+};
@@ -0,0 +1,197 @@
+// `speckit issue-to-spec`: turns a terraform-consumer-requirements issue (or a
+// .github/test-scenarios prompt) into a spec.md draft.
+//
+// The issue body is checked against the issue form definition, so a value
+// the form would not accept is an error rather than a silently wrong spec.
+// Required fields that were left empty become NEEDS CLARIFICATION markers.
+// The output also names the `create-new-feature --issue N --short-name`
+// arguments for the feature. Exit codes: 0 converted, 1 the input does not
+// fit the form or could not be read, 2 invalid arguments.
+
+import { readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { join, relative, resolve } from "node:path";
+
+import { ArtifactParseError } from "../artifacts/errors.ts";
+import { findTemplate, getRepoRoot, layoutOf } from "../common.ts";
+import { GitHubApiError, GitHubClient, apiBaseUrl, resolveToken } from "../github/index.ts";
+import {
+  type FormResponse,
+  type IssueForm,
+  draftSpec,
+  parseIssueBody,
+  parseIssueForm,
+  plainLabel,
+  renderIssueBody,
+  scenarioResponse,
+  shellQuote,
+  validateResponse,
+} from "../issue-form/index.ts";
+import type { CommandContext } from "./context.ts";
+import { type Repository, originRepository } from "./github.ts";
+
+export const DEFAULT_FORM = ".github/ISSUE_TEMPLATE/terraform-consumer-requirements.yml";
+
+const HELP = `Usage: speckit issue-to-spec [OPTIONS]
+
+Draft spec.md from a Terraform deployment requirements issue.
+
+INPUT (one of):
+  --body <file>        Issue body as GitHub renders the form ('-' for stdin)
+  --scenario <file>    A .github/test-scenarios/*.md prompt instead of an issue
+  (neither)            Fetch the body of --issue from the origin repository
+
+OPTIONS:
+  --issue N            Issue number; also the feature number for create-new-feature
+  --short-name <name>  Branch suffix (default: derived from the project name)
+  --form <file>        Issue form definition (default: ${DEFAULT_FORM})
+  --api-url <url>      GitHub REST API root to fetch --issue from (e.g. a local fake)
+  --output <file>      Write the spec draft to <file> instead of stdout
+  --issue-body         Print the input as an issue form body instead of a spec draft
+  --json               Output the answers, problems, arguments and draft as JSON
+  --help, -h           Show this help message
+
+EXAMPLES:
+  speckit issue-to-spec --issue 42
+  gh issue view 42 --json body -q .body | speckit issue-to-spec --issue 42 --body - --json
+  speckit issue-to-spec --scenario .github/test-scenarios/example_ec2.md --issue-body
+
+EXIT CODES:
+  0: Converted (unanswered required fields become NEEDS CLARIFICATION markers)
+  1: An answer is not allowed by the form, or an input could not be read
+  2: Invalid arguments`;
+
+const VALUE_OPTIONS = ["--body", "--scenario", "--issue", "--short-name", "--form", "--output", "--api-url"];
+
+/** The issue body from the API, for when only --issue is given. */
+async function fetchIssueBody(ctx: CommandContext, repo: Repository, issue: number, apiUrl?: string): Promise<string> {
+  const client = new GitHubClient({ baseUrl: apiBaseUrl(repo.host, ctx.env, apiUrl), token: resolveToken(ctx, repo.host) });
+  return (await client.getIssue(repo, issue)).body ?? "";
+}
+
+export async function issueToSpec(argv: string[], ctx: CommandContext): Promise<number> {
+  const options: Record<string, string> = {};
+  let jsonMode = false;
+  let issueBodyMode = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    } else if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--issue-body") {
+      issueBodyMode = true;
+    } else if (VALUE_OPTIONS.includes(arg)) {
+      const value = argv[++i];
+      if (value === undefined || (value.startsWith("--") && value !== "-")) {
+        ctx.err(`ERROR: ${arg} requires a value`);
+        return 2;
+      }
+      options[arg] = value;
+    } else {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 2;
+    }
+  }
+  const issue = options["--issue"] === undefined ? undefined : Number(options["--issue"]);
+  if (issue !== undefined && (!Number.isInteger(issue) || issue <= 0)) {
+    ctx.err(`ERROR: --issue must be a positive integer (got: ${options["--issue"]})`);
+    return 2;
+  }
+  if (options["--body"] !== undefined && options["--scenario"] !== undefined) {
+    ctx.err("ERROR: --body and --scenario are alternatives; pass one");
+    return 2;
+  }
+  if (options["--body"] === undefined && options["--scenario"] === undefined && issue === undefined) {
+    ctx.err("ERROR: pass --body, --scenario or --issue. Use --help for usage information.");
+    return 2;
+  }
+
+  const fetchFrom = options["--body"] === undefined && options["--scenario"] === undefined ? originRepository(ctx) : undefined;
+  if (options["--body"] === undefined && options["--scenario"] === undefined && fetchFrom === undefined) {
+    ctx.err("ERROR: cannot tell the GitHub repository to fetch the issue from; set an origin remote or pass --body");
+    return 1;
+  }
+
+  const repoRoot = getRepoRoot(ctx.cwd);
+  const formPath = resolve(ctx.cwd, options["--form"] ?? join(repoRoot, DEFAULT_FORM));
+  let form: IssueForm;
+  let response: FormResponse;
+  let bodyErrors: string[] = [];
+  let warnings: string[] = [];
+  let source: string;
+  try {
+    form = parseIssueForm(readFileSync(formPath, "utf8"), relative(repoRoot, formPath));
+    if (options["--scenario"] !== undefined) {
+      const file = resolve(ctx.cwd, options["--scenario"]);
+      response = scenarioResponse(readFileSync(file, "utf8"), form);
+      source = `\`${relative(repoRoot, file)}\``;
+    } else {
+      const body =
+        fetchFrom !== undefined && issue !== undefined
+          ? await fetchIssueBody(ctx, fetchFrom, issue, options["--api-url"])
+          : readFileSync(options["--body"] === "-" ? 0 : resolve(ctx.cwd, options["--body"] ?? ""), "utf8");
+      ({ response, errors: bodyErrors, warnings } = parseIssueBody(body, form));
+      source = issue === undefined ? "the issue form" : `GitHub issue #${issue}`;
+    }
+  } catch (error) {
+    if (error instanceof ArtifactParseError) {
+      ctx.err("ERROR: Invalid issue form definition:");
+      for (const line of error.message.split("\n")) ctx.err(`  ${line}`);
+    } else if (error instanceof GitHubApiError || error instanceof TypeError || (error as NodeJS.ErrnoException).code !== undefined) {
+      // API failures, unreachable hosts and unreadable files
+      ctx.err(`ERROR: ${(error as Error).message}`);
+    } else {
+      throw error;
+    }
+    return 1;
+  }
+
+  const check = validateResponse(form, response);
+  check.errors.unshift(...bodyErrors);
+  const template = findTemplate(repoRoot, "spec-template.md", layoutOf(ctx.env));
+  const draft = draftSpec(template === undefined ? "" : readFileSync(template, "utf8"), form, response, check, {
+    issue,
+    shortName: options["--short-name"],
+    date: ctx.now().toISOString().slice(0, 10),
+    source,
+  });
+
+  if (jsonMode) {
+    ctx.out(
+      JSON.stringify({
+        valid: check.errors.length === 0,
+        errors: check.errors,
+        warnings,
+        missing: check.missing.map((field) => field.id),
+        issue: issue ?? null,
+        short_name: draft.shortName,
+        branch: draft.branch ?? null,
+        args: draft.args,
+        values: response,
+        spec: draft.spec,
+      }),
+    );
+    return check.errors.length === 0 ? 0 : 1;
+  }
+  for (const warning of warnings) ctx.err(`WARNING: ${warning}`);
+  if (check.errors.length > 0) {
+    ctx.err(`ERROR: The answers do not fit ${form.file}:`);
+    for (const error of check.errors) ctx.err(`  ${error}`);
+    return 1;
+  }
+
+  const output = issueBodyMode ? renderIssueBody(form, response) : draft.spec;
+  // With the draft on stdout, the notes go to stderr
+  const note = options["--output"] === undefined ? ctx.err : ctx.out;
+  if (options["--output"] === undefined) {
+    ctx.out(output.trimEnd());
+  } else {
+    await writeFile(resolve(ctx.cwd, options["--output"]), output);
+    note(`Wrote ${options["--output"]}`);
+  }
+  for (const field of check.missing) note(`NEEDS CLARIFICATION: ${plainLabel(field.label)} (required) was not answered`);
+  if (!issueBodyMode) note(`create-new-feature arguments: ${shellQuote(draft.args)}`);
+  return 0;
+}
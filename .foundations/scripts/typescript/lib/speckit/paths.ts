@@ -0,0 +1,59 @@
+// `speckit paths`: the feature path variables of common.sh get_feature_paths.
+//
+// The default output is the same shell-quoted KEY='value' block, so
+// `eval "$(speckit paths)"` replaces `source common.sh; eval "$(get_feature_paths)"`.
+
+import { type FeaturePaths, getFeaturePaths } from "../common.ts";
+import type { CommandContext } from "./context.ts";
+
+const HELP = `Usage: speckit paths [--json]
+
+Print the feature path variables for the current branch (no validation).
+
+OPTIONS:
+  --json              Output in JSON format
+  --help, -h          Show this help message`;
+
+/** The get_feature_paths variables, in its order; the .specify layout has RESEARCH rather than RESEARCH_GLOB. */
+export function pathVariables(paths: FeaturePaths): Record<string, string> {
+  return {
+    REPO_ROOT: paths.repoRoot,
+    CURRENT_BRANCH: paths.currentBranch,
+    HAS_GIT: String(paths.hasGit),
+    FEATURE_DIR: paths.featureDir,
+    FEATURE_SPEC: paths.featureSpec,
+    IMPL_PLAN: paths.implPlan,
+    TASKS: paths.tasks,
+    [paths.layout === "specify" ? "RESEARCH" : "RESEARCH_GLOB"]: paths.research,
+    DATA_MODEL: paths.dataModel,
+    QUICKSTART: paths.quickstart,
+    CONTRACTS_DIR: paths.contractsDir,
+  };
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export function paths(argv: string[], ctx: CommandContext): number {
+  let jsonMode = false;
+  for (const arg of argv) {
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    } else {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    }
+  }
+
+  const variables = pathVariables(getFeaturePaths(ctx.cwd, ctx.env, ctx.err));
+  if (jsonMode) {
+    ctx.out(JSON.stringify(variables));
+  } else {
+    for (const [key, value] of Object.entries(variables)) ctx.out(`${key}=${shellQuote(value)}`);
+  }
+  return 0;
+}
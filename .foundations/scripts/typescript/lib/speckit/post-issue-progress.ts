@@ -0,0 +1,159 @@
+// `speckit post-issue-progress`: port of post-issue-progress.sh.
+//
+// Where the script added a new comment per call, this keeps one progress
+// comment per issue (lib/github/progress.ts) and rewrites it: a phase table
+// with durations, the current tasks.md checkboxes and `speckit:` phase
+// labels. The API host and token follow the origin remote, so GitHub
+// Enterprise Server issues work as before; --api-url overrides the host.
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+import { ArtifactParseError } from "../artifacts/errors.ts";
+import { type TasksDocument, parseTasks } from "../artifacts/tasks.ts";
+import { getFeaturePaths } from "../common.ts";
+import { GitHubApiError, GitHubClient, apiBaseUrl, isPhaseStatus, resolveToken, updateProgress } from "../github/index.ts";
+import type { CommandContext } from "./context.ts";
+import { originRepository } from "./github.ts";
+
+const USAGE = [
+  "Usage: speckit post-issue-progress [OPTIONS] <issue_number> <phase_name> <status> [summary] [details]",
+  "  status: started | complete | failed",
+];
+
+const HELP = `${USAGE.join("\n")}
+
+Arguments:
+  issue_number  GitHub issue number (required)
+  phase_name    Human-readable phase name, e.g. "Environment Validation" (required)
+  status        One of: started, complete, failed (required)
+  summary       Brief one-line summary of outcome (optional for started, recommended for complete/failed)
+  details       Multi-line details/bullets shown under the phase table (optional)
+
+Options:
+  --tasks FILE  tasks.md to mirror as a task list (default: the current feature's)
+  --no-tasks    Do not include a task list
+  --no-labels   Do not set the speckit:<phase> / speckit:failed labels
+  --json        Print the comment id, URL and label changes as JSON
+  --api-url URL GitHub REST API root to use instead of origin's (e.g. a local fake);
+                the token is then optional
+
+The issue keeps one progress comment, updated in place. The repository comes
+from the origin remote (or GITHUB_REPOSITORY); the token from GH_TOKEN /
+GITHUB_TOKEN, GH_ENTERPRISE_TOKEN for GitHub Enterprise Server, or gh.
+
+Examples:
+  speckit post-issue-progress 42 "Environment Validation" complete "All gates passed"
+  speckit post-issue-progress 42 "Sandbox Testing" failed "terraform apply failed: missing provider"
+  speckit post-issue-progress 42 "Implementation Phase 1" started`;
+
+/** tasks.md of `file`, or of the current feature; undefined (with a warning) when it cannot be parsed. */
+function loadTasks(ctx: CommandContext, file: string | undefined): TasksDocument | undefined {
+  const path = file === undefined ? getFeaturePaths(ctx.cwd, ctx.env, () => {}).tasks : resolve(ctx.cwd, file);
+  if (!existsSync(path)) {
+    if (file !== undefined) ctx.err(`Warning: ${file} not found; posting without a task list`);
+    return undefined;
+  }
+  try {
+    return parseTasks(readFileSync(path, "utf8"), path);
+  } catch (error) {
+    if (!(error instanceof ArtifactParseError)) throw error;
+    ctx.err(`Warning: ${path} could not be parsed; posting without a task list:`);
+    for (const line of error.message.split("\n")) ctx.err(`  ${line}`);
+    return undefined;
+  }
+}
+
+export async function postIssueProgress(argv: string[], ctx: CommandContext): Promise<number> {
+  const args: string[] = [];
+  let tasksFile: string | undefined;
+  let tasks = true;
+  let labels = true;
+  let jsonMode = false;
+  let apiUrl: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    } else if (arg === "--tasks") {
+      tasksFile = argv[++i];
+      if (tasksFile === undefined) {
+        ctx.err("Error: --tasks requires a file");
+        return 1;
+      }
+    } else if (arg === "--api-url") {
+      apiUrl = argv[++i];
+      if (apiUrl === undefined) {
+        ctx.err("Error: --api-url requires a URL");
+        return 1;
+      }
+    } else if (arg === "--no-tasks") {
+      tasks = false;
+    } else if (arg === "--no-labels") {
+      labels = false;
+    } else if (arg === "--json") {
+      jsonMode = true;
+    } else {
+      args.push(arg);
+    }
+  }
+  if (args.length < 3) {
+    for (const line of USAGE) ctx.err(line);
+    return 1;
+  }
+
+  const [issueArg, phase, status, summary, details] = args;
+  const issue = Number(issueArg);
+  if (!Number.isInteger(issue) || issue <= 0) {
+    ctx.err(`Error: issue_number must be a positive integer (got: ${issueArg})`);
+    return 1;
+  }
+  if (!isPhaseStatus(status)) {
+    ctx.err(`Error: status must be one of: started, complete, failed (got: ${status})`);
+    return 1;
+  }
+
+  const repo = originRepository(ctx);
+  if (repo === undefined) {
+    ctx.err("Error: cannot tell the GitHub repository; set an origin remote or GITHUB_REPOSITORY=owner/name");
+    return 1;
+  }
+  const token = resolveToken(ctx, repo.host);
+  if (token === undefined && apiUrl === undefined) {
+    ctx.err(`Error: no GitHub token for ${repo.host}; export GITHUB_TOKEN (GH_ENTERPRISE_TOKEN for Enterprise Server) or run gh auth login`);
+    return 1;
+  }
+
+  const client = new GitHubClient({ baseUrl: apiBaseUrl(repo.host, ctx.env, apiUrl), token });
+  try {
+    const result = await updateProgress(client, repo, issue, {
+      phase,
+      status,
+      summary,
+      details,
+      tasks: tasks ? loadTasks(ctx, tasksFile) : undefined,
+      labels,
+      now: ctx.now(),
+    });
+    if (jsonMode) {
+      ctx.out(
+        JSON.stringify({
+          comment_id: result.comment.id,
+          url: result.comment.html_url,
+          created: result.created,
+          labels_added: result.labelsAdded,
+          labels_removed: result.labelsRemoved,
+        }),
+      );
+    } else {
+      ctx.out(`${result.created ? "Created" : "Updated"} progress comment: ${result.comment.html_url}`);
+    }
+    return 0;
+  } catch (error) {
+    if (!(error instanceof GitHubApiError) && !(error instanceof TypeError)) throw error;
+    // fetch reports connection failures as TypeError
+    ctx.err(`Error: ${error.message}${error instanceof TypeError && error.cause ? ` (${String(error.cause)})` : ""}`);
+    return 1;
+  }
+}
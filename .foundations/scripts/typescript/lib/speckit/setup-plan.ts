@@ -0,0 +1,56 @@
+// `speckit setup-plan`: port of setup-plan.sh.
+//
+// Creates the feature directory and seeds plan.md from plan-template.md.
+// The "Copied plan template" notice goes to stderr in --json mode so stdout
+// holds only the JSON object.
+
+import { copyFileSync, mkdirSync, writeFileSync } from "node:fs";
+
+import { checkFeatureBranch, findTemplate, getFeaturePaths, preferredTemplatePath } from "../common.ts";
+import type { CommandContext } from "./context.ts";
+
+const HELP = `Usage: speckit setup-plan [--json]
+  --json    Output results in JSON format
+  --help    Show this help message`;
+
+export function setupPlan(argv: string[], ctx: CommandContext): number {
+  let jsonMode = false;
+  for (const arg of argv) {
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    }
+    // Other arguments are accepted and ignored, as in setup-plan.sh.
+  }
+
+  const paths = getFeaturePaths(ctx.cwd, ctx.env, ctx.err);
+  const branchError = checkFeatureBranch(paths.currentBranch, paths.hasGit, ctx.err);
+  if (branchError !== undefined) {
+    ctx.err(`ERROR: ${branchError}`);
+    return 1;
+  }
+
+  mkdirSync(paths.featureDir, { recursive: true });
+  const notice = jsonMode ? ctx.err : ctx.out;
+  const template = findTemplate(paths.repoRoot, "plan-template.md", paths.layout);
+  if (template !== undefined) {
+    copyFileSync(template, paths.implPlan);
+    notice(`Copied plan template to ${paths.implPlan}`);
+  } else {
+    notice(`Warning: Plan template not found at ${preferredTemplatePath(paths.repoRoot, "plan-template.md", paths.layout)}`);
+    writeFileSync(paths.implPlan, "", { flag: "a" });
+  }
+
+  const variables = {
+    FEATURE_SPEC: paths.featureSpec,
+    IMPL_PLAN: paths.implPlan,
+    SPECS_DIR: paths.featureDir,
+    BRANCH: paths.currentBranch,
+    HAS_GIT: String(paths.hasGit),
+  };
+  if (jsonMode) ctx.out(JSON.stringify(variables));
+  else for (const [key, value] of Object.entries(variables)) ctx.out(`${key}: ${value}`);
+  return 0;
+}
@@ -0,0 +1,216 @@
+// `speckit tasks-to-issues`: deterministic replacement for the
+// speckit.taskstoissues agent's create_issue calls.
+//
+// Syncs tasks.md into parent issues and sub-issues (lib/github/issue-sync.ts)
+// and records them in github-issues.json next to tasks.md, so re-running
+// updates and closes instead of duplicating. --dry-run prints the plan and a
+// body diff per changed issue without calling the API.
+// Exit codes: 0 synced (or planned), 1 refused, unparsable input or API
+// failure, 2 invalid arguments.
+
+import { readFileSync } from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
+
+import { ArtifactParseError } from "../artifacts/errors.ts";
+import { parseTasks } from "../artifacts/tasks.ts";
+import { getFeaturePaths } from "../common.ts";
+import {
+  GitHubApiError,
+  GitHubClient,
+  type IssueManifest,
+  IssueManifestError,
+  MANIFEST_FILE,
+  type SyncAction,
+  apiBaseUrl,
+  checkRemoteRepository,
+  checkSyncTarget,
+  diffLines,
+  loadManifest,
+  repositoryKey,
+  resolveToken,
+  saveManifest,
+  syncIssues,
+  syncItems,
+} from "../github/index.ts";
+import { type CommandContext, git } from "./context.ts";
+
+const HELP = `Usage: speckit tasks-to-issues [OPTIONS]
+
+Create or update one GitHub issue per user story (and per setup/polish phase)
+with one sub-issue per T### task, in the repository origin points at.
+
+OPTIONS:
+  --dry-run           Show what would be created, updated and closed; no API calls
+  --tasks <file>      tasks.md to sync (default: the current feature's)
+  --manifest <file>   Issue manifest (default: ${MANIFEST_FILE} next to tasks.md)
+  --json              Output the actions as JSON
+  --api-url <url>     GitHub REST API root to use instead of origin's (e.g. a
+                      local fake); the token is then optional
+  --help, -h          Show this help message
+
+The task order is written into the issue bodies as "Depends on: #N" lines
+only; no GitHub issue dependencies (blocked by / blocking) are created.
+
+The sync refuses to run when origin fetches and pushes to different
+repositories, when GITHUB_REPOSITORY or the manifest name another repository,
+and (outside --dry-run) when the API reports the repository renamed,
+archived or without issues.
+
+EXIT CODES:
+  0: Synced (or, with --dry-run, planned)
+  1: Refused, tasks.md or the manifest is invalid, or the API failed
+  2: Invalid arguments`;
+
+const SYMBOLS: Record<SyncAction["action"], string> = { create: "+", update: "~", close: "-", unchanged: "=" };
+
+function describe(action: SyncAction): string[] {
+  // Task titles already start with their key
+  const title = action.after.title.startsWith(`${action.key}:`) ? action.after.title : `${action.key}: ${action.after.title}`;
+  const head = `${SYMBOLS[action.action]} ${action.action.padEnd(9)} ${action.number === undefined ? "" : `#${action.number} `}${title}`;
+  if (action.action === "create") {
+    const parent = action.after.parent === undefined ? "" : ` under ${action.after.parent}`;
+    return [`${head} (${action.after.state}${parent})`];
+  }
+  if (action.action === "close") return [`${head} (removed from tasks.md)`];
+  if (action.action === "unchanged" || action.before === undefined) return [head];
+
+  const lines = [`${head} (${action.changes.join(", ")})`];
+  if (action.changes.includes("title")) lines.push(`    title: ${action.before.title} -> ${action.after.title}`);
+  if (action.changes.includes("state")) lines.push(`    state: ${action.before.removed ? "removed" : action.before.state} -> ${action.after.state}`);
+  if (action.changes.includes("parent")) {
+    const linked = action.before.linked === false ? " (not linked)" : "";
+    lines.push(`    parent: ${action.before.parent ?? "none"}${linked} -> ${action.after.parent ?? "none"}`);
+  }
+  if (action.changes.includes("body")) lines.push(...diffLines(action.before.body, action.after.body).map((line) => `    ${line}`));
+  return lines;
+}
+
+function summary(actions: SyncAction[]): Record<SyncAction["action"], number> {
+  const counts = { create: 0, update: 0, close: 0, unchanged: 0 };
+  for (const action of actions) counts[action.action]++;
+  return counts;
+}
+
+function remoteUrl(ctx: CommandContext, args: string[]): string | undefined {
+  const result = git(ctx, ["remote", "get-url", ...args, "origin"]);
+  return result.status === 0 ? result.stdout.trim() : undefined;
+}
+
+export async function tasksToIssues(argv: string[], ctx: CommandContext): Promise<number> {
+  let dryRun = false;
+  let jsonMode = false;
+  let tasksFile: string | undefined;
+  let manifestFile: string | undefined;
+  let apiUrl: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      ctx.out(HELP);
+      return 0;
+    } else if (arg === "--dry-run") {
+      dryRun = true;
+    } else if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--tasks" || arg === "--manifest") {
+      const value = argv[++i];
+      if (value === undefined || value.startsWith("--")) {
+        ctx.err(`ERROR: ${arg} requires a file`);
+        return 2;
+      }
+      if (arg === "--tasks") tasksFile = resolve(ctx.cwd, value);
+      else manifestFile = resolve(ctx.cwd, value);
+    } else if (arg === "--api-url") {
+      apiUrl = argv[++i];
+      if (apiUrl === undefined || apiUrl.startsWith("--")) {
+        ctx.err("ERROR: --api-url requires a URL");
+        return 2;
+      }
+    } else {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 2;
+    }
+  }
+
+  const paths = getFeaturePaths(ctx.cwd, ctx.env, () => {});
+  const tasksPath = tasksFile ?? paths.tasks;
+  const manifestPath = manifestFile ?? join(dirname(tasksPath), MANIFEST_FILE);
+
+  let items;
+  let previous: IssueManifest | undefined;
+  try {
+    const document = parseTasks(readFileSync(tasksPath, "utf8"), tasksPath);
+    items = syncItems(document, relative(paths.repoRoot, tasksPath));
+    previous = loadManifest(manifestPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      ctx.err(`ERROR: tasks.md not found: ${tasksPath}`);
+      ctx.err("Run /speckit.tasks first to create the task list.");
+      return 1;
+    }
+    if (!(error instanceof ArtifactParseError || error instanceof IssueManifestError)) throw error;
+    ctx.err(`ERROR: ${error instanceof IssueManifestError ? "Invalid issue manifest" : "Invalid tasks.md"}:`);
+    for (const line of error.message.split("\n")) ctx.err(`  ${line}`);
+    return 1;
+  }
+
+  const { repo, problems } = checkSyncTarget({
+    fetchUrl: remoteUrl(ctx, []),
+    pushUrl: remoteUrl(ctx, ["--push"]),
+    envRepository: ctx.env.GITHUB_REPOSITORY,
+    manifest: previous,
+  });
+  if (repo === undefined || problems.length > 0) {
+    for (const problem of problems) ctx.err(`ERROR: ${problem}`);
+    ctx.err("No issues were created or changed.");
+    return 1;
+  }
+  const manifest: IssueManifest = previous ?? { repository: repositoryKey(repo), issues: {} };
+
+  let actions: SyncAction[];
+  if (dryRun) {
+    actions = await syncIssues(items, manifest);
+  } else {
+    const token = resolveToken(ctx, repo.host);
+    if (token === undefined && apiUrl === undefined) {
+      ctx.err(`ERROR: no GitHub token for ${repo.host}; export GITHUB_TOKEN (GH_ENTERPRISE_TOKEN for Enterprise Server) or run gh auth login`);
+      return 1;
+    }
+    const client = new GitHubClient({ baseUrl: apiBaseUrl(repo.host, ctx.env, apiUrl), token });
+    try {
+      const remoteProblems = await checkRemoteRepository(client, repo);
+      if (remoteProblems.length > 0) {
+        for (const problem of remoteProblems) ctx.err(`ERROR: ${problem}`);
+        ctx.err("No issues were created or changed.");
+        return 1;
+      }
+      actions = await syncIssues(items, manifest, { client, repo, save: (current) => saveManifest(manifestPath, current) });
+    } catch (error) {
+      if (!(error instanceof GitHubApiError) && !(error instanceof TypeError)) throw error;
+      ctx.err(`ERROR: ${error.message}`);
+      ctx.err(`Issues written so far are recorded in ${relative(ctx.cwd, manifestPath)}; re-run to continue.`);
+      return 1;
+    }
+  }
+
+  if (jsonMode) {
+    ctx.out(
+      JSON.stringify({
+        repository: manifest.repository,
+        dry_run: dryRun,
+        manifest: manifestPath,
+        actions: actions.map((action) => ({ action: action.action, key: action.key, number: action.number ?? null, changes: action.changes })),
+        summary: summary(actions),
+      }),
+    );
+    return 0;
+  }
+  ctx.out(`${dryRun ? "Plan for" : "Synced"} ${relative(ctx.cwd, tasksPath) || tasksPath} -> ${manifest.repository}`);
+  for (const action of actions) for (const line of describe(action)) ctx.out(line);
+  const counts = summary(actions);
+  ctx.out(
+    `${dryRun ? "Would create" : "Created"} ${counts.create}, ${dryRun ? "update" : "updated"} ${counts.update}, ` +
+      `${dryRun ? "close" : "closed"} ${counts.close}; ${counts.unchanged} unchanged`,
+  );
+  return 0;
+}
@@ -0,0 +1,299 @@
+// `speckit update-agent-context`: port of update-agent-context.sh.
+//
+// Reads the Technical Context fields of the current plan.md (via the
+// lib/artifacts plan parser; a plan it rejects is reported as a warning and
+// its `**Field**: value` lines are read from anywhere in the file, as the bash
+// script did) and records them in each agent's context file (CLAUDE.md, AGENTS.md, ...). New files are
+// created from agent-file-template.md; existing files get new Active
+// Technologies entries, a new Recent Changes entry (keeping the two before
+// it) and a refreshed **Last updated** date, and manual additions are kept.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+
+import { ArtifactParseError } from "../artifacts/errors.ts";
+import { type Field, fieldsOf, toLines } from "../artifacts/markdown.ts";
+import { parsePlan } from "../artifacts/plan.ts";
+import { type FeaturePaths, findTemplate, getFeaturePaths, preferredTemplatePath } from "../common.ts";
+import { type CommandContext, isoDate } from "./context.ts";
+
+const HELP = `Usage: speckit update-agent-context [agent_type]
+
+Update agent context files with the technology choices in the current plan.md.
+
+Agent types: claude|gemini|copilot|cursor-agent|qwen|opencode|codex|windsurf|kilocode|auggie|roo|codebuddy|amp|q
+Leave empty to update all existing agent files (CLAUDE.md is created if none exist).`;
+
+interface AgentFile {
+  file: string;
+  name: string;
+}
+
+/** Agent type → context file relative to the repository root. */
+export const AGENT_FILES: Record<string, AgentFile> = {
+  claude: { file: "CLAUDE.md", name: "Claude Code" },
+  gemini: { file: "GEMINI.md", name: "Gemini CLI" },
+  copilot: { file: ".github/agents/copilot-instructions.md", name: "GitHub Copilot" },
+  "cursor-agent": { file: ".cursor/rules/specify-rules.mdc", name: "Cursor IDE" },
+  qwen: { file: "QWEN.md", name: "Qwen Code" },
+  opencode: { file: "AGENTS.md", name: "opencode" },
+  codex: { file: "AGENTS.md", name: "Codex CLI" },
+  windsurf: { file: ".windsurf/rules/specify-rules.md", name: "Windsurf" },
+  kilocode: { file: ".kilocode/rules/specify-rules.md", name: "Kilo Code" },
+  auggie: { file: ".augment/rules/specify-rules.md", name: "Auggie CLI" },
+  roo: { file: ".roo/rules/specify-rules.md", name: "Roo Code" },
+  codebuddy: { file: "CODEBUDDY.md", name: "CodeBuddy CLI" },
+  amp: { file: "AGENTS.md", name: "Amp" },
+  q: { file: "AGENTS.md", name: "Amazon Q Developer CLI" },
+};
+
+/** Files checked when no agent type is given; AGENTS.md is shared by several agents and updated once. */
+const EXISTING_AGENT_FILES: AgentFile[] = [
+  AGENT_FILES.claude,
+  AGENT_FILES.gemini,
+  AGENT_FILES.copilot,
+  AGENT_FILES["cursor-agent"],
+  AGENT_FILES.qwen,
+  { file: "AGENTS.md", name: "Codex/opencode" },
+  AGENT_FILES.windsurf,
+  AGENT_FILES.kilocode,
+  AGENT_FILES.auggie,
+  AGENT_FILES.roo,
+  AGENT_FILES.codebuddy,
+];
+
+/** Technical Context values from plan.md; empty when missing, N/A or NEEDS CLARIFICATION. */
+export interface PlanTechnology {
+  language: string;
+  framework: string;
+  storage: string;
+  projectType: string;
+  /** Fields left out because they still need clarification. */
+  unresolved: string[];
+}
+
+const TECHNOLOGY_FIELDS = {
+  language: "Language/Version",
+  framework: "Primary Dependencies",
+  storage: "Storage",
+  projectType: "Project Type",
+} as const;
+
+/** The technology in `fields`, normally a parsed plan's `technicalContext`. */
+export function planTechnology(fields: Record<string, Field>): PlanTechnology {
+  const tech: PlanTechnology = { language: "", framework: "", storage: "", projectType: "", unresolved: [] };
+  for (const [key, name] of Object.entries(TECHNOLOGY_FIELDS) as [keyof typeof TECHNOLOGY_FIELDS, string][]) {
+    const field = fields[name];
+    if (field === undefined || field.value === "N/A") continue;
+    if (field.needsClarification) tech.unresolved.push(name);
+    else tech[key] = field.value;
+  }
+  return tech;
+}
+
+/** `language + framework`, either part omitted when empty. */
+export function technologyStack(tech: PlanTechnology): string {
+  return [tech.language, tech.framework].filter((part) => part !== "").join(" + ");
+}
+
+function projectStructure(projectType: string): string {
+  return projectType.includes("web") ? "backend/\nfrontend/\ntests/" : "src/\ntests/";
+}
+
+function languageCommands(language: string): string {
+  if (language.includes("Python")) return "cd src && pytest && ruff check .";
+  if (language.includes("Rust")) return "cargo test && cargo clippy";
+  if (language.includes("JavaScript") || language.includes("TypeScript")) return "npm test && npm run lint";
+  return `# Add commands for ${language}`;
+}
+
+/** Fills agent-file-template.md for a repository without an agent file yet. */
+export function newAgentFile(template: string, tech: PlanTechnology, branch: string, projectName: string, date: string): string {
+  const stack = technologyStack(tech);
+  const replacements: [string, string][] = [
+    ["[PROJECT NAME]", projectName],
+    ["[DATE]", date],
+    ["[EXTRACTED FROM ALL PLAN.MD FILES]", stack !== "" ? `- ${stack} (${branch})` : `- (${branch})`],
+    ["[ACTUAL STRUCTURE FROM PLANS]", projectStructure(tech.projectType)],
+    ["[ONLY COMMANDS FOR ACTIVE TECHNOLOGIES]", languageCommands(tech.language)],
+    ["[LANGUAGE-SPECIFIC, ONLY FOR LANGUAGES IN USE]", `${tech.language}: Follow standard conventions`],
+    ["[LAST 3 FEATURES AND WHAT THEY ADDED]", stack !== "" ? `- ${branch}: Added ${stack}` : `- ${branch}: Added`],
+  ];
+  return replacements.reduce((text, [token, value]) => text.replaceAll(token, value), template);
+}
+
+/**
+ * Adds this feature to an existing agent file. Technology entries already
+ * mentioned anywhere in the file are not repeated; Recent Changes keeps the
+ * new entry and the two most recent existing ones.
+ */
+export function updateAgentFile(content: string, tech: PlanTechnology, branch: string, date: string): string {
+  const stack = technologyStack(tech);
+  const newTech: string[] = [];
+  if (stack !== "" && !content.includes(stack)) newTech.push(`- ${stack} (${branch})`);
+  if (tech.storage !== "" && !content.includes(tech.storage)) newTech.push(`- ${tech.storage} (${branch})`);
+
+  let changeEntry = "";
+  if (stack !== "") changeEntry = `- ${branch}: Added ${stack}`;
+  else if (tech.storage !== "") changeEntry = `- ${branch}: Added ${tech.storage}`;
+
+  const lines = content.replace(/\n$/, "").split("\n");
+  const hasTechSection = lines.includes("## Active Technologies");
+  const hasChangesSection = lines.includes("## Recent Changes");
+  const out: string[] = [];
+  let inTech = false;
+  let inChanges = false;
+  let techAdded = false;
+  let keptChanges = 0;
+  const addTech = () => {
+    if (!techAdded && newTech.length > 0) out.push(...newTech);
+    techAdded = true;
+  };
+
+  for (const line of lines) {
+    if (line === "## Active Technologies") {
+      out.push(line);
+      inTech = true;
+      continue;
+    }
+    if (inTech && /^##\s/.test(line)) {
+      addTech();
+      out.push(line);
+      inTech = false;
+      continue;
+    }
+    if (inTech && line === "") {
+      addTech();
+      out.push(line);
+      continue;
+    }
+
+    if (line === "## Recent Changes") {
+      out.push(line);
+      if (changeEntry !== "") out.push(changeEntry);
+      inChanges = true;
+      continue;
+    }
+    if (inChanges && /^##\s/.test(line)) {
+      out.push(line);
+      inChanges = false;
+      continue;
+    }
+    if (inChanges && line.startsWith("- ")) {
+      if (keptChanges < 2) out.push(line);
+      keptChanges++;
+      continue;
+    }
+
+    out.push(/\*\*Last updated\*\*:.*\d{4}-\d{2}-\d{2}/.test(line) ? line.replace(/\d{4}-\d{2}-\d{2}/g, date) : line);
+  }
+  if (inTech) addTech();
+
+  if (!hasTechSection && newTech.length > 0) out.push("", "## Active Technologies", ...newTech);
+  if (!hasChangesSection && changeEntry !== "") out.push("", "## Recent Changes", changeEntry);
+  return `${out.join("\n")}\n`;
+}
+
+function writeAgentFile(ctx: CommandContext, agent: AgentFile, paths: FeaturePaths, tech: PlanTechnology): boolean {
+  const { repoRoot, currentBranch: branch, layout } = paths;
+  const target = join(repoRoot, agent.file);
+  const date = isoDate(ctx.now());
+  ctx.out(`INFO: Updating ${agent.name} context file: ${target}`);
+  try {
+    mkdirSync(dirname(target), { recursive: true });
+    if (existsSync(target)) {
+      ctx.out("INFO: Updating existing agent context file...");
+      writeFileSync(target, updateAgentFile(readFileSync(target, "utf8"), tech, branch, date));
+      ctx.out(`✓ Updated existing ${agent.name} context file`);
+      return true;
+    }
+    const template = findTemplate(repoRoot, "agent-file-template.md", layout);
+    if (template === undefined) {
+      ctx.err(`ERROR: Template not found at ${preferredTemplatePath(repoRoot, "agent-file-template.md", layout)}`);
+      ctx.err("ERROR: Failed to create new agent file");
+      return false;
+    }
+    ctx.out("INFO: Creating new agent context file from template...");
+    writeFileSync(target, newAgentFile(readFileSync(template, "utf8"), tech, branch, basename(repoRoot), date));
+    ctx.out(`✓ Created new ${agent.name} context file`);
+    return true;
+  } catch (error) {
+    ctx.err(`ERROR: Failed to update ${target}: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+export function updateAgentContext(argv: string[], ctx: CommandContext): number {
+  if (argv[0] === "--help" || argv[0] === "-h") {
+    ctx.out(HELP);
+    return 0;
+  }
+  const agentType = argv[0] ?? "";
+  if (agentType !== "" && !Object.hasOwn(AGENT_FILES, agentType)) {
+    ctx.err(`ERROR: Unknown agent type '${agentType}'`);
+    ctx.err(`ERROR: Expected: ${Object.keys(AGENT_FILES).join("|")}`);
+    return 1;
+  }
+
+  const paths = getFeaturePaths(ctx.cwd, ctx.env, ctx.err);
+  if (!existsSync(paths.implPlan)) {
+    ctx.err(`ERROR: No plan.md found at ${paths.implPlan}`);
+    ctx.out("INFO: Make sure you're working on a feature with a corresponding spec directory");
+    if (!paths.hasGit) ctx.out("INFO: Use: export SPECIFY_FEATURE=your-feature-name or create a new feature first");
+    return 1;
+  }
+  if (findTemplate(paths.repoRoot, "agent-file-template.md", paths.layout) === undefined) {
+    ctx.err(`WARNING: Template file not found at ${preferredTemplatePath(paths.repoRoot, "agent-file-template.md", paths.layout)}`);
+    ctx.err("WARNING: Creating new agent files will fail");
+  }
+
+  ctx.out(`INFO: === Updating agent context files for feature ${paths.currentBranch} ===`);
+  ctx.out(`INFO: Parsing plan data from ${paths.implPlan}`);
+  const source = readFileSync(paths.implPlan, "utf8");
+  let tech: PlanTechnology;
+  try {
+    tech = planTechnology(parsePlan(source, paths.implPlan).technicalContext);
+  } catch (error) {
+    if (!(error instanceof ArtifactParseError)) throw error;
+    ctx.err("WARNING: plan.md does not follow plan-template.md; reading its fields from the whole file:");
+    for (const line of error.message.split("\n")) ctx.err(`  ${line}`);
+    tech = planTechnology(fieldsOf(toLines(source)));
+  }
+  for (const name of tech.unresolved) ctx.err(`WARNING: ${name} still needs clarification; not recorded`);
+  if (tech.language !== "") ctx.out(`INFO: Found language: ${tech.language}`);
+  else ctx.err("WARNING: No language information found in plan");
+  if (tech.framework !== "") ctx.out(`INFO: Found framework: ${tech.framework}`);
+  if (tech.storage !== "") ctx.out(`INFO: Found database: ${tech.storage}`);
+  if (tech.projectType !== "") ctx.out(`INFO: Found project type: ${tech.projectType}`);
+
+  let success = true;
+  const update = (agent: AgentFile) => {
+    if (!writeAgentFile(ctx, agent, paths, tech)) success = false;
+  };
+  if (agentType !== "") {
+    ctx.out(`INFO: Updating specific agent: ${agentType}`);
+    update(AGENT_FILES[agentType]);
+  } else {
+    ctx.out("INFO: No agent specified, updating all existing agent files...");
+    const existing = EXISTING_AGENT_FILES.filter((agent) => existsSync(join(paths.repoRoot, agent.file)));
+    if (existing.length === 0) {
+      ctx.out("INFO: No existing agent files found, creating default Claude file...");
+      update(AGENT_FILES.claude);
+    }
+    existing.forEach(update);
+  }
+
+  ctx.out("");
+  ctx.out("INFO: Summary of changes:");
+  if (tech.language !== "") ctx.out(`  - Added language: ${tech.language}`);
+  if (tech.framework !== "") ctx.out(`  - Added framework: ${tech.framework}`);
+  if (tech.storage !== "") ctx.out(`  - Added database: ${tech.storage}`);
+  ctx.out("");
+
+  if (success) {
+    ctx.out("✓ Agent context update completed successfully");
+    return 0;
+  }
+  ctx.err("ERROR: Agent context update completed with errors");
+  return 1;
+}
@@ -0,0 +1,346 @@
+// `speckit validate-env`: port of validate-env.sh.
+//
+// The checks come from .foundations/env-checks.json (see lib/gates), falling
+// back to the five checks the script hardcoded. Each check is classified as:
+//   GATE — failure blocks all progress; orchestrators MUST NOT proceed.
+//   WARN — failure degrades capability but does not block progress.
+//
+// Exit codes: 0 all passed, 1 a GATE failed (or the config is invalid),
+// 2 only WARN checks failed.
+//
+// The .specify wrapper (SPECKIT_LAYOUT=specify) runs that copy's two GATE
+// checks, TFE_TOKEN and GITHUB_TOKEN, through the same runner, so it exits
+// 0/1 only. Its JSON keeps the deprecated `valid`, `missing` and `present`
+// fields next to `gate_passed` and `checks` while callers migrate (see the
+// README's "Migrating from the .specify scripts").
+
+import { existsSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+import { getRepoRoot, layoutOf } from "../common.ts";
+import {
+  CONFIG_FILE,
+  DEFAULT_TIMEOUT,
+  type GateCheck,
+  GateConfigError,
+  type Severity,
+  type ValidationResult,
+  exitCodeFor,
+  loadGateConfig,
+  runGates,
+} from "../gates/index.ts";
+import { type CommandContext, commandExists, forward, run } from "./context.ts";
+
+/**
+ * Usage text listing the checks a run would use: `configPath`, else the
+ * repo's env-checks.json, else the built-in checks.
+ */
+function helpText(repoRoot: string, configPath: string | undefined): string {
+  const file = configPath ?? join(repoRoot, CONFIG_FILE);
+  let checksSection: string;
+  try {
+    const checks = loadGateConfig(repoRoot, configPath);
+    const source = existsSync(file) ? `The checks in ${file}:` : `There is no ${CONFIG_FILE}, so the built-in checks run:`;
+    checksSection = [source, "", ...checkList(checks, "GATE"), "", ...checkList(checks, "WARN")].join("\n");
+  } catch (error) {
+    if (!(error instanceof GateConfigError)) throw error;
+    checksSection = `${file} is invalid; run without --help to see why.`;
+  }
+
+  return `Usage: speckit validate-env [OPTIONS]
+
+Validate environment prerequisites for Terraform operations.
+
+The checks are declared in ${CONFIG_FILE} at the repository root. Each
+has a severity:
+  GATE  Failure blocks all progress. Orchestrators MUST stop.
+  WARN  Failure degrades capability. Orchestrators may proceed.
+
+${checksSection}
+
+OPTIONS:
+  --json              Output in JSON format (includes gate_passed, checks array)
+  --quiet             Suppress output (exit code only)
+  --config PATH       Read the checks from PATH instead of ${CONFIG_FILE}
+  --help, -h          Show this help message (with --config, lists PATH's checks)
+
+EXIT CODES:
+  0: All checks passed
+  1: One or more GATE checks failed — MUST stop (also: invalid config)
+  2: GATE checks passed, one or more WARN checks failed
+
+JSON OUTPUT SCHEMA:
+  {
+    "gate_passed": true|false,
+    "checks": [
+      {"name": "TFE_TOKEN", "severity": "GATE", "passed": true|false, "detail": "..."},
+      ...
+    ]
+  }
+`;
+}
+
+/** `GATE CHECKS:` and one `NAME  type (options)` line per check of that severity. */
+function checkList(checks: GateCheck[], severity: Severity): string[] {
+  const matching = checks.filter((check) => check.severity === severity);
+  if (matching.length === 0) return [`${severity} CHECKS: none`];
+  const width = Math.max(17, ...matching.map((check) => check.name.length)) + 2;
+  return [
+    `${severity} CHECKS:`,
+    ...matching.map((check) => {
+      const options = Object.entries(check.options).map(
+        ([key, value]) => `${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`,
+      );
+      const after = check.dependsOn.length > 0 ? `, after ${check.dependsOn.join(", ")}` : "";
+      return `  ${check.name.padEnd(width)}${check.type}${options.length > 0 ? ` (${options.join("; ")})` : ""}${after}`;
+    }),
+  ];
+}
+
+const SPECIFY_HELP = `Usage: validate-env.sh [OPTIONS]
+
+Validate that required environment variables are set for Terraform operations.
+
+REQUIRED ENVIRONMENT VARIABLES:
+  TFE_TOKEN          Terraform Cloud/Enterprise API token
+  GITHUB_TOKEN       GitHub Personal Access Token
+
+OPTIONS:
+  --json              Output in JSON format
+  --quiet             Suppress output (exit code only)
+  --help, -h          Show this help message
+
+JSON OUTPUT:
+  {"valid": true|false, "missing": [...], "present": [...],
+   "gate_passed": true|false, "checks": [...]}
+  valid, missing and present are deprecated: read gate_passed and checks,
+  which the .foundations copy reports too.
+
+EXAMPLES:
+  # Check required environment variables
+  ./validate-env.sh
+
+  # Check with JSON output
+  ./validate-env.sh --json
+
+  # Silent check (use exit code)
+  ./validate-env.sh --quiet && echo "OK" || echo "FAILED"
+
+EXIT CODES:
+  0: All required environment variables are set
+  1: One or more required environment variables are missing
+`;
+
+/** The .specify copy's required variables, with its Quick Setup lines. Each is a GATE check. */
+const SPECIFY_VARIABLES: { name: string; setup: string[] }[] = [
+  {
+    name: "TFE_TOKEN",
+    setup: [
+      "TFE_TOKEN (Terraform Cloud/Enterprise API token)",
+      "   Get token: https://app.terraform.io/app/settings/tokens",
+      '   export TFE_TOKEN="<your-terraform-token>"',
+    ],
+  },
+  {
+    name: "GITHUB_TOKEN",
+    setup: [
+      "GITHUB_TOKEN (GitHub Personal Access Token)",
+      "   Get token: https://github.com/settings/tokens",
+      '   export GITHUB_TOKEN="<your-github-token>"',
+    ],
+  },
+];
+
+const SPECIFY_CHECKS: GateCheck[] = SPECIFY_VARIABLES.map(({ name }) => ({
+  name,
+  type: "env",
+  severity: "GATE",
+  timeout: DEFAULT_TIMEOUT,
+  dependsOn: [],
+  options: { env: [name] },
+}));
+
+/** Runs the repo's declared checks; throws GateConfigError when the config is invalid. */
+export function validateEnvironment(ctx: CommandContext, repoRoot: string, configPath?: string): ValidationResult {
+  return runGates(loadGateConfig(repoRoot, configPath), ctx, repoRoot);
+}
+
+function printReport(result: ValidationResult, ctx: CommandContext): void {
+  const gateFailures = result.checks.filter((check) => !check.passed && check.severity === "GATE");
+  const warnFailures = result.checks.filter((check) => !check.passed && check.severity === "WARN");
+
+  ctx.out("Environment Validation");
+  ctx.out("======================");
+  ctx.out("");
+  for (const check of result.checks) {
+    ctx.out(`  [${check.severity}] ${check.name} — ${check.passed ? "Passed" : "FAILED"} — ${check.detail}`);
+  }
+  ctx.out("");
+  ctx.out("Summary");
+  ctx.out("-------");
+  if (gateFailures.length > 0) {
+    ctx.out(`BLOCKED: ${gateFailures.length} GATE check(s) failed. Cannot proceed.`);
+    ctx.out("");
+    ctx.out("Quick Setup:");
+    gateFailures.forEach((check, i) => ctx.out(`  ${i + 1}. ${check.name}: ${check.detail}`));
+    ctx.out("");
+    ctx.out("For permanent setup, add exports to your ~/.bashrc or ~/.zshrc");
+  } else if (warnFailures.length > 0) {
+    ctx.out(`PASSED (with warnings): All GATE checks passed. ${warnFailures.length} WARN check(s) failed.`);
+  } else {
+    ctx.out("ALL PASSED: Environment is fully configured.");
+  }
+}
+
+/** Runs `tflint --init` and `pre-commit install` where available; failures do not change the exit code. */
+function initializeTools(ctx: CommandContext): void {
+  ctx.out("");
+  ctx.out("Tool Initialization");
+  ctx.out("===================");
+  ctx.out("");
+  if (commandExists(ctx, "tflint")) {
+    ctx.out("Initializing TFLint...");
+    const init = run(ctx, "tflint", ["--init"]);
+    forward(init.stdout, ctx.out);
+    forward(init.stderr, ctx.err);
+    if (init.status !== 0) ctx.out("WARNING: TFLint initialization failed, but continuing...");
+    ctx.out("");
+  }
+  if (commandExists(ctx, "pre-commit")) {
+    ctx.out("Installing pre-commit hooks...");
+    const install = run(ctx, "pre-commit", ["install"]);
+    forward(install.stdout, ctx.out);
+    forward(install.stderr, ctx.err);
+  }
+  ctx.out("");
+}
+
+/** The .specify copy of validate-env.sh: its required variables as GATE checks, so exit 0 or 1. */
+function validateSpecifyEnv(argv: string[], ctx: CommandContext): number {
+  let jsonMode = false;
+  let quietMode = false;
+  for (const arg of argv) {
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--quiet") {
+      quietMode = true;
+    } else if (arg === "--help" || arg === "-h") {
+      ctx.out(SPECIFY_HELP);
+      return 0;
+    } else {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    }
+  }
+
+  const result = runGates(SPECIFY_CHECKS, ctx, getRepoRoot(ctx.cwd));
+  const exitCode = exitCodeFor(result);
+  const missing = SPECIFY_VARIABLES.filter((variable) => result.checks.some((check) => check.name === variable.name && !check.passed));
+  if (quietMode) return exitCode;
+  if (jsonMode) {
+    const present = result.checks.filter((check) => check.passed).map((check) => check.name);
+    ctx.out(JSON.stringify({ valid: result.gate_passed, missing: missing.map((v) => v.name), present, ...result }));
+    return exitCode;
+  }
+
+  ctx.out("Environment Validation");
+  ctx.out("======================");
+  ctx.out("");
+  for (const check of result.checks) {
+    ctx.out(`${check.name} - ${check.passed ? "Passed - SET" : "Failed - NOT SET"}`);
+  }
+  ctx.out("");
+  ctx.out("Summary");
+  ctx.out("-------");
+  if (exitCode === 0) {
+    ctx.out("✓ All required environment variables are set");
+    ctx.out("");
+    ctx.out("You're ready to proceed with Terraform operations!");
+  } else {
+    ctx.out(`✗ Missing ${missing.length} required environment variable(s)`);
+    ctx.out("");
+    ctx.out("Quick Setup:");
+    missing.forEach((variable, i) => {
+      ctx.out(`  ${i + 1}. ${variable.setup[0]}`);
+      for (const line of variable.setup.slice(1)) ctx.out(`  ${line}`);
+      ctx.out("");
+    });
+    ctx.out("");
+    ctx.out("For permanent setup, add these exports to your ~/.bashrc or ~/.zshrc");
+  }
+
+  // This copy initializes the tools whatever the result
+  ctx.out("");
+  ctx.out("Tool Initialization");
+  ctx.out("===================");
+  ctx.out("");
+  ctx.out("Initializing TFLint...");
+  const init = run(ctx, "tflint", ["--init"]);
+  forward(init.stdout, ctx.out);
+  forward(init.stderr, ctx.err);
+  if (init.status !== 0) ctx.out("WARNING: TFLint initialization failed, but continuing...");
+  ctx.out("");
+  if (commandExists(ctx, "pre-commit")) {
+    ctx.out("Installing pre-commit hooks...");
+    const install = run(ctx, "pre-commit", ["install"]);
+    forward(install.stdout, ctx.out);
+    forward(install.stderr, ctx.err);
+  } else {
+    ctx.out("Pre-commit not available - skipping (this is optional)");
+  }
+  ctx.out("");
+  return exitCode;
+}
+
+export function validateEnv(argv: string[], ctx: CommandContext): number {
+  if (layoutOf(ctx.env) === "specify") return validateSpecifyEnv(argv, ctx);
+  let jsonMode = false;
+  let quietMode = false;
+  let configPath: string | undefined;
+  let help = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json") {
+      jsonMode = true;
+    } else if (arg === "--quiet") {
+      quietMode = true;
+    } else if (arg === "--config") {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith("--")) {
+        ctx.err("ERROR: --config requires a path");
+        return 1;
+      }
+      configPath = resolve(ctx.cwd, value);
+      i++;
+    } else if (arg === "--help" || arg === "-h") {
+      help = true;
+    } else {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage information.`);
+      return 1;
+    }
+  }
+
+  const repoRoot = getRepoRoot(ctx.cwd);
+  if (help) {
+    ctx.out(helpText(repoRoot, configPath));
+    return 0;
+  }
+  let result: ValidationResult;
+  try {
+    result = validateEnvironment(ctx, repoRoot, configPath);
+  } catch (error) {
+    if (!(error instanceof GateConfigError)) throw error;
+    ctx.err("ERROR: Invalid environment check config:");
+    for (const line of error.message.split("\n")) ctx.err(`  ${line}`);
+    return 1;
+  }
+  const exitCode = exitCodeFor(result);
+  if (quietMode) return exitCode;
+  if (jsonMode) {
+    ctx.out(JSON.stringify(result));
+    return exitCode;
+  }
+  printReport(result, ctx);
+  if (exitCode !== 1) initializeTools(ctx);
+  return exitCode;
+}
@@ -0,0 +1,410 @@
+// `speckit workflow`: the per-feature workflow state machine (lib/workflow).
+//
+// Records which phase of specify → clarify → plan → tasks → analyze →
+// implement → report has started, finished or failed in
+// specs/NNN-*/workflow-state.json, refuses out-of-order starts, and names
+// checkpoint commits so an interrupted run can resume or roll back.
+// Exit codes: 0 done, 1 transition refused or git failed, 2 invalid arguments.
+
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { basename, relative, resolve } from "node:path";
+
+import { type FeaturePaths, checkFeatureBranch, getCurrentBranch, getFeaturePaths } from "../common.ts";
+import {
+  type Checkpoint,
+  type NextAction,
+  PHASES,
+  PHASE_DEFINITIONS,
+  type Phase,
+  STATE_FILE,
+  WorkflowError,
+  type WorkflowState,
+  WorkflowStateError,
+  completePhase,
+  failPhase,
+  findCheckpoint,
+  isPhase,
+  loadState,
+  nextAction,
+  phaseForStep,
+  recordCheckpoint,
+  rollbackTo,
+  saveState,
+  skipPhase,
+  startPhase,
+  statePath,
+} from "../workflow/index.ts";
+import { type CheckpointResult, checkpoint, featureName } from "./checkpoint-commit.ts";
+import { type CommandContext, forward, git } from "./context.ts";
+
+const HELP = `Usage: speckit workflow SUBCOMMAND [ARGS] [--json]
+
+Track the workflow phases of the current feature in
+specs/NNN-*/${STATE_FILE}.
+
+PHASES (in order; * optional):
+${PHASES.map((phase) => `  ${`${phase}${PHASE_DEFINITIONS[phase].optional ? " *" : ""}`.padEnd(12)}${PHASE_DEFINITIONS[phase].command}`).join("\n")}
+
+SUBCOMMANDS:
+  status                 Show every phase, the checkpoints and what comes next
+  resume                 Show only what comes next (the phase to resume, retry or start)
+  start <phase>          Mark a phase in progress; earlier required phases must be
+                         complete and its check-prerequisites preconditions must hold.
+                         Re-starting a finished phase resets the phases after it.
+  complete <phase>       Mark a phase complete, recording its artifacts and HEAD
+    [--commit]           Checkpoint-commit the phase (step name = phase) first
+  fail <phase> [reason]  Mark a phase failed
+  skip <phase>           Skip an optional phase
+  checkpoint <step>      Commit and push like checkpoint-commit and record the step
+    [--phase <phase>]    Phase the step belongs to (default: the phase in progress)
+    [--dir <path>]       Directory to stage (default: specs/)
+    [--prefix <type>]    Commit type prefix (default: docs)
+  rollback <step>        Restore the paths checkpoint <step> staged to its commit,
+                         reset the state to that point and commit and push both
+    [--prefix <type>]    Commit type prefix (default: docs)
+    [--force]            Discard uncommitted changes in those paths
+
+OPTIONS:
+  --json                 Output the result as JSON
+  --help, -h             Show this help message
+
+EXIT CODES:
+  0: Success
+  1: Transition refused, invalid state file or git operation failed
+  2: Invalid arguments`;
+
+const SUBCOMMANDS = ["status", "resume", "start", "complete", "fail", "skip", "checkpoint", "rollback"];
+const PHASE_SUBCOMMANDS = ["start", "complete", "fail", "skip"];
+const STEP_SUBCOMMANDS = ["checkpoint", "rollback"];
+
+interface Options {
+  json: boolean;
+  commit: boolean;
+  force: boolean;
+  phase?: string;
+  dir: string;
+  prefix: string;
+  args: string[];
+}
+
+function parseOptions(argv: string[], ctx: CommandContext): Options | undefined {
+  const options: Options = { json: false, commit: false, force: false, dir: "specs/", prefix: "docs", args: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--phase" || arg === "--dir" || arg === "--prefix") {
+      const value = argv[++i];
+      if (value === undefined) {
+        ctx.err(`ERROR: ${arg} requires a value. Use --help for usage.`);
+        return undefined;
+      }
+      if (arg === "--phase") options.phase = value;
+      else if (arg === "--dir") options.dir = value;
+      else options.prefix = value;
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--commit") {
+      options.commit = true;
+    } else if (arg === "--force") {
+      options.force = true;
+    } else if (arg.startsWith("-")) {
+      ctx.err(`ERROR: Unknown option '${arg}'. Use --help for usage.`);
+      return undefined;
+    } else {
+      options.args.push(arg);
+    }
+  }
+  return options;
+}
+
+function shortCommit(checkpoint: Checkpoint): string {
+  return checkpoint.commit?.slice(0, 7) ?? "(commit not recorded)";
+}
+
+function describeNext(next: NextAction, state: WorkflowState): string {
+  if (next.action === "done" || next.phase === undefined) return "done — every phase is complete";
+  const { command, optional } = PHASE_DEFINITIONS[next.phase];
+  switch (next.action) {
+    case "resume":
+      return next.checkpoint === undefined
+        ? `resume ${next.phase} (${command}) from the start`
+        : `resume ${next.phase} (${command}) after checkpoint ${next.checkpoint.step} (${shortCommit(next.checkpoint)})`;
+    case "retry":
+      return `retry ${next.phase} (${command}): ${state.phases[next.phase].error ?? "failed"}`;
+    default:
+      return `start ${next.phase} (${command})${optional ? ", or skip it" : ""}`;
+  }
+}
+
+function printStatus(state: WorkflowState, ctx: CommandContext): void {
+  ctx.out(`Feature: ${state.feature}`);
+  ctx.out("");
+  for (const phase of PHASES) {
+    const record = state.phases[phase];
+    const columns = [`  ${phase.padEnd(10)}`, record.status.padEnd(12)];
+    if (record.finished_at ?? record.started_at) columns.push(record.finished_at ?? record.started_at ?? "");
+    if (record.commit) columns.push(record.commit.slice(0, 7));
+    if (record.artifacts?.length) columns.push(`${record.artifacts.length} artifact(s)`);
+    if (record.error) columns.push(`— ${record.error}`);
+    ctx.out(columns.join("  ").trimEnd());
+  }
+  if (state.checkpoints.length > 0) {
+    ctx.out("");
+    ctx.out("Checkpoints:");
+    for (const item of state.checkpoints) ctx.out(`  ${item.step} (${item.phase}) ${shortCommit(item)} ${item.created_at}`);
+  }
+  ctx.out("");
+  ctx.out(`Next: ${describeNext(nextAction(state), state)}`);
+}
+
+function head(ctx: CommandContext): string | undefined {
+  const result = git(ctx, ["rev-parse", "HEAD"]);
+  return result.status === 0 ? result.stdout.trim() : undefined;
+}
+
+function requirePhase(value: string | undefined, ctx: CommandContext): Phase | undefined {
+  if (value !== undefined && isPhase(value)) return value;
+  ctx.err(value === undefined ? "ERROR: phase is required." : `ERROR: Unknown phase '${value}'.`);
+  ctx.err(`Phases: ${PHASES.join(", ")}`);
+  return undefined;
+}
+
+/** Restores the tracked files under the repo-relative `staged` paths, except workflow state files, from `commit`. */
+function restoreCheckpoint(ctx: CommandContext, paths: FeaturePaths, commit: string, staged: string[], force: boolean): boolean {
+  const rootCtx: CommandContext = { ...ctx, cwd: paths.repoRoot };
+  const pathspec = ["--", ...staged, `:(exclude,glob)**/${STATE_FILE}`];
+  const dirty = git(rootCtx, ["status", "--porcelain", ...pathspec]);
+  if (dirty.stdout.trim() !== "" && !force) {
+    throw new WorkflowError(
+      `Uncommitted changes in ${staged.join(", ")}`,
+      "Record them with 'speckit workflow checkpoint <step>' or pass --force to discard them.",
+    );
+  }
+  const restore = git(rootCtx, ["restore", `--source=${commit}`, "--staged", "--worktree", ...pathspec]);
+  forward(restore.stderr, ctx.err);
+  return restore.status === 0;
+}
+
+/**
+ * Commits the restored `staged` paths and the rolled-back state file, and
+ * only those, like a checkpoint: `<prefix>(<feature>): roll back to <step>`.
+ */
+function commitRollback(ctx: CommandContext, options: Options, paths: FeaturePaths, step: string, staged: string[]): CheckpointResult {
+  const rootCtx: CommandContext = { ...ctx, cwd: paths.repoRoot };
+  const message = `${options.prefix}(${featureName(getCurrentBranch(ctx.cwd, ctx.env))}): roll back to ${step}`;
+  const pathspec = ["--", ...staged, relative(paths.repoRoot, statePath(paths.featureDir))];
+  const runGit = (args: string[]): boolean => {
+    const result = git(rootCtx, args);
+    if (!options.json) {
+      forward(result.stdout, ctx.err);
+      forward(result.stderr, ctx.err);
+    }
+    return result.status === 0;
+  };
+  if (!runGit(["add", ...pathspec])) return { committed: false, pushed: false, reason: "add_failed", message };
+  if (git(rootCtx, ["diff", "--cached", "--quiet", ...pathspec]).status === 0) {
+    return { committed: false, pushed: false, reason: "nothing_to_commit", message: "" };
+  }
+  if (!runGit(["commit", "-m", message, ...pathspec])) return { committed: false, pushed: false, reason: "commit_failed", message };
+  if (!runGit(["push"])) return { committed: true, pushed: false, reason: "push_failed", message };
+  return { committed: true, pushed: true, reason: "success", message };
+}
+
+/**
+ * Records checkpoint `step` and commits it together with the state file, so
+ * the commit carries the state it describes. The commit SHA is filled in
+ * afterwards; if nothing was committed, the state file is put back as it was.
+ */
+function commitCheckpoint(
+  ctx: CommandContext,
+  options: Options,
+  state: WorkflowState,
+  paths: FeaturePaths,
+  step: string,
+  phase: Phase,
+): { result: CheckpointResult; commit?: string } {
+  const staged = relative(paths.repoRoot, resolve(ctx.cwd, options.dir)) || ".";
+  const file = statePath(paths.featureDir);
+  const previous = existsSync(file) ? readFileSync(file, "utf8") : undefined;
+  const item = recordCheckpoint(state, step, phase, [staged], ctx.now());
+  saveState(paths.featureDir, state);
+  const result = checkpoint(ctx, step, options.dir, options.prefix, options.json, [file]);
+  const commit = result.committed ? head(ctx) : undefined;
+  if (commit === undefined) {
+    if (previous === undefined) rmSync(file);
+    else writeFileSync(file, previous);
+    return { result };
+  }
+  item.commit = commit;
+  const record = state.phases[phase];
+  if (record.status === "complete" && record.commit === undefined) record.commit = commit;
+  saveState(paths.featureDir, state);
+  return { result, commit };
+}
+
+function runSubcommand(name: string, options: Options, state: WorkflowState, paths: FeaturePaths, ctx: CommandContext): number {
+  const emit = (result: object, text: string[]) => {
+    if (options.json) ctx.out(JSON.stringify(result));
+    else for (const line of text) ctx.out(line);
+  };
+  const [first = "", ...rest] = options.args;
+
+  switch (name) {
+    case "status": {
+      const next = nextAction(state);
+      if (options.json) ctx.out(JSON.stringify({ ...state, next }));
+      else printStatus(state, ctx);
+      return 0;
+    }
+    case "resume": {
+      const next = nextAction(state);
+      emit(next, [`Next: ${describeNext(next, state)}`]);
+      return 0;
+    }
+    case "start": {
+      const phase = first as Phase;
+      const reset = startPhase(state, phase, paths, ctx.now());
+      saveState(paths.featureDir, state);
+      emit({ phase, ...state.phases[phase], reset }, [
+        `Started ${phase} (${PHASE_DEFINITIONS[phase].command})`,
+        ...(reset.length > 0 ? [`Reset to pending: ${reset.join(", ")}`] : []),
+      ]);
+      return 0;
+    }
+    case "complete": {
+      const phase = first as Phase;
+      if (options.commit) {
+        completePhase(state, phase, paths, undefined, ctx.now());
+        const { result, commit } = commitCheckpoint(ctx, options, state, paths, phase, phase);
+        if (commit === undefined) {
+          ctx.err(`ERROR: checkpoint commit failed (${result.reason}); ${phase} is still in progress.`);
+          return 1;
+        }
+        const record = state.phases[phase];
+        emit({ phase, ...record }, [
+          `Completed ${phase} at ${commit.slice(0, 7)}: ${record.artifacts?.join(", ") || "no artifacts"}`,
+          ...(result.reason === "push_failed" ? ["WARNING: git push failed; the commit exists locally only."] : []),
+        ]);
+        return result.reason === "push_failed" ? 1 : 0;
+      }
+      const commit = head(ctx);
+      if (commit === undefined) {
+        ctx.err("ERROR: Cannot read HEAD; commit the phase's artifacts first.");
+        return 1;
+      }
+      const record = completePhase(state, phase, paths, commit, ctx.now());
+      saveState(paths.featureDir, state);
+      emit({ phase, ...record }, [`Completed ${phase} at ${commit.slice(0, 7)}: ${record.artifacts?.join(", ") || "no artifacts"}`]);
+      return 0;
+    }
+    case "fail": {
+      const phase = first as Phase;
+      failPhase(state, phase, rest.join(" ") || "failed", ctx.now());
+      saveState(paths.featureDir, state);
+      emit({ phase, ...state.phases[phase] }, [`Marked ${phase} failed`]);
+      return 0;
+    }
+    case "skip": {
+      const phase = first as Phase;
+      skipPhase(state, phase, ctx.now());
+      saveState(paths.featureDir, state);
+      emit({ phase, ...state.phases[phase] }, [`Skipped ${phase}`]);
+      return 0;
+    }
+    case "checkpoint": {
+      const phase =
+        (options.phase as Phase | undefined) ??
+        PHASES.find((candidate) => state.phases[candidate].status === "in_progress") ??
+        phaseForStep(first);
+      if (phase === undefined) {
+        ctx.err(`ERROR: No phase is in progress and '${first}' is not a known step name. Pass --phase.`);
+        return 2;
+      }
+      const { result, commit } = commitCheckpoint(ctx, options, state, paths, first, phase);
+      const exitCode = result.reason === "success" || result.reason === "nothing_to_commit" ? 0 : 1;
+      emit({ ...result, step: first, phase, commit: commit ?? null }, [
+        commit === undefined ? `ERROR: checkpoint ${first} failed (${result.reason}).` : `Checkpoint ${first} (${phase}) at ${commit.slice(0, 7)}`,
+        ...(result.reason === "push_failed" ? ["WARNING: git push failed; the commit exists locally only."] : []),
+      ]);
+      return exitCode;
+    }
+    case "rollback": {
+      const target = findCheckpoint(state, first);
+      // rollbackTo reports an unknown step or a checkpoint without a commit.
+      if (target?.commit !== undefined && !restoreCheckpoint(ctx, paths, target.commit, target.paths, options.force)) {
+        ctx.err(`ERROR: git restore from ${target.commit.slice(0, 7)} failed.`);
+        return 1;
+      }
+      const restored = rollbackTo(state, first);
+      saveState(paths.featureDir, state);
+      const result = commitRollback(ctx, options, paths, first, restored.paths);
+      const commit = result.committed ? head(ctx) : undefined;
+      const exitCode = result.reason === "success" || result.reason === "nothing_to_commit" ? 0 : 1;
+      const next = nextAction(state);
+      emit({ checkpoint: restored, ...result, commit: commit ?? null, next }, [
+        exitCode === 1 && commit === undefined
+          ? `ERROR: rollback commit failed (${result.reason}); the restored files are left uncommitted.`
+          : `Rolled back to ${restored.step} (${restored.phase}) at ${shortCommit(restored)}${commit === undefined ? "" : `, committed as ${commit.slice(0, 7)}`}`,
+        ...(result.reason === "push_failed" ? ["WARNING: git push failed; the commit exists locally only."] : []),
+        `Next: ${describeNext(next, state)}`,
+      ]);
+      return exitCode;
+    }
+  }
+  return 2;
+}
+
+export function workflow(argv: string[], ctx: CommandContext): number {
+  const [name, ...rest] = argv;
+  if (name === "--help" || name === "-h") {
+    ctx.out(HELP);
+    return 0;
+  }
+  if (name === undefined) {
+    ctx.err("ERROR: subcommand is required. Use --help for usage.");
+    return 2;
+  }
+  if (!SUBCOMMANDS.includes(name)) {
+    ctx.err(`ERROR: Unknown subcommand '${name}'. Use --help for usage.`);
+    return 2;
+  }
+  if (rest.includes("--help") || rest.includes("-h")) {
+    ctx.out(HELP);
+    return 0;
+  }
+  const options = parseOptions(rest, ctx);
+  if (options === undefined) return 2;
+  if (PHASE_SUBCOMMANDS.includes(name) && requirePhase(options.args[0], ctx) === undefined) return 2;
+  if (options.phase !== undefined && requirePhase(options.phase, ctx) === undefined) return 2;
+  if (STEP_SUBCOMMANDS.includes(name) && options.args[0] === undefined) {
+    ctx.err("ERROR: step_name is required. Use --help for usage.");
+    return 2;
+  }
+
+  const paths = getFeaturePaths(ctx.cwd, ctx.env, ctx.err);
+  const branchError = checkFeatureBranch(paths.currentBranch, paths.hasGit, ctx.err);
+  if (branchError !== undefined) {
+    ctx.err(`ERROR: ${branchError}`);
+    return 1;
+  }
+  if (!existsSync(paths.featureDir) && name !== "status" && name !== "resume") {
+    ctx.err(`ERROR: Feature directory not found: ${paths.featureDir}`);
+    ctx.err("Run 'speckit create-new-feature' first to create the feature structure.");
+    return 1;
+  }
+  try {
+    const state = loadState(paths.featureDir, basename(paths.featureDir));
+    return runSubcommand(name, options, state, paths, ctx);
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      ctx.err(`ERROR: ${error.message}`);
+      ctx.err(error.hint);
+      return 1;
+    }
+    if (error instanceof WorkflowStateError) {
+      ctx.err("ERROR: Invalid workflow state file:");
+      for (const line of error.message.split("\n")) ctx.err(`  ${line}`);
+      return 1;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+// Data for checklist-template.md. The template has no `{{}}` slots: its
+// header uses `[BRACKET]` slots and its categories are sample items that must
+// not survive generation. The sample section is replaced with generated
+// categories whose CHK### IDs increment across the whole checklist, as
+// speckit.checklist.agent.md requires.
+
+import { toLines } from "../artifacts/markdown.ts";
+import { type Template, parseTemplate, renderTemplate } from "./engine.ts";
+
+export interface ChecklistItem {
+  text: string;
+  checked?: boolean;
+}
+
+export interface ChecklistCategory {
+  name: string;
+  items: ChecklistItem[];
+}
+
+export interface ChecklistData {
+  checklistType: string;
+  featureName: string;
+  purpose: string;
+  created: string;
+  /** Link to spec.md or other feature documentation. */
+  featureLink: string;
+  categories: ChecklistCategory[];
+}
+
+const ITEMS_SLOT = "CHECKLIST_ITEMS";
+const SAMPLE_NOTE = /SAMPLE ITEMS/;
+
+/** Formats categories as `## Name` sections of `- [ ] CHK###` items. */
+export function formatChecklistItems(categories: ChecklistCategory[]): string {
+  let next = 1;
+  return categories
+    .map((category) =>
+      [
+        `## ${category.name}`,
+        "",
+        ...category.items.map((item) => `- [${item.checked ? "x" : " "}] CHK${String(next++).padStart(3, "0")} ${item.text}`),
+      ].join("\n"),
+    )
+    .join("\n\n");
+}
+
+/**
+ * Drops the sample-items comment and replaces everything from the first
+ * category heading up to `## Notes` with a single generated-items slot.
+ */
+function withItemsSlot(template: Template): Template {
+  const source = template.lines
+    .map((line) => line.raw)
+    .join("\n")
+    .replace(/<!--[\s\S]*?-->\n*/g, (comment) => (SAMPLE_NOTE.test(comment) ? "" : comment));
+
+  const out: string[] = [];
+  let skipping = false;
+  let slotted = false;
+  for (const line of toLines(source)) {
+    if (line.kind === "text" && /^##\s/.test(line.text)) {
+      if (/^##\s+Notes\s*$/.test(line.text)) {
+        skipping = false;
+      } else if (!slotted) {
+        out.push(`{{${ITEMS_SLOT}}}`, "");
+        slotted = skipping = true;
+      }
+    }
+    if (!skipping) out.push(line.raw);
+  }
+  return parseTemplate(out.join("\n") + (template.trailingNewline ? "\n" : ""), template.file);
+}
+
+export function renderChecklist(template: Template, data: ChecklistData): string {
+  return renderTemplate(
+    withItemsSlot(template),
+    {
+      values: {
+        "[CHECKLIST TYPE]": data.checklistType,
+        "[FEATURE NAME]": data.featureName,
+        "[Brief description of what this checklist covers]": data.purpose,
+        "[DATE]": data.created,
+        "[Link to spec.md or relevant documentation]": data.featureLink,
+        [ITEMS_SLOT]: formatChecklistItems(data.categories),
+      },
+    },
+    { brackets: true },
+  );
+}
@@ -0,0 +1,195 @@
+// Data and derived values for code-quality-evaluation-report.md.
+//
+// The judge supplies per-dimension scores and narrative; weighted scores, the
+// overall score and the readiness badge are computed here with the weights in
+// DIMENSION_WEIGHTS.code (25/30/15/10/10/10) and the security override from
+// code-quality-judge.agent.md (security below 5.0 forces Not Production Ready).
+
+import { DIMENSION_WEIGHTS, readinessFor } from "../evaluations/schema.ts";
+import { type Template, type TemplateValues, renderTemplate } from "./engine.ts";
+
+export type CodeDimension = "modules" | "security" | "quality" | "variables" | "testing" | "constitution";
+
+/** DIM1..DIM6 in template order. */
+export const CODE_DIMENSIONS = Object.keys(DIMENSION_WEIGHTS.code) as CodeDimension[];
+
+/** Security scores below this force `not_production_ready` regardless of the overall score. */
+export const SECURITY_OVERRIDE_SCORE = 5.0;
+
+const READINESS_BADGES: Record<string, string> = {
+  production_ready: "✅ **Production Ready**",
+  minor_fixes_required: "⚠️ **Minor Fixes Required**",
+  significant_rework: "⚠️ **Significant Rework Needed**",
+  not_production_ready: "❌ **Not Production Ready**",
+};
+
+export const IMPROVEMENT_PRIORITIES = ["P0", "P1", "P2", "P3"] as const;
+export type ImprovementPriority = (typeof IMPROVEMENT_PRIORITIES)[number];
+
+export const CONSTITUTION_STATUSES = ["pass", "partial", "fail", "n/a"] as const;
+export type ConstitutionStatus = (typeof CONSTITUTION_STATUSES)[number];
+
+const CONSTITUTION_LABELS: Record<ConstitutionStatus, string> = {
+  pass: "✅ Pass",
+  partial: "⚠️ Partial",
+  fail: "❌ Fail",
+  "n/a": "N/A",
+};
+
+export interface DimensionAnalysis {
+  /** 1-10, one decimal. */
+  score: number;
+  strengths: string;
+  issues: string;
+  recommendations: string;
+}
+
+export interface ToolResult {
+  status: string;
+  count: number;
+  details: string;
+}
+
+export interface ConstitutionCheck {
+  status: ConstitutionStatus;
+  evidence: string;
+  notes: string;
+}
+
+export interface CodeQualityReportData {
+  featureName: string;
+  timestamp: string;
+  modelVersion: string;
+  fileCount: number;
+  locCount: number;
+  strengths: [string, string, string];
+  improvements: [
+    { priority: ImprovementPriority; issue: string },
+    { priority: ImprovementPriority; issue: string },
+    { priority: ImprovementPriority; issue: string },
+  ];
+  dimensions: Record<CodeDimension, DimensionAnalysis>;
+  security: { p0: string; p1: string; p2: string; recommendation: string };
+  tools: { validate: ToolResult; tflint: ToolResult; trivy: ToolResult };
+  fileByFileAnalysis: string;
+  roadmap: Record<ImprovementPriority, string>;
+  /** One entry per Constitution Compliance row, in template order. */
+  constitution: ConstitutionCheck[];
+  constitutionViolations: string;
+  nextSteps: string;
+  refinementOptions: string;
+  evalDurationSeconds: number;
+  tokenCount: number;
+  iteration: number;
+  tfVersion: string;
+  codeExamples: string;
+  generatedAt: string;
+  evalId: string;
+  featureDir: string;
+}
+
+export interface CodeQualityScore {
+  /** Score times weight, rounded to two decimals as shown in the Score Breakdown. */
+  weighted: Record<CodeDimension, number>;
+  /** Sum of the rounded weighted scores, so the table column adds up. */
+  overallWeighted: number;
+  /** overallWeighted rounded to one decimal; the readiness band is chosen from this. */
+  overall: number;
+  /** Readiness value for the code-reviews.jsonl history record. */
+  readiness: string;
+  securityOverride: boolean;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/** Weighted and overall scores; the readiness value agrees with the rendered badge. */
+export function scoreCodeQuality(scores: Record<CodeDimension, number>): CodeQualityScore {
+  const weighted = {} as Record<CodeDimension, number>;
+  let total = 0;
+  for (const dimension of CODE_DIMENSIONS) {
+    weighted[dimension] = round(scores[dimension] * DIMENSION_WEIGHTS.code[dimension], 2);
+    total += weighted[dimension];
+  }
+  const overallWeighted = round(total, 2);
+  const overall = round(overallWeighted, 1);
+  const securityOverride = scores.security < SECURITY_OVERRIDE_SCORE;
+  return {
+    weighted,
+    overallWeighted,
+    overall,
+    readiness: securityOverride ? "not_production_ready" : readinessFor("code", overall),
+    securityOverride,
+  };
+}
+
+export function codeQualityValues(data: CodeQualityReportData): TemplateValues {
+  const scores = Object.fromEntries(
+    CODE_DIMENSIONS.map((dimension) => [dimension, data.dimensions[dimension].score]),
+  ) as Record<CodeDimension, number>;
+  const score = scoreCodeQuality(scores);
+  const applicable = data.constitution.filter((check) => check.status !== "n/a");
+  const passed = applicable.filter((check) => check.status === "pass").length;
+
+  const values: TemplateValues = {
+    FEATURE_NAME: data.featureName,
+    TIMESTAMP: data.timestamp,
+    MODEL_VERSION: data.modelVersion,
+    FILE_COUNT: data.fileCount,
+    LOC_COUNT: data.locCount,
+    OVERALL_SCORE: score.overall.toFixed(1),
+    OVERALL_WEIGHTED: score.overallWeighted.toFixed(2),
+    READINESS_BADGE: READINESS_BADGES[score.readiness],
+    SECURITY_P0_FINDINGS: data.security.p0,
+    SECURITY_P1_FINDINGS: data.security.p1,
+    SECURITY_P2_FINDINGS: data.security.p2,
+    SECURITY_RECOMMENDATION: data.security.recommendation,
+    FILE_BY_FILE_ANALYSIS: data.fileByFileAnalysis,
+    CONSTITUTION_PERCENTAGE: applicable.length === 0 ? undefined : Math.round((passed / applicable.length) * 100),
+    CONST_PASS: passed,
+    CONST_TOTAL: applicable.length,
+    CONSTITUTION_VIOLATIONS: data.constitutionViolations,
+    NEXT_STEPS_CONTENT: data.nextSteps,
+    REFINEMENT_OPTIONS: data.refinementOptions,
+    EVAL_DURATION: data.evalDurationSeconds,
+    TOKEN_COUNT: data.tokenCount,
+    ITERATION_NUMBER: data.iteration,
+    TF_VERSION: data.tfVersion,
+    CODE_EXAMPLES_APPENDIX: data.codeExamples,
+    GENERATION_TIMESTAMP: data.generatedAt,
+    EVAL_ID: data.evalId,
+    FEATURE_DIR: data.featureDir,
+  };
+
+  data.strengths.forEach((strength, i) => (values[`STRENGTH_${i + 1}`] = strength));
+  data.improvements.forEach((improvement, i) => {
+    values[`PRIORITY_${i + 1}`] = improvement.priority;
+    values[`ISSUE_${i + 1}`] = improvement.issue;
+  });
+  CODE_DIMENSIONS.forEach((dimension, i) => {
+    const analysis = data.dimensions[dimension];
+    values[`DIM${i + 1}_SCORE`] = analysis.score.toFixed(1);
+    values[`DIM${i + 1}_WEIGHTED`] = score.weighted[dimension].toFixed(2);
+    values[`DIM${i + 1}_STRENGTHS`] = analysis.strengths;
+    values[`DIM${i + 1}_ISSUES`] = analysis.issues;
+    values[`DIM${i + 1}_RECOMMENDATIONS`] = analysis.recommendations;
+  });
+  for (const [tool, prefix] of [["validate", "VALIDATE"], ["tflint", "TFLINT"], ["trivy", "TRIVY"]] as const) {
+    values[`${prefix}_STATUS`] = data.tools[tool].status;
+    values[`${prefix}_COUNT`] = data.tools[tool].count;
+    values[`${prefix}_DETAILS`] = data.tools[tool].details;
+  }
+  for (const priority of IMPROVEMENT_PRIORITIES) values[`ROADMAP_${priority}`] = data.roadmap[priority];
+  data.constitution.forEach((check, i) => {
+    values[`CONST_${i + 1}_STATUS`] = CONSTITUTION_LABELS[check.status];
+    values[`CONST_${i + 1}_EVIDENCE`] = check.evidence;
+    values[`CONST_${i + 1}_NOTES`] = check.notes;
+  });
+  return values;
+}
+
+export function renderCodeQualityReport(template: Template, data: CodeQualityReportData): string {
+  return renderTemplate(template, { values: codeQualityValues(data) });
+}
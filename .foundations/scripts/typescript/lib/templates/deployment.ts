@@ -0,0 +1,292 @@
+// Data and derived values for deployment-report-template.md.
+//
+// Narrative sections and pre-formatted tables are passed through as text.
+// Everything the template totals or summarizes (test, token, tool-call,
+// vulnerability and compliance counts, the workaround/fix tables and the
+// STATUS_BADGE) is computed from structured inputs so the numbers agree.
+
+import { type Template, type TemplateValue, type TemplateValues, renderTemplate, tableCell } from "./engine.ts";
+
+/** Slots filled verbatim from DeploymentReportData.text. */
+export const DEPLOYMENT_TEXT_FIELDS = [
+  "ARCHITECTURE_DESCRIPTION",
+  "ARCHITECTURE_DIAGRAM",
+  "BASE_BRANCH",
+  "BASIC_APPLY_STATUS",
+  "BASIC_DESTROY_STATUS",
+  "BASIC_PLAN_STATUS",
+  "BASIC_RESOURCE_COUNT",
+  "BASIC_TFVARS",
+  "COMMIT_COUNT",
+  "COMMIT_SHA",
+  "COMPLETE_APPLY_STATUS",
+  "COMPLETE_DESTROY_STATUS",
+  "COMPLETE_PLAN_STATUS",
+  "COMPLETE_RESOURCE_COUNT",
+  "COMPLETE_TFVARS",
+  "COMPLIANCE_STATUS",
+  "COST_BREAKDOWN_TABLE",
+  "COST_ESTIMATE",
+  "COST_OPTIMIZATION",
+  "CRITICAL_EVENTS",
+  "DOC_OWNER",
+  "DOC_STATUS",
+  "ENV_VARS",
+  "ERROR_LOGS",
+  "ESTIMATED_COST",
+  "FAILED_CALLS_TABLE",
+  "FEATURE_DIR",
+  "FEATURE_NAME",
+  "FILES_CHANGED",
+  "FMT_DETAILS",
+  "FMT_STATUS",
+  "FMT_TOOL_DETAILS",
+  "FMT_TOOL_FINDINGS",
+  "FMT_TOOL_STATUS",
+  "GENERATION_TIMESTAMP",
+  "GIT_AUTHOR",
+  "GIT_BRANCH",
+  "KEY_COMPONENTS_TABLE",
+  "LESSONS_CHALLENGES",
+  "LESSONS_IMPROVEMENTS",
+  "LESSONS_SUCCESS",
+  "LINES_ADDED",
+  "LINES_REMOVED",
+  "MODEL_VERSION",
+  "MODULE_NAME",
+  "NEXT_ENHANCEMENTS",
+  "NEXT_FOLLOWUP",
+  "NEXT_IMMEDIATE",
+  "NEXT_REVIEW",
+  "OUTPUTS_TABLE",
+  "PRECOMMIT_DETAILS",
+  "PRECOMMIT_STATUS",
+  "PROVIDERS_TABLE",
+  "PR_NUMBER",
+  "PR_STATUS",
+  "PR_URL",
+  "READINESS_OVERVIEW",
+  "REPORT_ID",
+  "REPORT_PATH",
+  "REPORT_VERSION",
+  "RESOURCES_CREATED_TABLE",
+  "RESOURCES_TABLE",
+  "RESOURCE_COUNT",
+  "REVIEWERS",
+  "SECURITY_COMPLIANCE",
+  "SECURITY_RECOMMENDATIONS",
+  "SECURITY_SCORE",
+  "SESSION_DURATION",
+  "TERRAFORM_OUTPUTS",
+  "TERRAFORM_PLAN_OUTPUT_BASIC",
+  "TERRAFORM_PLAN_OUTPUT_COMPLETE",
+  "TERRAFORM_TEST_LOG",
+  "TEST_DURATION",
+  "TFLINT_DETAILS",
+  "TFLINT_STATUS",
+  "TFLINT_TOOL_DETAILS",
+  "TFLINT_TOOL_FINDINGS",
+  "TFLINT_TOOL_STATUS",
+  "TF_VERSION",
+  "TIMELINE_TABLE",
+  "TIMESTAMP",
+  "TOTAL_MONTHLY_COST",
+  "TRIVY_FINDINGS",
+  "TRIVY_TOOL_DETAILS",
+  "TRIVY_TOOL_FINDINGS",
+  "TRIVY_TOOL_STATUS",
+  "VALIDATE_DETAILS",
+  "VALIDATE_ERRORS",
+  "VALIDATE_OUTPUT",
+  "VALIDATE_STATUS",
+  "VALIDATE_TOOL_DETAILS",
+  "VALIDATE_TOOL_FINDINGS",
+  "VALIDATE_TOOL_STATUS",
+  "VALIDATE_WARNINGS",
+] as const;
+
+export type DeploymentTextField = (typeof DEPLOYMENT_TEXT_FIELDS)[number];
+
+export type DeploymentStatus = "ready" | "warnings" | "not_ready" | "partial";
+
+export const STATUS_BADGES: Record<DeploymentStatus, string> = {
+  ready: "✅ **Module Ready for Publishing**",
+  warnings: "⚠️ **Ready with Warnings**",
+  not_ready: "❌ **Not Ready - Issues Found**",
+  partial: "🔄 **Partially Complete**",
+};
+
+export interface TestFileResult {
+  file: string;
+  status: string;
+  passed: number;
+  failed: number;
+  duration: string;
+}
+
+export interface Invocation {
+  name: string;
+  invocations: number;
+  purpose: string;
+  outcome: string;
+}
+
+export interface ToolCallCounts {
+  success: number;
+  failed: number;
+}
+
+export const TOOL_CATEGORIES = ["mcp", "bash", "file", "terraform", "git"] as const;
+export type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+export interface Workaround {
+  id: string;
+  description: string;
+  workaround: string;
+  reason: string;
+  futureFix: string;
+  priority: string;
+}
+
+export interface ProperFix {
+  id: string;
+  description: string;
+  fix: string;
+  verification: string;
+}
+
+export interface SeverityCounts {
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+export interface DeploymentReportData {
+  text: Record<DeploymentTextField, TemplateValue>;
+  tests: TestFileResult[];
+  tokens: { input: number; output: number; cacheRead: number; cacheWrite: number };
+  subagents: Invocation[];
+  skills: Invocation[];
+  toolCalls: Record<ToolCategory, ToolCallCounts>;
+  failures: { remediated: number; unresolved: number };
+  workarounds: Workaround[];
+  fixes: ProperFix[];
+  vulnerabilities: SeverityCounts;
+  trivy: SeverityCounts & { status: string };
+  checks: { passed: number; warnings: number; failed: number };
+  /** False while workflow phases are still outstanding; forces Partially Complete. */
+  complete: boolean;
+}
+
+const TOOL_PREFIXES: Record<ToolCategory, string> = {
+  mcp: "MCP",
+  bash: "BASH",
+  file: "FILE",
+  terraform: "TF",
+  git: "GIT",
+};
+
+/** Table body rows; an empty list renders one `None` row so the table stays well-formed. */
+function tableRows(rows: TemplateValue[][], columns: number): string {
+  if (rows.length === 0) return `| None |${" - |".repeat(columns - 1)}`;
+  return rows.map((row) => `| ${row.map(tableCell).join(" | ")} |`).join("\n");
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function percent(part: number, whole: number): number | undefined {
+  return whole > 0 ? Math.round((part / whole) * 100) : undefined;
+}
+
+/**
+ * Partially Complete while phases are outstanding; Not Ready on failed tests,
+ * failed checks or critical vulnerabilities; Ready with Warnings on high
+ * vulnerabilities, check warnings, workarounds or unresolved tool failures.
+ */
+export function deploymentStatus(data: DeploymentReportData): DeploymentStatus {
+  if (!data.complete) return "partial";
+  const failedTests = sum(data.tests.map((test) => test.failed));
+  if (failedTests > 0 || data.checks.failed > 0 || data.vulnerabilities.critical > 0 || data.trivy.critical > 0) {
+    return "not_ready";
+  }
+  if (
+    data.vulnerabilities.high > 0 ||
+    data.trivy.high > 0 ||
+    data.checks.warnings > 0 ||
+    data.workarounds.length > 0 ||
+    data.failures.unresolved > 0
+  ) {
+    return "warnings";
+  }
+  return "ready";
+}
+
+export function deploymentValues(data: DeploymentReportData): TemplateValues {
+  const badge = STATUS_BADGES[deploymentStatus(data)];
+  const checkTotal = data.checks.passed + data.checks.warnings + data.checks.failed;
+  const invocationRow = (item: Invocation): TemplateValue[] => [item.name, item.invocations, item.purpose, item.outcome];
+
+  const values: TemplateValues = {
+    ...data.text,
+    STATUS_BADGE: badge,
+    READINESS_STATUS: badge,
+    TERRAFORM_TEST_RESULTS_TABLE: tableRows(
+      data.tests.map((test) => [`\`${test.file}\``, test.status, test.passed, test.failed, test.duration]),
+      5,
+    ),
+    TOTAL_TESTS_PASSED: sum(data.tests.map((test) => test.passed)),
+    TOTAL_TESTS_FAILED: sum(data.tests.map((test) => test.failed)),
+    TOTAL_TOKENS: data.tokens.input + data.tokens.output + data.tokens.cacheRead + data.tokens.cacheWrite,
+    INPUT_TOKENS: data.tokens.input,
+    OUTPUT_TOKENS: data.tokens.output,
+    CACHE_READ_TOKENS: data.tokens.cacheRead,
+    CACHE_WRITE_TOKENS: data.tokens.cacheWrite,
+    SUBAGENT_TABLE: tableRows(data.subagents.map(invocationRow), 4),
+    TOTAL_SUBAGENTS: sum(data.subagents.map((item) => item.invocations)),
+    SKILLS_TABLE: tableRows(data.skills.map(invocationRow), 4),
+    TOTAL_SKILLS: sum(data.skills.map((item) => item.invocations)),
+    FAILED_TOTAL: data.failures.remediated + data.failures.unresolved,
+    REMEDIATED_COUNT: data.failures.remediated,
+    UNRESOLVED_COUNT: data.failures.unresolved,
+    WORKAROUNDS_TABLE: tableRows(
+      data.workarounds.map((w) => [w.id, w.description, w.workaround, w.reason, w.futureFix, w.priority]),
+      6,
+    ),
+    WORKAROUND_COUNT: data.workarounds.length,
+    FIXES_TABLE: tableRows(
+      data.fixes.map((f) => [f.id, f.description, f.fix, f.verification]),
+      4,
+    ),
+    FIX_COUNT: data.fixes.length,
+    CRITICAL_VULNS: data.vulnerabilities.critical,
+    HIGH_VULNS: data.vulnerabilities.high,
+    MEDIUM_VULNS: data.vulnerabilities.medium,
+    LOW_VULNS: data.vulnerabilities.low,
+    TRIVY_STATUS: data.trivy.status,
+    TRIVY_CRITICAL: data.trivy.critical,
+    TRIVY_HIGH: data.trivy.high,
+    TRIVY_MEDIUM: data.trivy.medium,
+    TRIVY_LOW: data.trivy.low,
+    TRIVY_TOTAL: data.trivy.critical + data.trivy.high + data.trivy.medium + data.trivy.low,
+    CHECK_TOTAL: checkTotal,
+    CHECK_PASSED: data.checks.passed,
+    CHECK_WARNINGS: data.checks.warnings,
+    CHECK_FAILED: data.checks.failed,
+    CHECK_COMPLIANCE: percent(data.checks.passed, checkTotal),
+  };
+
+  for (const [category, prefix] of Object.entries(TOOL_PREFIXES) as [ToolCategory, string][]) {
+    const counts = data.toolCalls[category];
+    values[`${prefix}_SUCCESS`] = counts.success;
+    values[`${prefix}_FAILED`] = counts.failed;
+    values[`${prefix}_TOTAL`] = counts.success + counts.failed;
+  }
+  return values;
+}
+
+export function renderDeploymentReport(template: Template, data: DeploymentReportData): string {
+  return renderTemplate(template, { values: deploymentValues(data) });
+}
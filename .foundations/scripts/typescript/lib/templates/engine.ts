@@ -0,0 +1,196 @@
+// Placeholder substitution for the .foundations/templates report templates.
+//
+// `{{NAME}}` slots are machine-filled and must all receive a value. A slot
+// followed by a `{{NAME}} options:` bullet list is a badge: its value must be
+// one of the listed options, and the options block itself is an authoring
+// note that is dropped from the rendered output. `[BRACKET]` slots are
+// human-authored and only substituted (and required) when a renderer opts in.
+
+import { findPlaceholders } from "../analyze/placeholders.ts";
+import { type Diagnostic, formatDiagnostic } from "../artifacts/errors.ts";
+import { type Line, toLines } from "../artifacts/markdown.ts";
+
+export type TemplateValue = string | number;
+
+/** Keyed by `NAME` for `{{NAME}}` slots and by the full token (`[DATE]`) for bracket slots. */
+export type TemplateValues = Record<string, TemplateValue | undefined>;
+
+export interface BadgeSlot {
+  name: string;
+  /** Line of the `{{NAME}} options:` block. */
+  line: number;
+  /**
+   * Allowed values as they must appear in the report, e.g. `✅ **Production Ready**`.
+   * A trailing score band such as `(8.0-10.0)` is documentation and not part of the value.
+   */
+  options: string[];
+}
+
+export interface TemplateSlot {
+  kind: "brace" | "bracket";
+  /** `NAME` for brace slots, the full token for bracket slots. */
+  name: string;
+  line: number;
+}
+
+export interface Template {
+  file: string;
+  lines: Line[];
+  /** Every slot outside HTML comments, in line order. Slots in options blocks are excluded. */
+  slots: TemplateSlot[];
+  badges: Record<string, BadgeSlot>;
+  /** Trailing newline of the source, restored on output. */
+  trailingNewline: boolean;
+  /** 0-based indexes of options-block lines (and the blank line before each block). */
+  omitted: Set<number>;
+}
+
+export interface RenderInput {
+  values: TemplateValues;
+  /**
+   * Repeated rows keyed by an anchor slot name: every template line that
+   * contains `{{ANCHOR}}` is emitted once per entry, with the entry's values
+   * layered over `values`. An empty list drops the line.
+   */
+  rows?: Record<string, TemplateValues[]>;
+}
+
+export interface RenderOptions {
+  /** Require and substitute `[BRACKET]` slots as well. */
+  brackets?: boolean;
+}
+
+/**
+ * Thrown when a template cannot be rendered completely. Every unfilled slot
+ * and invalid badge is reported, not just the first.
+ */
+export class TemplateRenderError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join("\n"));
+    this.name = "TemplateRenderError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+const BRACE = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+const OPTIONS_HEADER = /^\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}\s+options:\s*$/;
+const OPTION_ITEM = /^\s*-\s+(.+?)\s*$/;
+const OPTION_RANGE = /\s*\(\d+(?:\.\d+)?\s*-\s*\d+(?:\.\d+)?\)$/;
+const COMMENT = /(<!--[\s\S]*?-->)/;
+
+/** Text a line's slots are read from: code keeps its content, comments are ignored. */
+function visibleText(line: Line): string {
+  if (line.kind === "code") return line.raw;
+  if (line.kind === "text") return line.text;
+  return "";
+}
+
+export function parseTemplate(source: string, file = "template.md"): Template {
+  const lines = toLines(source);
+  const badges: Record<string, BadgeSlot> = {};
+  const omitted = new Set<number>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].kind === "text" ? OPTIONS_HEADER.exec(lines[i].text.trim()) : null;
+    if (!header) continue;
+    const options: string[] = [];
+    let end = i + 1;
+    for (; end < lines.length; end++) {
+      const item = lines[end].kind === "text" ? OPTION_ITEM.exec(lines[end].text) : null;
+      if (!item) break;
+      options.push(item[1].replace(OPTION_RANGE, ""));
+    }
+    badges[header[1]] = { name: header[1], line: lines[i].number, options };
+    if (i > 0 && lines[i - 1].kind === "text" && lines[i - 1].raw.trim() === "") omitted.add(i - 1);
+    for (let j = i; j < end; j++) omitted.add(j);
+    i = end - 1;
+  }
+
+  const slots: TemplateSlot[] = [];
+  lines.forEach((line, i) => {
+    if (omitted.has(i)) return;
+    for (const match of visibleText(line).matchAll(BRACE)) {
+      slots.push({ kind: "brace", name: match[1], line: line.number });
+    }
+    for (const placeholder of findPlaceholders([line])) {
+      if (placeholder.kind === "bracket") slots.push({ kind: "bracket", name: placeholder.token, line: line.number });
+    }
+  });
+
+  return { file, lines, slots, badges, trailingNewline: /\n$/.test(source), omitted };
+}
+
+/** Escapes a value for use inside a Markdown table cell. */
+export function tableCell(value: TemplateValue): string {
+  return String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function isFilled(value: TemplateValue | undefined): value is TemplateValue {
+  if (typeof value === "number") return Number.isFinite(value);
+  return typeof value === "string" && value.trim() !== "";
+}
+
+export function renderTemplate(template: Template, input: RenderInput, options: RenderOptions = {}): string {
+  const diagnostics: Diagnostic[] = [];
+  const reported = new Set<string>();
+  const report = (line: number, message: string): void => {
+    const key = `${line}:${message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    diagnostics.push({ file: template.file, line, message });
+  };
+
+  const substitute = (line: Line, values: TemplateValues): string => {
+    if (line.kind === "frontmatter" || (line.kind === "text" && line.text.trim() === "")) return line.raw;
+    return line.raw
+      .split(COMMENT)
+      .map((part, i) => {
+        if (i % 2 === 1) return part;
+        let out = part;
+        if (options.brackets) {
+          for (const placeholder of findPlaceholders([{ ...line, text: part }])) {
+            if (placeholder.kind !== "bracket") continue;
+            const value = values[placeholder.token];
+            if (isFilled(value)) out = out.replace(placeholder.token, String(value));
+            else report(line.number, `${placeholder.token} is not filled`);
+          }
+        }
+        return out.replace(BRACE, (token, name: string) => {
+          const value = values[name];
+          if (isFilled(value)) return String(value);
+          report(line.number, `{{${name}}} is not filled`);
+          return token;
+        });
+      })
+      .join("");
+  };
+
+  for (const badge of Object.values(template.badges)) {
+    const value = input.values[badge.name];
+    if (!isFilled(value)) continue; // reported as unfilled where it is used
+    if (!badge.options.includes(String(value))) {
+      report(badge.line, `{{${badge.name}}} "${value}" is not one of the listed options: ${badge.options.join(" | ")}`);
+    }
+  }
+
+  const anchors = Object.keys(input.rows ?? {});
+  const out: string[] = [];
+  template.lines.forEach((line, i) => {
+    if (template.omitted.has(i)) return;
+    const anchor = anchors.find((name) =>
+      template.slots.some((slot) => slot.kind === "brace" && slot.name === name && slot.line === line.number),
+    );
+    if (anchor === undefined) {
+      out.push(substitute(line, input.values));
+      return;
+    }
+    for (const row of input.rows![anchor]) out.push(substitute(line, { ...input.values, ...row }));
+  });
+
+  if (diagnostics.length > 0) {
+    throw new TemplateRenderError(diagnostics.sort((a, b) => a.line - b.line));
+  }
+  return out.join("\n") + (template.trailingNewline ? "\n" : "");
+}
@@ -0,0 +1,37 @@
+// Renderers for the .foundations/templates reports. Each takes a typed data
+// object, derives the computed slots and fails with TemplateRenderError when a
+// slot is left unfilled or a badge is not one of the template's options.
+//
+// Usage:
+//   import { readTemplate, renderCodeQualityReport } from "./lib/templates/index.ts";
+//   const template = await readTemplate(templatePath("code-quality", repoRoot));
+//   const markdown = renderCodeQualityReport(template, data);
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { type Template, parseTemplate } from "./engine.ts";
+
+export * from "./checklist.ts";
+export * from "./code-quality.ts";
+export * from "./deployment.ts";
+export * from "./engine.ts";
+export * from "./remediation.ts";
+export * from "./schema.ts";
+
+export type TemplateKind = "code-quality" | "deployment" | "remediation" | "checklist";
+
+export const TEMPLATE_FILES: Record<TemplateKind, string> = {
+  "code-quality": "code-quality-evaluation-report.md",
+  deployment: "deployment-report-template.md",
+  remediation: "remediation-log-template.md",
+  checklist: "checklist-template.md",
+};
+
+export function templatePath(kind: TemplateKind, repoRoot: string): string {
+  return join(repoRoot, ".foundations", "templates", TEMPLATE_FILES[kind]);
+}
+
+export async function readTemplate(path: string): Promise<Template> {
+  return parseTemplate(await readFile(path, "utf8"), path);
+}
@@ -0,0 +1,41 @@
+// Data for remediation-log-template.md: one table row per finding fixed in a
+// refinement iteration. The template's single example row is repeated for
+// every entry, including its `[Description of change]` slot.
+
+import type { Severity } from "../analyze/findings.ts";
+import { type Template, renderTemplate, tableCell } from "./engine.ts";
+
+export interface RemediationEntry {
+  /** Finding ID from the evaluation or analysis report, e.g. `SEC-001`. */
+  findingId: string;
+  severity: Severity;
+  /** Every file touched by the fix. */
+  filesChanged: string[];
+  change: string;
+  /** Where the fix was verified, e.g. a test run or re-evaluation ID. */
+  verifiedIn: string;
+}
+
+export interface RemediationLogData {
+  iteration: number;
+  entries: RemediationEntry[];
+}
+
+export function renderRemediationLog(template: Template, data: RemediationLogData): string {
+  return renderTemplate(
+    template,
+    {
+      values: { ITERATION_NUMBER: data.iteration },
+      rows: {
+        FINDING_ID: data.entries.map((entry) => ({
+          FINDING_ID: tableCell(entry.findingId),
+          SEVERITY: entry.severity,
+          FILES_CHANGED: entry.filesChanged.map((file) => `\`${tableCell(file)}\``).join(", "),
+          "[Description of change]": tableCell(entry.change),
+          VERIFICATION_REFERENCE: tableCell(entry.verifiedIn),
+        })),
+      },
+    },
+    { brackets: true },
+  );
+}
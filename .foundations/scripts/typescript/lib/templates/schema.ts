@@ -0,0 +1,193 @@
+// Shape validation for the JSON data objects bin/render-report.ts reads.
+//
+// The renderers trust their typed input; this checks decoded JSON against the
+// *Data interfaces first so a wrong field is reported by its path
+// (`dimensions.security.score`) instead of surfacing as a TypeError or a
+// `NaN` in the report. Unknown keys are rejected, like the evaluation
+// history schema. Empty strings are left to the renderer, which reports the
+// slot they leave unfilled.
+
+import { SEVERITIES } from "../analyze/findings.ts";
+import { CODE_DIMENSIONS, CONSTITUTION_STATUSES, IMPROVEMENT_PRIORITIES } from "./code-quality.ts";
+import { DEPLOYMENT_TEXT_FIELDS, TOOL_CATEGORIES } from "./deployment.ts";
+import type { TemplateKind } from "./index.ts";
+
+type Shape =
+  | "string"
+  | "number" // any finite number
+  | "count" // integer >= 0
+  | "score" // 0 to 10
+  | "boolean"
+  | "value" // string or finite number, as TemplateValue
+  | { oneOf: readonly string[] }
+  | { list: Shape }
+  | { tuple: Shape[] }
+  | { fields: Record<string, Shape>; optional?: readonly string[] };
+
+function fieldsOf(keys: readonly string[], shape: Shape): Record<string, Shape> {
+  return Object.fromEntries(keys.map((key) => [key, shape]));
+}
+
+const TOOL_RESULT: Shape = { fields: { status: "string", count: "count", details: "string" } };
+const INVOCATION: Shape = { fields: { name: "string", invocations: "count", purpose: "string", outcome: "string" } };
+const SEVERITY_COUNTS = { critical: "count", high: "count", medium: "count", low: "count" } as const;
+
+const CODE_QUALITY: Shape = {
+  fields: {
+    featureName: "string",
+    timestamp: "string",
+    modelVersion: "string",
+    fileCount: "count",
+    locCount: "count",
+    strengths: { tuple: ["string", "string", "string"] },
+    improvements: {
+      tuple: Array.from({ length: 3 }, () => ({ fields: { priority: { oneOf: IMPROVEMENT_PRIORITIES }, issue: "string" } })),
+    },
+    dimensions: {
+      fields: fieldsOf(CODE_DIMENSIONS, {
+        fields: { score: "score", strengths: "string", issues: "string", recommendations: "string" },
+      }),
+    },
+    security: { fields: fieldsOf(["p0", "p1", "p2", "recommendation"], "string") },
+    tools: { fields: fieldsOf(["validate", "tflint", "trivy"], TOOL_RESULT) },
+    fileByFileAnalysis: "string",
+    roadmap: { fields: fieldsOf(IMPROVEMENT_PRIORITIES, "string") },
+    constitution: {
+      list: { fields: { status: { oneOf: CONSTITUTION_STATUSES }, evidence: "string", notes: "string" } },
+    },
+    constitutionViolations: "string",
+    nextSteps: "string",
+    refinementOptions: "string",
+    evalDurationSeconds: "number",
+    tokenCount: "count",
+    iteration: "count",
+    tfVersion: "string",
+    codeExamples: "string",
+    generatedAt: "string",
+    evalId: "string",
+    featureDir: "string",
+  },
+};
+
+const DEPLOYMENT: Shape = {
+  fields: {
+    // Missing text fields are reported by the renderer against their template line.
+    text: { fields: fieldsOf(DEPLOYMENT_TEXT_FIELDS, "value"), optional: DEPLOYMENT_TEXT_FIELDS },
+    tests: {
+      list: { fields: { file: "string", status: "string", passed: "count", failed: "count", duration: "string" } },
+    },
+    tokens: { fields: fieldsOf(["input", "output", "cacheRead", "cacheWrite"], "count") },
+    subagents: { list: INVOCATION },
+    skills: { list: INVOCATION },
+    toolCalls: { fields: fieldsOf(TOOL_CATEGORIES, { fields: { success: "count", failed: "count" } }) },
+    failures: { fields: { remediated: "count", unresolved: "count" } },
+    workarounds: {
+      list: { fields: fieldsOf(["id", "description", "workaround", "reason", "futureFix", "priority"], "string") },
+    },
+    fixes: { list: { fields: fieldsOf(["id", "description", "fix", "verification"], "string") } },
+    vulnerabilities: { fields: SEVERITY_COUNTS },
+    trivy: { fields: { ...SEVERITY_COUNTS, status: "string" } },
+    checks: { fields: fieldsOf(["passed", "warnings", "failed"], "count") },
+    complete: "boolean",
+  },
+};
+
+const REMEDIATION: Shape = {
+  fields: {
+    iteration: "count",
+    entries: {
+      list: {
+        fields: {
+          findingId: "string",
+          severity: { oneOf: SEVERITIES },
+          filesChanged: { list: "string" },
+          change: "string",
+          verifiedIn: "string",
+        },
+      },
+    },
+  },
+};
+
+const CHECKLIST: Shape = {
+  fields: {
+    checklistType: "string",
+    featureName: "string",
+    purpose: "string",
+    created: "string",
+    featureLink: "string",
+    categories: {
+      list: {
+        fields: { name: "string", items: { list: { fields: { text: "string", checked: "boolean" }, optional: ["checked"] } } },
+      },
+    },
+  },
+};
+
+const REPORT_SHAPES: Record<TemplateKind, Shape> = {
+  "code-quality": CODE_QUALITY,
+  deployment: DEPLOYMENT,
+  remediation: REMEDIATION,
+  checklist: CHECKLIST,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function check(shape: Shape, value: unknown, path: string, errors: string[]): void {
+  const label = path === "" ? "data" : `"${path}"`;
+  const child = (key: string | number) =>
+    typeof key === "number" ? `${path}[${key}]` : path === "" ? key : `${path}.${key}`;
+
+  if (shape === "string") {
+    if (typeof value !== "string") errors.push(`${label} must be a string`);
+  } else if (shape === "number") {
+    if (typeof value !== "number" || !Number.isFinite(value)) errors.push(`${label} must be a number`);
+  } else if (shape === "count") {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) errors.push(`${label} must be an integer >= 0`);
+  } else if (shape === "score") {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 10) {
+      errors.push(`${label} must be a number from 0 to 10`);
+    }
+  } else if (shape === "boolean") {
+    if (typeof value !== "boolean") errors.push(`${label} must be true or false`);
+  } else if (shape === "value") {
+    if (typeof value !== "string" && (typeof value !== "number" || !Number.isFinite(value))) {
+      errors.push(`${label} must be a string or a number`);
+    }
+  } else if ("oneOf" in shape) {
+    if (typeof value !== "string" || !shape.oneOf.includes(value)) {
+      errors.push(`${label} must be one of ${shape.oneOf.join(", ")}`);
+    }
+  } else if ("list" in shape) {
+    if (!Array.isArray(value)) errors.push(`${label} must be an array`);
+    else value.forEach((item, i) => check(shape.list, item, child(i), errors));
+  } else if ("tuple" in shape) {
+    if (!Array.isArray(value) || value.length !== shape.tuple.length) {
+      errors.push(`${label} must be an array of ${shape.tuple.length} items`);
+    } else {
+      shape.tuple.forEach((item, i) => check(item, value[i], child(i), errors));
+    }
+  } else if (!isObject(value)) {
+    errors.push(`${label} must be an object`);
+  } else {
+    for (const key of Object.keys(value)) {
+      if (!(key in shape.fields)) errors.push(`unknown field "${child(key)}"`);
+    }
+    for (const [key, field] of Object.entries(shape.fields)) {
+      if (value[key] === undefined) {
+        if (!shape.optional?.includes(key)) errors.push(`missing required field "${child(key)}"`);
+      } else {
+        check(field, value[key], child(key), errors);
+      }
+    }
+  }
+}
+
+/** Validates decoded report data against the `kind` renderer's input. Returns the problems found; empty means valid. */
+export function validateReportData(kind: TemplateKind, value: unknown): string[] {
+  const errors: string[] = [];
+  check(REPORT_SHAPES[kind], value, "", errors);
+  return errors;
+}
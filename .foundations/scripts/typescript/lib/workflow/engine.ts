@@ -0,0 +1,171 @@
+// Phase transitions of the workflow state machine:
+//   start     pending, failed, skipped or complete → in_progress
+//   complete  in_progress → complete
+//   fail      in_progress → failed
+//   skip      pending or failed → skipped (optional phases only)
+//
+// A phase starts only when every earlier required phase is complete and its
+// artifact preconditions hold. Transitions mutate the state in place and throw
+// WorkflowError, with the same error/hint pair check-prerequisites prints,
+// when they are not allowed. Git is the caller's job: commits come in as SHAs.
+
+import type { FeaturePaths } from "../common.ts";
+import { PHASES, PHASE_DEFINITIONS, type Phase, missingStartPrerequisite, phaseArtifacts } from "./phases.ts";
+import type { Checkpoint, PhaseRecord, WorkflowState } from "./state.ts";
+
+/** A refused transition: what is wrong and which command fixes it. */
+export class WorkflowError extends Error {
+  readonly hint: string;
+
+  constructor(message: string, hint: string) {
+    super(message);
+    this.name = "WorkflowError";
+    this.hint = hint;
+  }
+}
+
+export interface NextAction {
+  action: "start" | "resume" | "retry" | "done";
+  phase?: Phase;
+  /** Latest checkpoint of the phase to resume from. */
+  checkpoint?: Checkpoint;
+}
+
+function later(phase: Phase): Phase[] {
+  return PHASES.slice(PHASES.indexOf(phase) + 1);
+}
+
+function earlier(phase: Phase): Phase[] {
+  return PHASES.slice(0, PHASES.indexOf(phase));
+}
+
+function requireStatus(state: WorkflowState, phase: Phase, allowed: PhaseRecord["status"][], verb: string): void {
+  const { status } = state.phases[phase];
+  if (allowed.includes(status)) return;
+  throw new WorkflowError(
+    `Cannot ${verb} ${phase}: it is ${status.replace("_", " ")}`,
+    status === "pending" || status === "failed" ? `Run 'speckit workflow start ${phase}' first.` : "Run 'speckit workflow status' to see the workflow state.",
+  );
+}
+
+/**
+ * Marks `phase` in progress. Re-starting a complete phase resets every later
+ * phase to pending, since their inputs are about to change. Returns the
+ * phases that were reset.
+ */
+export function startPhase(state: WorkflowState, phase: Phase, paths: FeaturePaths, now: Date): Phase[] {
+  if (state.phases[phase].status === "in_progress") return [];
+  for (const before of earlier(phase)) {
+    const { status } = state.phases[before];
+    const blocking = PHASE_DEFINITIONS[before].optional ? status === "in_progress" || status === "failed" : status !== "complete";
+    if (blocking) {
+      throw new WorkflowError(
+        `Cannot start ${phase}: ${before} is ${status.replace("_", " ")}`,
+        `Run ${PHASE_DEFINITIONS[before].command} first (${before} phase).`,
+      );
+    }
+  }
+  const missing = missingStartPrerequisite(phase, paths);
+  if (missing !== undefined) throw new WorkflowError(missing.error, missing.hint);
+
+  const reset = later(phase).filter((after) => state.phases[after].status !== "pending");
+  for (const after of reset) state.phases[after] = { status: "pending" };
+  state.phases[phase] = { status: "in_progress", started_at: now.toISOString() };
+  return reset;
+}
+
+/**
+ * Marks `phase` complete at `commit`, recording the artifacts it left in the
+ * feature directory. `commit` is undefined when the caller is about to commit
+ * the phase and fills it in afterwards.
+ */
+export function completePhase(state: WorkflowState, phase: Phase, paths: FeaturePaths, commit: string | undefined, now: Date): PhaseRecord {
+  requireStatus(state, phase, ["in_progress"], "complete");
+  const definition = PHASE_DEFINITIONS[phase];
+  const artifacts = phaseArtifacts(phase, paths.featureDir);
+  if (definition.output !== undefined && !artifacts.some((path) => path.startsWith(definition.output as string))) {
+    throw new WorkflowError(
+      `Cannot complete ${phase}: ${definition.output} not found in ${paths.featureDir}`,
+      `Finish ${definition.command} before marking the phase complete.`,
+    );
+  }
+  const record: PhaseRecord = {
+    status: "complete",
+    started_at: state.phases[phase].started_at,
+    finished_at: now.toISOString(),
+    commit,
+    artifacts,
+  };
+  state.phases[phase] = record;
+  return record;
+}
+
+export function failPhase(state: WorkflowState, phase: Phase, reason: string, now: Date): void {
+  requireStatus(state, phase, ["in_progress"], "fail");
+  state.phases[phase] = { status: "failed", started_at: state.phases[phase].started_at, finished_at: now.toISOString(), error: reason };
+}
+
+/** Skips an optional phase that has not started (or failed). */
+export function skipPhase(state: WorkflowState, phase: Phase, now: Date): void {
+  if (!PHASE_DEFINITIONS[phase].optional) {
+    throw new WorkflowError(`Cannot skip ${phase}: it is required`, `Run ${PHASE_DEFINITIONS[phase].command} (${phase} phase).`);
+  }
+  requireStatus(state, phase, ["pending", "failed"], "skip");
+  state.phases[phase] = { status: "skipped", finished_at: now.toISOString() };
+}
+
+/** Appends checkpoint `step` for the staged `paths`; the caller sets `commit` once the commit exists. */
+export function recordCheckpoint(state: WorkflowState, step: string, phase: Phase, paths: string[], now: Date): Checkpoint {
+  const checkpoint: Checkpoint = { step, phase, commit: undefined, paths, created_at: now.toISOString() };
+  state.checkpoints.push(checkpoint);
+  return checkpoint;
+}
+
+/** The latest checkpoint named `step`. */
+export function findCheckpoint(state: WorkflowState, step: string): Checkpoint | undefined {
+  return state.checkpoints.findLast((checkpoint) => checkpoint.step === step);
+}
+
+/**
+ * Returns the state to how it stood at checkpoint `step`: later checkpoints
+ * are dropped, later phases go back to pending and the checkpoint's phase is
+ * in progress again unless it completed at that very commit.
+ */
+export function rollbackTo(state: WorkflowState, step: string): Checkpoint {
+  const checkpoint = findCheckpoint(state, step);
+  if (checkpoint === undefined) {
+    const steps = [...new Set(state.checkpoints.map((item) => item.step))];
+    throw new WorkflowError(
+      `No checkpoint named '${step}'`,
+      steps.length > 0 ? `Known checkpoints: ${steps.join(", ")}` : "No checkpoints have been recorded for this feature.",
+    );
+  }
+  if (checkpoint.commit === undefined) {
+    throw new WorkflowError(
+      `Checkpoint '${step}' has no recorded commit`,
+      "This copy of the state file is the one its checkpoint commit carries; record a new checkpoint to roll back to.",
+    );
+  }
+  state.checkpoints = state.checkpoints.slice(0, state.checkpoints.lastIndexOf(checkpoint) + 1);
+  for (const after of later(checkpoint.phase)) state.phases[after] = { status: "pending" };
+
+  const record = state.phases[checkpoint.phase];
+  if (record.status !== "complete" || record.commit !== checkpoint.commit) {
+    state.phases[checkpoint.phase] = { status: "in_progress", started_at: record.started_at ?? checkpoint.created_at };
+  }
+  return checkpoint;
+}
+
+/** What a resumed run should do next. */
+export function nextAction(state: WorkflowState): NextAction {
+  const inProgress = PHASES.find((phase) => state.phases[phase].status === "in_progress");
+  if (inProgress !== undefined) {
+    return { action: "resume", phase: inProgress, checkpoint: state.checkpoints.findLast((item) => item.phase === inProgress) };
+  }
+  const failed = PHASES.find((phase) => state.phases[phase].status === "failed");
+  if (failed !== undefined) return { action: "retry", phase: failed };
+
+  const lastDone = PHASES.findLastIndex((phase) => state.phases[phase].status !== "pending");
+  const next = PHASES.slice(lastDone + 1).find((phase) => state.phases[phase].status === "pending");
+  return next === undefined ? { action: "done" } : { action: "start", phase: next };
+}
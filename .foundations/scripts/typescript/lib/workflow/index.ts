@@ -0,0 +1,12 @@
+// Workflow state machine: the phase definitions, the per-feature state file
+// and the transitions behind `speckit workflow`.
+//
+// Usage:
+//   const state = loadState(paths.featureDir, "004-vpc-setup");
+//   startPhase(state, "plan", paths, new Date());
+//   saveState(paths.featureDir, state);
+//   nextAction(state); // { action: "resume", phase: "plan" }
+
+export * from "./engine.ts";
+export * from "./phases.ts";
+export * from "./state.ts";
@@ -0,0 +1,135 @@
+// The speckit workflow phases, in order, with what each needs before it can
+// start and what it leaves behind.
+//
+// Start preconditions are the ones check-prerequisites enforces (plan.md
+// before tasks, tasks.md before analyze and implement) plus spec.md before
+// clarify and plan. Artifact patterns are relative to the feature directory.
+
+import { existsSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+
+import type { FeaturePaths } from "../common.ts";
+import { type MissingPrerequisite, missingPrerequisite } from "../speckit/check-prerequisites.ts";
+
+export const PHASES = ["specify", "clarify", "plan", "tasks", "analyze", "implement", "report"] as const;
+export type Phase = (typeof PHASES)[number];
+
+export interface PhaseDefinition {
+  name: Phase;
+  title: string;
+  /** The prompt that runs the phase. */
+  command: string;
+  /** Optional phases may be skipped; later phases do not wait for them. */
+  optional: boolean;
+  /**
+   * Files recorded when the phase completes. A trailing `/` means every file
+   * below that directory; `*` matches within one file name.
+   */
+  artifacts: string[];
+  /** Must exist before the phase can be marked complete. */
+  output?: string;
+}
+
+export const PHASE_DEFINITIONS: Record<Phase, PhaseDefinition> = {
+  specify: { name: "specify", title: "Specify", command: "/speckit.specify", optional: false, artifacts: ["spec.md"], output: "spec.md" },
+  clarify: { name: "clarify", title: "Clarify", command: "/speckit.clarify", optional: true, artifacts: ["spec.md"], output: "spec.md" },
+  plan: {
+    name: "plan",
+    title: "Plan",
+    command: "/speckit.plan",
+    optional: false,
+    artifacts: ["plan.md", "research-*.md", "contracts/", "quickstart.md"],
+    output: "plan.md",
+  },
+  tasks: { name: "tasks", title: "Tasks", command: "/speckit.tasks", optional: false, artifacts: ["tasks.md"], output: "tasks.md" },
+  analyze: { name: "analyze", title: "Analyze", command: "/speckit.analyze", optional: true, artifacts: [] },
+  implement: { name: "implement", title: "Implement", command: "/speckit.implement", optional: false, artifacts: ["tasks.md"] },
+  report: {
+    name: "report",
+    title: "Deploy Report",
+    command: "/report.tf-deployment",
+    optional: false,
+    artifacts: ["reports/"],
+    output: "reports/",
+  },
+};
+
+export function isPhase(value: string): value is Phase {
+  return (PHASES as readonly string[]).includes(value);
+}
+
+/**
+ * Checkpoint step names the agents already use, by the phase they belong to.
+ * A phase's own name always maps to that phase.
+ */
+const STEP_PHASES: [RegExp, Phase][] = [
+  [/^research-and-plan-draft$/, "plan"],
+  [/^design-review$/, "plan"],
+  [/^implementation-phase-\d+$/, "implement"],
+  [/^deploy(ment)?(-report)?$/, "report"],
+];
+
+/** The phase a checkpoint step name belongs to, if it can be told from the name. */
+export function phaseForStep(step: string): Phase | undefined {
+  if (isPhase(step)) return step;
+  return STEP_PHASES.find(([pattern]) => pattern.test(step))?.[1];
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/** The first missing start precondition of `phase`, checked in workflow order, or undefined. */
+export function missingStartPrerequisite(phase: Phase, paths: FeaturePaths): MissingPrerequisite | undefined {
+  switch (phase) {
+    case "specify":
+      return undefined;
+    case "clarify":
+    case "plan":
+      if (!existsSync(paths.featureDir)) return missingPrerequisite(paths, { requireTasks: false, includeTasks: false });
+      return isFile(paths.featureSpec)
+        ? undefined
+        : {
+            error: `spec.md not found in ${paths.featureDir}`,
+            hint: "Run /speckit.specify first (specify phase) to create the specification.",
+          };
+    case "tasks":
+      return missingPrerequisite(paths, { requireTasks: false, includeTasks: false });
+    case "analyze":
+    case "implement":
+    case "report":
+      return missingPrerequisite(paths, { requireTasks: true, includeTasks: false });
+  }
+}
+
+function listFiles(dir: string, prefix: string): string[] {
+  let names: string[];
+  try {
+    names = readdirSync(dir).sort();
+  } catch {
+    return [];
+  }
+  return names.flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path, `${prefix}${name}/`) : [`${prefix}${name}`];
+  });
+}
+
+/** Feature-relative files matching `pattern`, sorted. */
+export function matchArtifacts(featureDir: string, pattern: string): string[] {
+  if (pattern.endsWith("/")) return listFiles(join(featureDir, pattern), pattern);
+  if (!pattern.includes("*")) return isFile(join(featureDir, pattern)) ? [pattern] : [];
+  const slash = pattern.lastIndexOf("/");
+  const dir = pattern.slice(0, slash + 1);
+  const name = new RegExp(`^${pattern.slice(slash + 1).split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+  return listFiles(join(featureDir, dir), dir).filter((path) => !path.slice(dir.length).includes("/") && name.test(path.slice(dir.length)));
+}
+
+/** Every existing artifact of `phase`, in pattern order. */
+export function phaseArtifacts(phase: Phase, featureDir: string): string[] {
+  return [...new Set(PHASE_DEFINITIONS[phase].artifacts.flatMap((pattern) => matchArtifacts(featureDir, pattern)))];
+}
@@ -0,0 +1,162 @@
+// The per-feature workflow state file, specs/NNN-*/workflow-state.json.
+//
+// It records each phase's status, timestamps, artifacts and the commit they
+// were recorded at, plus every named checkpoint. The file is machine-written
+// but committed with the feature, so loading validates it strictly: unknown
+// keys, unknown phases and bad statuses are errors, not silently dropped.
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { type Diagnostic, formatDiagnostic } from "../artifacts/errors.ts";
+import { PHASES, type Phase, isPhase } from "./phases.ts";
+
+export const STATE_FILE = "workflow-state.json";
+
+export type PhaseState = "pending" | "in_progress" | "complete" | "failed" | "skipped";
+
+export const PHASE_STATES: readonly PhaseState[] = ["pending", "in_progress", "complete", "failed", "skipped"];
+
+export interface PhaseRecord {
+  status: PhaseState;
+  started_at?: string;
+  /** When the phase completed, failed or was skipped. */
+  finished_at?: string;
+  /** HEAD when the phase completed; with `complete --commit`, set once that commit exists. */
+  commit?: string;
+  /** Feature-relative files the phase produced. */
+  artifacts?: string[];
+  /** Why the phase failed. */
+  error?: string;
+}
+
+export interface Checkpoint {
+  step: string;
+  phase: Phase;
+  /**
+   * The checkpoint commit. The state is written before that commit so the
+   * commit carries it, which means the committed copy lacks this field; it is
+   * filled in once the commit exists.
+   */
+  commit?: string;
+  /** Repo-relative paths the commit staged; rollback restores these. */
+  paths: string[];
+  created_at: string;
+}
+
+export interface WorkflowState {
+  /** Feature directory name, e.g. `004-vpc-setup`. */
+  feature: string;
+  phases: Record<Phase, PhaseRecord>;
+  /** Oldest first. */
+  checkpoints: Checkpoint[];
+}
+
+/** Thrown when a state file cannot be read back; lists every problem found. */
+export class WorkflowStateError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    super(diagnostics.map(formatDiagnostic).join("\n"));
+    this.name = "WorkflowStateError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+export function emptyState(feature: string): WorkflowState {
+  const phases = Object.fromEntries(PHASES.map((phase) => [phase, { status: "pending" }])) as Record<Phase, PhaseRecord>;
+  return { feature, phases, checkpoints: [] };
+}
+
+export function statePath(featureDir: string): string {
+  return join(featureDir, STATE_FILE);
+}
+
+const STATE_KEYS = ["feature", "phases", "checkpoints"];
+const PHASE_KEYS = ["status", "started_at", "finished_at", "commit", "artifacts", "error"];
+const CHECKPOINT_KEYS = ["step", "phase", "commit", "paths", "created_at"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unknownKeys(value: Record<string, unknown>, allowed: string[], label: string): string[] {
+  return Object.keys(value)
+    .filter((key) => !allowed.includes(key))
+    .map((key) => `${label}: unknown field "${key}"`);
+}
+
+function checkPhase(phase: string, record: unknown): string[] {
+  const label = `phases.${phase}`;
+  if (!isObject(record)) return [`${label} must be an object`];
+  const errors = unknownKeys(record, PHASE_KEYS, label);
+  if (!PHASE_STATES.includes(record.status as PhaseState)) errors.push(`${label}.status must be one of ${PHASE_STATES.join(", ")}`);
+  for (const key of ["started_at", "finished_at", "commit", "error"]) {
+    if (record[key] !== undefined && typeof record[key] !== "string") errors.push(`${label}.${key} must be a string`);
+  }
+  const artifacts = record.artifacts;
+  if (artifacts !== undefined && (!Array.isArray(artifacts) || !artifacts.every((item) => typeof item === "string"))) {
+    errors.push(`${label}.artifacts must be an array of paths`);
+  }
+  return errors;
+}
+
+function checkCheckpoint(checkpoint: unknown, index: number): string[] {
+  const label = `checkpoints[${index}]`;
+  if (!isObject(checkpoint)) return [`${label} must be an object`];
+  const errors = unknownKeys(checkpoint, CHECKPOINT_KEYS, label);
+  for (const key of ["step", "created_at"]) {
+    if (typeof checkpoint[key] !== "string" || checkpoint[key] === "") errors.push(`${label}.${key} must be a non-empty string`);
+  }
+  if (checkpoint.commit !== undefined && (typeof checkpoint.commit !== "string" || checkpoint.commit === "")) {
+    errors.push(`${label}.commit must be a non-empty string`);
+  }
+  const paths = checkpoint.paths;
+  if (!Array.isArray(paths) || paths.length === 0 || !paths.every((item) => typeof item === "string" && item !== "")) {
+    errors.push(`${label}.paths must be a non-empty array of paths`);
+  }
+  if (typeof checkpoint.phase !== "string" || !isPhase(checkpoint.phase)) errors.push(`${label}.phase must be one of ${PHASES.join(", ")}`);
+  return errors;
+}
+
+/** Validates decoded state file content. Returns the problems found; empty means valid. */
+export function validateState(value: unknown): string[] {
+  if (!isObject(value)) return ["state must be a JSON object"];
+  const errors = unknownKeys(value, STATE_KEYS, "state");
+  if (typeof value.feature !== "string" || value.feature === "") errors.push('"feature" must be a non-empty string');
+
+  if (!isObject(value.phases)) {
+    errors.push('"phases" must be an object');
+  } else {
+    for (const phase of Object.keys(value.phases)) {
+      if (!isPhase(phase)) errors.push(`phases: unknown phase "${phase}" (expected ${PHASES.join(", ")})`);
+    }
+    for (const phase of PHASES) {
+      if (value.phases[phase] === undefined) errors.push(`phases: missing phase "${phase}"`);
+      else errors.push(...checkPhase(phase, value.phases[phase]));
+    }
+  }
+
+  if (!Array.isArray(value.checkpoints)) errors.push('"checkpoints" must be an array');
+  else value.checkpoints.forEach((checkpoint, i) => errors.push(...checkCheckpoint(checkpoint, i)));
+  return errors;
+}
+
+/** Reads the state of `featureDir`; a feature without a state file starts with every phase pending. */
+export function loadState(featureDir: string, feature: string): WorkflowState {
+  const file = statePath(featureDir);
+  if (!existsSync(file)) return emptyState(feature);
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new WorkflowStateError([{ file, line: 1, message: `invalid JSON: ${(error as Error).message}` }]);
+  }
+  const errors = validateState(value);
+  if (errors.length > 0) throw new WorkflowStateError(errors.map((message) => ({ file, line: 1, message })));
+  return value as WorkflowState;
+}
+
+export function saveState(featureDir: string, state: WorkflowState): void {
+  writeFileSync(statePath(featureDir), `${JSON.stringify(state, null, 2)}\n`);
+}
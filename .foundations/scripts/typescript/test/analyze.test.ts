@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { analyzeFeature, findPlaceholders, renderMarkdown } from "../lib/analyze/index.ts";
+import { toLines } from "../lib/artifacts/markdown.ts";
+import { FIXTURES_DIR } from "./helpers.ts";
+
+let featureDir: string;
+
+function edit(file: string, from: string, to: string): void {
+  const path = join(featureDir, file);
+  const source = readFileSync(path, "utf8");
+  assert.ok(source.includes(from), `${file} does not contain ${JSON.stringify(from)}`);
+  writeFileSync(path, source.replace(from, to));
+}
+
+function summaries(): string[] {
+  return analyzeFeature(featureDir).findings.map((finding) => `${finding.id} ${finding.severity} ${finding.summary}`);
+}
+
+describe("analyzeFeature", () => {
+  beforeEach(() => {
+    featureDir = join(mkdtempSync(join(tmpdir(), "analyze-test-")), "001-s3-bucket");
+    cpSync(join(FIXTURES_DIR, "001-s3-bucket"), featureDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(join(featureDir, ".."), { recursive: true, force: true });
+  });
+
+  it("reports nothing for a consistent feature", () => {
+    const report = analyzeFeature(featureDir);
+
+    assert.deepEqual(report.findings, []);
+    assert.deepEqual(report.artifacts, ["spec.md", "plan.md", "tasks.md", "contracts/module-interfaces.md"]);
+    assert.deepEqual(
+      report.storyCoverage.map((coverage) => [coverage.story, coverage.taskIds]),
+      [
+        ["US1", ["T003", "T004"]],
+        ["US2", ["T005", "T006"]],
+      ],
+    );
+    assert.deepEqual(
+      report.criterionCoverage.map((coverage) => [coverage.criterion, coverage.taskIds]),
+      [
+        ["SC-001", ["T004"]],
+        ["SC-002", ["T006"]],
+      ],
+    );
+    assert.equal(report.metrics.storyCoverage, 100);
+    assert.equal(report.metrics.completedTasks, 2);
+  });
+
+  it("rates an uncovered P1 story CRITICAL and a P2 story HIGH", () => {
+    edit("tasks.md", "T003 [US1]", "T003");
+    edit("tasks.md", "T004 [US1]", "T004");
+    edit("tasks.md", "## Phase 2: User Story 1 - Private bucket (Priority: P1) MVP", "## Phase 2: Core");
+    edit("tasks.md", "T005 [US2]", "T005");
+    edit("tasks.md", "T006 [US2]", "T006");
+    edit("tasks.md", "## Phase 3: User Story 2 - Access logging (Priority: P2)", "## Phase 3: Logging");
+
+    assert.deepEqual(summaries(), [
+      'C1 CRITICAL User Story 1 (P1) "Private bucket" has no tasks',
+      'C2 HIGH User Story 2 (P2) "Access logging" has no tasks',
+    ]);
+  });
+
+  it("reports unknown story tags and priority mismatches", () => {
+    edit("tasks.md", "T006 [US2]", "T006 [US9]");
+    edit("tasks.md", "(Priority: P2)", "(Priority: P3)");
+
+    assert.deepEqual(summaries(), [
+      "I1 HIGH Task T006 is tagged [US9] but spec.md has no User Story 9",
+      "I2 MEDIUM User Story 2 is P2 in spec.md but P3 in tasks.md",
+    ]);
+  });
+
+  it("reports success criteria no test task cites", () => {
+    edit("plan.md", "SC-002 access logging", "access logging");
+
+    assert.deepEqual(summaries(), ["C1 MEDIUM SC-002 is not covered by any .tftest.hcl task"]);
+  });
+
+  it("reports placeholders, clarification markers and template task IDs", () => {
+    edit("spec.md", "**Status**: Draft", "**Status**: [STATUS]");
+    edit("contracts/module-interfaces.md", "**Version:** `1.0.0`", "**Version:** `{{VERSION}}`");
+    edit("plan.md", "**AWS Services**: S3", "**AWS Services**: NEEDS CLARIFICATION");
+    edit("tasks.md", "T002 Create", "TXXX Create");
+
+    const report = analyzeFeature(featureDir);
+    assert.deepEqual(
+      report.findings.map((finding) => [finding.id, finding.summary]),
+      [
+        ["A1", "Unfilled template placeholder {{VERSION}}"],
+        ["A2", "Unresolved NEEDS CLARIFICATION marker"],
+        ["A3", "Unfilled template placeholder [STATUS]"],
+        ["A4", "Task still has the template ID TXXX"],
+      ],
+    );
+    assert.equal(report.metrics.placeholders, 3);
+    assert.equal(report.metrics.clarifications, 1);
+  });
+
+  it("reports missing and unparseable artifacts as structure findings", () => {
+    rmSync(join(featureDir, "plan.md"));
+    edit("spec.md", "(Priority: P2)", "(Priority: high)");
+
+    assert.deepEqual(summaries(), [
+      "S1 CRITICAL plan.md is missing",
+      'S2 CRITICAL spec.md cannot be parsed: invalid priority "high" for User Story 2; expected P1, P2, P3, ...',
+    ]);
+  });
+
+  it("assigns the same IDs on every run", () => {
+    edit("tasks.md", "T006 [US2]", "T006 [US9]");
+    edit("spec.md", "**Status**: Draft", "**Status**: [STATUS]");
+
+    assert.deepEqual(summaries(), summaries());
+  });
+
+  it("renders the findings table", () => {
+    edit("tasks.md", "T006 [US2]", "T006 [US9]");
+
+    const markdown = renderMarkdown(analyzeFeature(featureDir));
+    assert.match(markdown, /\| I1 \| Inconsistency \| HIGH \| tasks\.md:\d+ \|/);
+  });
+});
+
+describe("findPlaceholders", () => {
+  function tokens(text: string): string[] {
+    return findPlaceholders(toLines(text)).map((placeholder) => placeholder.token);
+  }
+
+  it("finds brackets and double braces in prose", () => {
+    assert.deepEqual(tokens("**Feature**: [FEATURE NAME] on {{DATE}}"), ["{{DATE}}", "[FEATURE NAME]"]);
+  });
+
+  it("ignores checkboxes, story tags, links and alerts", () => {
+    assert.deepEqual(tokens("- [ ] T001 [P] [US1] see [spec](spec.md)\n> [!NOTE]"), []);
+  });
+
+  it("inside code counts name-like brackets only", () => {
+    assert.deepEqual(tokens('`modules/[name]/` and `aws_subnet.this[0]` and `var.tags["Name"]`'), ["[name]"]);
+  });
+
+  it("counts numbered feature slugs inside code", () => {
+    assert.deepEqual(tokens("Branch: `[###-feature-name]`, spec at `specs/[###-feature]/spec.md`"), [
+      "[###-feature-name]",
+      "[###-feature]",
+    ]);
+  });
+
+  it("skips HTML comments and fenced code", () => {
+    assert.deepEqual(tokens("<!-- [HIDDEN] -->\n```\n[IN CODE]\n```\n"), []);
+  });
+});
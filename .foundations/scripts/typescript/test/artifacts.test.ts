@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import { ArtifactParseError, parseContracts, parsePlan, parseSpec, parseTasks } from "../lib/artifacts/index.ts";
+import { FIXTURES_DIR, TEMPLATES_DIR } from "./helpers.ts";
+
+const FEATURE = join(FIXTURES_DIR, "001-s3-bucket");
+
+function fixture(name: string): string {
+  return readFileSync(join(FEATURE, name), "utf8");
+}
+
+/** The diagnostics a parse failure reports, as `line: message`. */
+function diagnosticsOf(parse: () => unknown): string[] {
+  try {
+    parse();
+  } catch (error) {
+    assert.ok(error instanceof ArtifactParseError);
+    return error.diagnostics.map((diagnostic) => `${diagnostic.line}: ${diagnostic.message}`);
+  }
+  assert.fail("expected an ArtifactParseError");
+}
+
+describe("parseSpec", () => {
+  it("reads stories, scenarios, requirements, entities and criteria", () => {
+    const spec = parseSpec(fixture("spec.md"));
+
+    assert.equal(spec.title, "S3 Bucket Module");
+    assert.equal(spec.fields["Status"].value, "Draft");
+    assert.deepEqual(
+      spec.userStories.map((story) => [story.id, story.priority, story.rank, story.title]),
+      [
+        ["US1", "P1", 1, "Private bucket"],
+        ["US2", "P2", 2, "Access logging"],
+      ],
+    );
+    const scenario = spec.userStories[0].acceptanceScenarios[0];
+    assert.equal(scenario.given, "a bucket name");
+    assert.equal(scenario.when, "the module is applied");
+    assert.equal(scenario.then, "the bucket blocks public access");
+    assert.equal(spec.edgeCases.length, 2);
+    assert.deepEqual(
+      spec.functionalRequirements.map((requirement) => requirement.id),
+      ["FR-001", "FR-002", "FR-003"],
+    );
+    assert.deepEqual(
+      spec.keyEntities.map((entity) => entity.name),
+      ["Bucket", "Log Bucket"],
+    );
+    assert.deepEqual(
+      spec.successCriteria.map((criterion) => criterion.id),
+      ["SC-001", "SC-002"],
+    );
+  });
+
+  it("flags requirements that still need clarification", () => {
+    const spec = parseSpec(fixture("spec.md").replace("by default", "by default [NEEDS CLARIFICATION: MFA delete?]"));
+    assert.deepEqual(
+      spec.functionalRequirements.filter((requirement) => requirement.needsClarification).map((r) => r.id),
+      ["FR-002"],
+    );
+    assert.equal(spec.clarifications.length, 1);
+  });
+
+  it("reports every structural problem with its line", () => {
+    const source = fixture("spec.md")
+      .replace("# Feature Specification: S3 Bucket Module", "Feature Specification")
+      .replace("(Priority: P2)", "(Priority: high)")
+      .replace("**FR-003**", "**FR-001**");
+    assert.deepEqual(
+      diagnosticsOf(() => parseSpec(source)),
+      [
+        '1: missing "# Feature Specification: ..." title',
+        '25: invalid priority "high" for User Story 2; expected P1, P2, P3, ...',
+        "48: duplicate FR-001 (first defined on line 46)",
+      ],
+    );
+  });
+
+  it("rejects duplicate user stories", () => {
+    const source = fixture("spec.md").replace("User Story 2 - Access logging", "User Story 1 - Access logging");
+    assert.deepEqual(
+      diagnosticsOf(() => parseSpec(source)),
+      ["25: duplicate User Story 1 (first defined on line 10)"],
+    );
+  });
+
+  it("parses the unfilled template", () => {
+    const spec = parseSpec(readFileSync(join(TEMPLATES_DIR, "spec-template.md"), "utf8"));
+    assert.ok(spec.userStories.length > 0);
+  });
+});
+
+describe("parseTasks", () => {
+  it("reads phases, story tags, completion and paths", () => {
+    const tasks = parseTasks(fixture("tasks.md"));
+
+    assert.equal(tasks.title, "S3 Bucket Module");
+    assert.equal(tasks.description, "Task list for the S3 bucket module");
+    assert.deepEqual(
+      tasks.phases.map((phase) => [phase.id, phase.story?.id ?? null, phase.mvp, phase.tasks.length]),
+      [
+        ["1", null, false, 2],
+        ["2", "US1", true, 2],
+        ["3", "US2", false, 2],
+      ],
+    );
+    assert.equal(tasks.phases[1].checkpoints[0].text, "The basic example applies cleanly");
+    assert.deepEqual(
+      tasks.tasks.filter((task) => task.completed).map((task) => task.id),
+      ["T001", "T002"],
+    );
+    const test = tasks.tasks.find((task) => task.id === "T004")!;
+    assert.equal(test.story, "US1");
+    assert.equal(test.phase, "2");
+    assert.deepEqual(test.paths, ["tests/basic.tftest.hcl"]);
+  });
+
+  it("reports tasks without IDs and malformed phase headings", () => {
+    const source = fixture("tasks.md")
+      .replace("T002 Create", "Create")
+      .replace("## Phase 3: User Story 2", "## Phase three User Story 2");
+    assert.deepEqual(
+      diagnosticsOf(() => parseTasks(source)),
+      [
+        '15: task is missing a T### ID: "Create `variables.tf` and `outputs.tf`"',
+        '30: malformed phase heading "Phase three User Story 2 - Access logging (Priority: P2)"; expected "Phase N: Title"',
+      ],
+    );
+  });
+
+  it("reports tasks outside every phase", () => {
+    const source = fixture("tasks.md").replace("## Phase 1: Setup", "## Setup");
+    assert.deepEqual(
+      diagnosticsOf(() => parseTasks(source)),
+      [
+        '14: task T001 is not under a "## Phase N: Title" heading',
+        '15: task T002 is not under a "## Phase N: Title" heading',
+      ],
+    );
+  });
+
+  it("rejects a task ID used twice", () => {
+    const source = fixture("tasks.md").replace("T006 [US2]", "T005 [US2]");
+    assert.deepEqual(
+      diagnosticsOf(() => parseTasks(source)),
+      ["35: duplicate task T005 (first defined on line 34)"],
+    );
+  });
+});
+
+describe("parsePlan", () => {
+  it("reads the technical context, resource inventory and test files", () => {
+    const plan = parsePlan(fixture("plan.md"));
+
+    assert.equal(plan.title, "S3 Bucket Module");
+    assert.equal(plan.technicalContext["Terraform Version"].value, ">= 1.5.0");
+    assert.equal(plan.technicalContext["Module Type"].value, "child module");
+    assert.deepEqual(
+      plan.resourceInventory.resources.map((resource) => [resource.resourceType, resource.conditional]),
+      [
+        ["aws_s3_bucket", "No"],
+        ["aws_s3_bucket_logging", "var.log_bucket != null"],
+      ],
+    );
+    assert.deepEqual(
+      plan.resourceInventory.dataSources.map((source) => source.dataSource),
+      ["aws_caller_identity"],
+    );
+    assert.deepEqual(
+      plan.testFiles.map((test) => test.file),
+      ["tests/basic.tftest.hcl", "tests/complete.tftest.hcl"],
+    );
+  });
+
+  it("keeps NEEDS CLARIFICATION values and flags them", () => {
+    const plan = parsePlan(fixture("plan.md").replace("**AWS Services**: S3", "**AWS Services**: NEEDS CLARIFICATION"));
+    assert.equal(plan.technicalContext["AWS Services"].needsClarification, true);
+  });
+
+  it("requires a title and a Technical Context section", () => {
+    const source = fixture("plan.md")
+      .replace("# Implementation Plan: S3 Bucket Module", "Implementation Plan")
+      .replace("## Technical Context", "## Context");
+    assert.deepEqual(
+      diagnosticsOf(() => parsePlan(source)),
+      ['1: missing "# Implementation Plan: ..." title', '1: missing "## Technical Context" section'],
+    );
+  });
+});
+
+describe("parseContracts", () => {
+  it("reads the module interface tables", () => {
+    const contracts = parseContracts(fixture("contracts/module-interfaces.md"));
+
+    assert.equal(contracts.moduleName, "s3-bucket");
+    assert.equal(contracts.registryPath, "terraform-aws-s3-bucket");
+    assert.equal(contracts.version, "1.0.0");
+    assert.deepEqual(
+      contracts.inputs.map((input) => [input.name, input.type, input.required]),
+      [
+        ["bucket_name", "string", true],
+        ["log_bucket", "string", false],
+      ],
+    );
+    assert.deepEqual(
+      contracts.outputs.map((output) => [output.name, output.sensitive]),
+      [["bucket_arn", false]],
+    );
+    assert.equal(contracts.validations[0].expression, "length(var.bucket_name) <= 63");
+    assert.equal(contracts.validations[0].errorMessage, "Bucket names are at most 63 characters.");
+    assert.deepEqual(
+      contracts.dependencies.map((dependency) => [dependency.resource, dependency.dependsOn]),
+      [["aws_s3_bucket_logging.this", "aws_s3_bucket.this"]],
+    );
+    assert.deepEqual(
+      contracts.outputMappings.map((mapping) => mapping.output),
+      ["bucket_arn"],
+    );
+  });
+
+  it("requires the Module section", () => {
+    const source = fixture("contracts/module-interfaces.md").replace("## Module: s3-bucket", "## Overview");
+    assert.deepEqual(
+      diagnosticsOf(() => parseContracts(source)),
+      ['1: missing "## Module: NAME" section'],
+    );
+  });
+});
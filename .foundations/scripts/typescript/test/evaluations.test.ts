@@ -0,0 +1,277 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import {
+  type CorrelationRecord,
+  type HistoryEntry,
+  InvalidRecordError,
+  type ReviewKind,
+  type ReviewRecord,
+  appendRecord,
+  assessCorrelation,
+  computeCorrelations,
+  computeDrift,
+  computeTrend,
+  parseHistory,
+  readHistory,
+  readinessFor,
+  validateRecord,
+} from "../lib/evaluations/index.ts";
+
+function specReview(overrides: Partial<ReviewRecord> = {}): ReviewRecord {
+  return {
+    timestamp: "2025-01-07T10:30:00Z",
+    iteration: 1,
+    overall_score: 6.5,
+    dimension_scores: { clarity: 7, testability: 6, tech_agnostic: 7, constitution: 6, user_centric: 6 },
+    readiness: "refinement_recommended",
+    critical_issues: 0,
+    high_priority_issues: 2,
+    ...overrides,
+  };
+}
+
+function correlation(judge: number, human: number, dimension = "overall"): CorrelationRecord {
+  return {
+    timestamp: "2025-01-07T10:30:00Z",
+    feature: "001-s3-bucket",
+    human_score: human,
+    judge_score: judge,
+    delta: Math.round((human - judge) * 100) / 100,
+    dimension,
+  };
+}
+
+function entries(records: ReviewRecord[]): HistoryEntry<ReviewKind>[] {
+  return records.map((record, i) => ({ line: i + 1, record }));
+}
+
+describe("validateRecord", () => {
+  it("accepts a complete review record", () => {
+    assert.deepEqual(validateRecord("spec", specReview()), []);
+  });
+
+  it("reports every schema violation", () => {
+    const record = {
+      ...specReview(),
+      overall_score: 11,
+      readiness: "production_ready",
+      iteration: 0,
+      timestamp: "2025-01-07 10:30",
+      extra: true,
+      dimension_scores: { clarity: 7, testability: 6, tech_agnostic: 7, constitution: 6, security: 5 },
+    };
+    assert.deepEqual(validateRecord("spec", record), [
+      'unknown field "extra"',
+      '"timestamp" must be an ISO-8601 timestamp with time zone',
+      '"iteration" must be an integer >= 1',
+      '"overall_score" must be a number from 0 to 10',
+      '"readiness" must be one of ready, refinement_recommended, rework_required',
+      'unknown dimension "security" (expected clarity, testability, tech_agnostic, constitution, user_centric)',
+      'missing required field dimension "user_centric"',
+    ]);
+  });
+
+  it("checks tracked issue IDs and severities", () => {
+    const record = specReview({
+      issues: [
+        { id: "SPEC-001", severity: "HIGH" },
+        { id: "SPEC-001", severity: "URGENT" as "HIGH" },
+      ],
+    });
+    assert.deepEqual(validateRecord("spec", record), [
+      'issues[1] repeats id "SPEC-001"',
+      "issues[1].severity must be one of CRITICAL, HIGH, MEDIUM, LOW",
+    ]);
+  });
+
+  it("requires delta to equal human_score - judge_score", () => {
+    assert.deepEqual(validateRecord("correlation", correlation(7, 8)), []);
+    assert.deepEqual(validateRecord("correlation", { ...correlation(7, 8), delta: 2 }), [
+      '"delta" must equal human_score - judge_score (1.00)',
+    ]);
+  });
+
+  it("rejects values that are not objects", () => {
+    assert.deepEqual(validateRecord("code", [1, 2]), ["record must be a JSON object"]);
+  });
+});
+
+describe("readinessFor", () => {
+  it("maps scores onto the rubric bands", () => {
+    assert.equal(readinessFor("spec", 7.0), "ready");
+    assert.equal(readinessFor("spec", 6.9), "refinement_recommended");
+    assert.equal(readinessFor("code", 8.0), "production_ready");
+    assert.equal(readinessFor("code", 5.9), "significant_rework");
+    assert.equal(readinessFor("code", 1), "not_production_ready");
+    assert.equal(readinessFor("technical", 6.0), "minor_improvements");
+  });
+});
+
+describe("history files", () => {
+  it("keeps valid lines and rejects the rest with line numbers", () => {
+    const source = [
+      JSON.stringify(specReview()),
+      "",
+      "{not json",
+      JSON.stringify({ ...specReview(), iteration: "2" }),
+    ].join("\n");
+    const history = parseHistory("spec", source, "spec-reviews.jsonl");
+
+    assert.deepEqual(
+      history.entries.map((entry) => entry.line),
+      [1],
+    );
+    assert.deepEqual(
+      history.rejected.map((diagnostic) => diagnostic.line),
+      [3, 4],
+    );
+    assert.match(history.rejected[0].message, /^invalid JSON/);
+    assert.equal(history.rejected[1].message, '"iteration" must be an integer >= 1');
+  });
+
+  it("appends only valid records", async () => {
+    const dir = join(mkdtempSync(join(tmpdir(), "evaluations-test-")), "evaluations");
+    try {
+      await appendRecord("spec", dir, specReview());
+      await assert.rejects(appendRecord("spec", dir, { ...specReview(), overall_score: -1 }), (error: unknown) => {
+        assert.ok(error instanceof InvalidRecordError);
+        assert.deepEqual(error.problems, ['"overall_score" must be a number from 0 to 10']);
+        return true;
+      });
+
+      assert.equal(readFileSync(join(dir, "spec-reviews.jsonl"), "utf8").split("\n").filter(Boolean).length, 1);
+      const history = await readHistory("spec", dir);
+      assert.equal(history.entries.length, 1);
+      assert.deepEqual((await readHistory("code", dir)).entries, []);
+    } finally {
+      rmSync(join(dir, ".."), { recursive: true, force: true });
+    }
+  });
+});
+
+describe("computeTrend", () => {
+  it("tracks deltas, resolved issues and the threshold", () => {
+    const trend = computeTrend(
+      "spec",
+      entries([
+        specReview({
+          iteration: 2,
+          timestamp: "2025-01-07T11:00:00Z",
+          overall_score: 7.4,
+          readiness: "ready",
+          high_priority_issues: 0,
+          issues: [{ id: "SPEC-003", severity: "MEDIUM" }],
+        }),
+        specReview({
+          issues: [
+            { id: "SPEC-001", severity: "HIGH" },
+            { id: "SPEC-002", severity: "HIGH" },
+          ],
+        }),
+      ]),
+    );
+
+    assert.equal(trend.issueTracking, "ids");
+    assert.deepEqual(
+      trend.rows.map((row) => [row.iteration, row.score, row.delta, row.aboveThreshold]),
+      [
+        [1, 6.5, null, false],
+        [2, 7.4, 0.9, true],
+      ],
+    );
+    assert.deepEqual(trend.rows[1].resolvedIssues, ["SPEC-001", "SPEC-002"]);
+    assert.deepEqual(trend.rows[1].newIssues, ["SPEC-003"]);
+    assert.deepEqual(trend.rows[1].issuesFixed, { resolved: 2, previous: 2 });
+    assert.equal(trend.thresholdMet, true);
+    assert.equal(trend.iterationsToThreshold, 2);
+    assert.equal(trend.totalDelta, 0.9);
+    assert.equal(trend.capRespected, true);
+  });
+
+  it("falls back to issue counts and flags runs past the iteration cap", () => {
+    const trend = computeTrend(
+      "code",
+      entries(
+        [1, 2, 3, 4].map((iteration) =>
+          specReview({ iteration, timestamp: `2025-01-0${iteration}T10:00:00Z`, high_priority_issues: 5 - iteration }),
+        ),
+      ),
+    );
+
+    assert.equal(trend.issueTracking, "counts");
+    assert.deepEqual(trend.rows[1].issuesFixed, { resolved: 1, previous: 4 });
+    assert.equal(trend.threshold, 8.0);
+    assert.equal(trend.thresholdMet, false);
+    assert.equal(trend.maxIteration, 4);
+    assert.equal(trend.capRespected, false);
+  });
+});
+
+describe("calibration", () => {
+  it("assesses the coefficient against the calibration bands", () => {
+    assert.equal(assessCorrelation(0.95, 5), "possible_overfitting");
+    assert.equal(assessCorrelation(0.85, 5), "reliable");
+    assert.equal(assessCorrelation(0.75, 5), "minor_calibration");
+    assert.equal(assessCorrelation(0.5, 5), "adjust_rubrics");
+    assert.equal(assessCorrelation(0.95, 4), "insufficient_data");
+    assert.equal(assessCorrelation(null, 10), "insufficient_data");
+  });
+
+  it("reports one correlation per dimension with overall first", () => {
+    const reports = computeCorrelations([
+      correlation(6, 6.5, "security"),
+      correlation(5, 5.5),
+      correlation(6, 6),
+      correlation(7, 7.5),
+      correlation(8, 7.5),
+      correlation(9, 9.5),
+    ]);
+
+    assert.deepEqual(
+      reports.map((report) => [report.dimension, report.samples]),
+      [
+        ["overall", 5],
+        ["security", 1],
+      ],
+    );
+    assert.equal(reports[0].assessment, "possible_overfitting");
+    assert.equal(reports[0].targetMet, true);
+    assert.equal(reports[0].meanAbsoluteDelta, 0.4);
+    assert.equal(reports[1].coefficient, null);
+    assert.equal(reports[1].assessment, "insufficient_data");
+  });
+
+  it("assesses the unrounded coefficient", () => {
+    const judge = [5, 6, 7, 8, 9];
+    const [justBelowTarget] = computeCorrelations(judge.map((score, i) => correlation(score, [3, 3, 3, 6.5, 5.5][i])));
+    const [justAboveReliable] = computeCorrelations(judge.map((score, i) => correlation(score, [3, 4, 9, 7.5, 10][i])));
+
+    assert.equal(justBelowTarget.coefficient, 0.8);
+    assert.equal(justBelowTarget.assessment, "minor_calibration");
+    assert.equal(justBelowTarget.targetMet, false);
+    assert.equal(justAboveReliable.coefficient, 0.9);
+    assert.equal(justAboveReliable.assessment, "possible_overfitting");
+  });
+
+  it("detects month-over-month drift above 5%", () => {
+    const drift = computeDrift("spec", [
+      specReview({ timestamp: "2025-01-07T10:00:00Z", overall_score: 7.0 }),
+      specReview({ timestamp: "2025-02-07T10:00:00Z", overall_score: 7.2 }),
+      specReview({ timestamp: "2025-03-07T10:00:00Z", overall_score: 8.0 }),
+    ]);
+
+    assert.deepEqual(
+      drift.months.map((month) => [month.month, month.changePercent, month.withinLimit]),
+      [
+        ["2025-01", null, true],
+        ["2025-02", 2.86, true],
+        ["2025-03", 11.11, false],
+      ],
+    );
+    assert.equal(drift.driftDetected, true);
+  });
+});
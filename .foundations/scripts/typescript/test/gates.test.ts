@@ -0,0 +1,237 @@
+import assert from "node:assert/strict";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import {
+  DEFAULT_CHECKS,
+  type GateCheck,
+  GateConfigError,
+  exitCodeFor,
+  loadGateConfig,
+  parseGateConfig,
+  requiredVersion,
+  runGates,
+  satisfies,
+} from "../lib/gates/index.ts";
+import { REPO_ROOT, captureContext } from "./helpers.ts";
+
+/** The diagnostics a config is rejected with, as `line: message`. */
+function configErrors(config: unknown): string[] {
+  const source = JSON.stringify(config, null, 2);
+  try {
+    parseGateConfig(config, "env-checks.json", source);
+  } catch (error) {
+    assert.ok(error instanceof GateConfigError);
+    return error.diagnostics.map((diagnostic) => `${diagnostic.line}: ${diagnostic.message}`);
+  }
+  assert.fail("expected a GateConfigError");
+}
+
+function envCheck(name: string, severity: "GATE" | "WARN", dependsOn: string[] = []): GateCheck {
+  return { name, type: "env", severity, timeout: 10, dependsOn, options: { env: [name] } };
+}
+
+describe("parseGateConfig", () => {
+  it("fills in the defaults", () => {
+    assert.deepEqual(
+      parseGateConfig(
+        { checks: [{ name: "DEPLOY_TOKEN", type: "env", severity: "GATE", options: { env: ["X"] } }] },
+        "f",
+      ),
+      [{ ...envCheck("DEPLOY_TOKEN", "GATE"), options: { env: ["X"] }, remediation: undefined }],
+    );
+  });
+
+  it("reports unknown fields, types and options on the check's line", () => {
+    assert.deepEqual(
+      configErrors({
+        checks: [
+          { name: "A", type: "env", severity: "GATE", options: { env: ["A"] }, retries: 2 },
+          { name: "B", type: "shell", severity: "WARN" },
+          { name: "C", type: "tool", severity: "WARN", options: { cmd: "tflint" } },
+          { name: "d", type: "env", severity: "BLOCK", timeout: 0 },
+        ],
+      }),
+      [
+        '4: A: unknown field "retries"',
+        '15: B: "type" must be one of env, tool, command, gh-auth, terraform-version, mcp-image, aws-credentials',
+        '20: C: unknown option "cmd" for type tool',
+        '20: C: missing required option "command" for type tool',
+        '28: d: "name" must be UPPER_SNAKE_CASE, e.g. "TFE_TOKEN"',
+        '28: d: "severity" must be GATE or WARN',
+        '28: d: "timeout" must be a positive number of seconds',
+        '28: d: missing required option "env" for type env',
+      ],
+    );
+  });
+
+  it("reports duplicate names and unknown dependencies", () => {
+    const check = (name: string, dependsOn: string[] = []) => ({
+      name,
+      type: "tool",
+      severity: "WARN",
+      depends_on: dependsOn,
+      options: { command: "x" },
+    });
+    assert.deepEqual(configErrors({ checks: [check("A"), check("B", ["DOCKER"]), check("A")] }), [
+      "4: A: declared more than once",
+      '13: B: depends on unknown check "DOCKER"',
+    ]);
+  });
+
+  it("reports a dependency cycle", () => {
+    const check = (name: string, dependsOn: string[]) => ({
+      name,
+      type: "tool",
+      severity: "WARN",
+      depends_on: dependsOn,
+      options: { command: "x" },
+    });
+    assert.deepEqual(configErrors({ checks: [check("A", ["B"]), check("B", ["C"]), check("C", ["A"])] }), [
+      "4: dependency cycle: A -> B -> C -> A",
+    ]);
+  });
+
+  it("requires a checks array", () => {
+    assert.deepEqual(configErrors([]), ['1: expected an object with a "checks" array']);
+  });
+});
+
+describe("env-checks.json", () => {
+  it("ships the script's five checks, with the extra checks as an opt-in WARN example", () => {
+    const shipped = loadGateConfig(REPO_ROOT);
+    const example = loadGateConfig(REPO_ROOT, join(REPO_ROOT, ".foundations", "env-checks.example.json"));
+
+    // Keys set to undefined are absent from the file.
+    assert.deepEqual(JSON.parse(JSON.stringify(shipped)), DEFAULT_CHECKS);
+    assert.deepEqual(
+      example
+        .filter((check) => !shipped.some((old) => old.name === check.name))
+        .map((check) => [check.name, check.severity]),
+      [
+        ["TERRAFORM_VERSION", "WARN"],
+        ["TRIVY", "WARN"],
+        ["TERRAFORM_DOCS", "WARN"],
+        ["DOCKER", "WARN"],
+        ["MCP_IMAGE", "WARN"],
+        ["AWS_CREDENTIALS", "WARN"],
+      ],
+    );
+  });
+});
+
+describe("runGates", () => {
+  it("skips a check whose dependency failed and keeps the config order", () => {
+    const checks = [envCheck("LINT", "WARN", ["DOCKER"]), envCheck("TOKEN", "GATE"), envCheck("DOCKER", "WARN")];
+
+    const result = runGates(checks, captureContext(REPO_ROOT, { TOKEN: "x", LINT: "x" }), REPO_ROOT);
+
+    assert.deepEqual(result, {
+      gate_passed: true,
+      checks: [
+        { name: "LINT", severity: "WARN", passed: false, detail: "SKIPPED — requires DOCKER" },
+        { name: "TOKEN", severity: "GATE", passed: true, detail: "SET" },
+        { name: "DOCKER", severity: "WARN", passed: false, detail: "NOT SET — export DOCKER" },
+      ],
+    });
+    assert.equal(exitCodeFor(result), 2);
+  });
+
+  it("exits 0 when everything passes and 1 when a GATE check fails", () => {
+    const checks = [envCheck("TOKEN", "GATE"), envCheck("LINT", "WARN")];
+    const exitCode = (env: NodeJS.ProcessEnv) =>
+      exitCodeFor(runGates(checks, captureContext(REPO_ROOT, env), REPO_ROOT));
+
+    assert.equal(exitCode({ TOKEN: "x", LINT: "x" }), 0);
+    assert.equal(exitCode({ LINT: "x" }), 1);
+  });
+
+  it("fails a command that outlives the timeout", () => {
+    const check: GateCheck = {
+      name: "SLOW",
+      type: "command",
+      severity: "WARN",
+      timeout: 0.2,
+      remediation: "see the runbook",
+      dependsOn: [],
+      options: { run: ["sleep", "5"] },
+    };
+
+    const [result] = runGates([check], captureContext(REPO_ROOT), REPO_ROOT).checks;
+
+    assert.equal(result.detail, "TIMED OUT after 0.2s — see the runbook");
+  });
+
+  it("applies the timeout to the whole check, not to each command", () => {
+    // terraform-version runs `terraform version -json`, then `terraform version` when that is not JSON.
+    const bin = mkdtempSync(join(tmpdir(), "gates-test-"));
+    try {
+      writeFileSync(join(bin, "terraform"), '#!/bin/sh\nsleep 0.4\necho "Terraform v1.9.0"\n');
+      chmodSync(join(bin, "terraform"), 0o755);
+      const check = (timeout: number): GateCheck => ({
+        name: "TERRAFORM_VERSION",
+        type: "terraform-version",
+        severity: "WARN",
+        timeout,
+        dependsOn: [],
+        options: { file: "missing.tf" },
+      });
+      const ctx = captureContext(REPO_ROOT, { PATH: `${bin}:${process.env.PATH}` });
+
+      assert.equal(runGates([check(0.6)], ctx, REPO_ROOT).checks[0].detail, "TIMED OUT after 0.6s");
+      assert.equal(
+        runGates([check(5)], ctx, REPO_ROOT).checks[0].detail,
+        "INSTALLED (1.9.0; missing.tf sets no required_version)",
+      );
+    } finally {
+      rmSync(bin, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("satisfies", () => {
+  it("checks each operator and comma-separated lists", () => {
+    assert.equal(satisfies("1.9.0", ">= 1.5.0"), true);
+    assert.equal(satisfies("1.4.9", ">= 1.5.0"), false);
+    assert.equal(satisfies("1.9.0", "1.9"), true);
+    assert.equal(satisfies("1.9.0", "!= 1.9.0"), false);
+    assert.equal(satisfies("1.9.0", ">= 1.5, < 2.0"), true);
+    assert.equal(satisfies("2.0.0", ">= 1.5, < 2.0"), false);
+  });
+
+  it("bounds ~> by the last written part", () => {
+    assert.equal(satisfies("1.2.9", "~> 1.2.3"), true);
+    assert.equal(satisfies("1.3.0", "~> 1.2.3"), false);
+    assert.equal(satisfies("1.9.0", "~> 1.2"), true);
+    assert.equal(satisfies("2.0.0", "~> 1.2"), false);
+    assert.equal(satisfies("7.0.0", "~> 1"), true);
+    assert.equal(satisfies("1.2.2", "~> 1.2.3"), false);
+  });
+
+  it("sorts a pre-release before its release", () => {
+    assert.equal(satisfies("1.10.0-beta1", ">= 1.10.0"), false);
+    assert.equal(satisfies("1.10.0-beta1", ">= 1.9"), true);
+  });
+
+  it("returns undefined when either side cannot be parsed", () => {
+    assert.equal(satisfies("dev", ">= 1.5"), undefined);
+    assert.equal(satisfies("1.9.0", ">= one"), undefined);
+  });
+});
+
+describe("requiredVersion", () => {
+  it("reads the terraform block's constraint and ignores commented-out ones", () => {
+    const hcl = [
+      '# required_version = ">= 0.12"',
+      '/* required_version = "~> 0.13" */',
+      "terraform {",
+      '  required_version = ">= 1.5.0" // pinned by CI',
+      "}",
+    ].join("\n");
+
+    assert.equal(requiredVersion(hcl), ">= 1.5.0");
+    assert.equal(requiredVersion("terraform {}\n"), undefined);
+  });
+});
@@ -0,0 +1,365 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import { parseTasks } from "../lib/artifacts/tasks.ts";
+import {
+  type FakeGitHub,
+  GitHubApiError,
+  GitHubClient,
+  type IssueComment,
+  type IssueManifest,
+  PROGRESS_MARKER,
+  type ProgressData,
+  type SyncAction,
+  apiBaseUrl,
+  applyProgress,
+  findProgressComment,
+  formatDuration,
+  loadManifest,
+  parseProgressData,
+  renderProgressComment,
+  saveManifest,
+  startFakeGitHub,
+  syncIssues,
+  syncItems,
+} from "../lib/github/index.ts";
+import { FIXTURES_DIR, NOW } from "./helpers.ts";
+
+describe("apiBaseUrl", () => {
+  it("derives the API root from the origin host", () => {
+    assert.equal(apiBaseUrl("github.com", {}), "https://api.github.com");
+    assert.equal(apiBaseUrl("octo.ghe.com", {}), "https://api.octo.ghe.com");
+    assert.equal(apiBaseUrl("git.example.com", {}), "https://git.example.com/api/v3");
+  });
+
+  it("uses GITHUB_API_URL only when it is the origin host's API", () => {
+    assert.equal(
+      apiBaseUrl("git.example.com", { GITHUB_API_URL: "https://git.example.com/api/v3/" }),
+      "https://git.example.com/api/v3",
+    );
+    assert.equal(apiBaseUrl("github.com", { GITHUB_API_URL: "https://evil.example.com" }), "https://api.github.com");
+    assert.equal(apiBaseUrl("github.com", { GITHUB_API_URL: "not a url" }), "https://api.github.com");
+  });
+
+  it("lets an explicit --api-url point anywhere", () => {
+    assert.equal(
+      apiBaseUrl("github.com", { GITHUB_API_URL: "https://api.github.com" }, "http://127.0.0.1:8765/"),
+      "http://127.0.0.1:8765",
+    );
+  });
+});
+
+describe("findProgressComment", () => {
+  function comment(id: number, login: string | null, app = false): IssueComment {
+    return {
+      id,
+      body: `${PROGRESS_MARKER}\nprogress`,
+      html_url: `https://github.com/octo/repo/issues/1#issuecomment-${id}`,
+      updated_at: "2025-01-07T10:30:00Z",
+      user: login === null ? null : { login },
+      performed_via_github_app: app ? { slug: "speckit" } : null,
+    };
+  }
+
+  it("picks the newest marker comment by the token's user", () => {
+    const comments = [comment(1, "bot"), comment(2, "bot"), comment(3, "someone"), comment(4, null)];
+
+    assert.equal(findProgressComment(comments, "bot")?.id, 2);
+    assert.equal(findProgressComment(comments, "nobody"), undefined);
+  });
+
+  it("picks comments made by a GitHub App when the token has no user", () => {
+    const comments = [comment(1, "github-actions[bot]", true), comment(2, "someone")];
+
+    assert.equal(findProgressComment(comments, undefined)?.id, 1);
+  });
+});
+
+describe("progress comment", () => {
+  const at = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+  /** Applies `[phase, status, seconds after NOW, summary?]` updates in order. */
+  const progress = (...updates: [string, "started" | "complete" | "failed", number, string?][]) =>
+    updates.reduce<ProgressData>(
+      (data, [phase, status, seconds, summary]) => applyProgress(data, phase, status, at(seconds), summary),
+      { phases: [] },
+    );
+  const header = (body: string) => body.split("\n")[1];
+  const rows = (body: string) => body.split("\n").filter((line) => /^\| (?!Phase |-)/.test(line));
+
+  it("formats durations in seconds, minutes and hours", () => {
+    assert.deepEqual(
+      [formatDuration(45_400), formatDuration(185_000), formatDuration(3_720_000)],
+      ["45s", "3m 05s", "1h 02m"],
+    );
+  });
+
+  it("shows each phase's duration, and the running time of the one in progress", () => {
+    const data = progress(
+      ["Environment Validation", "started", 0],
+      ["Environment Validation", "complete", 45, "All gates passed"],
+      ["Planning", "started", 50],
+    );
+
+    const body = renderProgressComment(data, at(235));
+
+    assert.equal(header(body), "## 🔄 Workflow Progress");
+    assert.match(body, /^\*\*Current phase\*\*: Planning — In Progress$/m);
+    assert.deepEqual(rows(body), [
+      "| Environment Validation | ✅ Complete | 2025-01-07 10:30 UTC | 45s | All gates passed |",
+      "| Planning | 🔄 In Progress | 2025-01-07 10:30 UTC | 3m 05s (running) |  |",
+    ]);
+  });
+
+  it("restarts a phase with a fresh start time and opens one that finishes without a start", () => {
+    const data = progress(
+      ["Planning", "started", 0],
+      ["Planning", "failed", 60, "timeout"],
+      ["Planning", "started", 120],
+      ["Tasks", "complete", 130],
+    );
+
+    assert.deepEqual(data.phases, [
+      { name: "Planning", status: "started", started_at: at(120).toISOString() },
+      { name: "Tasks", status: "complete", started_at: at(130).toISOString(), finished_at: at(130).toISOString() },
+    ]);
+  });
+
+  it("marks the run failed until the failure is retried or a later phase starts", () => {
+    const failed = progress(["Planning", "started", 0], ["Planning", "failed", 60]);
+    const retried = applyProgress(failed, "Planning", "started", at(120));
+    const movedOn = applyProgress(failed, "Tasks", "started", at(120));
+    const finished = applyProgress(movedOn, "Tasks", "complete", at(180));
+
+    assert.equal(header(renderProgressComment(failed, at(60))), "## ❌ Workflow Progress");
+    assert.equal(header(renderProgressComment(retried, at(120))), "## 🔄 Workflow Progress");
+    assert.equal(header(renderProgressComment(movedOn, at(120))), "## 🔄 Workflow Progress");
+    const body = renderProgressComment(finished, at(180));
+    assert.equal(header(body), "## ✅ Workflow Progress");
+    assert.match(rows(body)[0], /^\| Planning \| ❌ Failed \|/);
+  });
+
+  it("escapes the phase name in details and keeps the embedded JSON inside its HTML comment", () => {
+    const data = applyProgress(
+      { phases: [] },
+      "<b>Plan</b> & Apply",
+      "complete",
+      NOW,
+      "a --> b",
+      "Ran `terraform plan`",
+    );
+
+    const body = renderProgressComment(data, NOW);
+
+    assert.match(body, /^<details><summary>&lt;b&gt;Plan&lt;\/b&gt; &amp; Apply<\/summary>$/m);
+    const comment = body.split("\n").at(-1) ?? "";
+    assert.equal(comment.indexOf("-->"), comment.length - 3);
+    assert.deepEqual(parseProgressData(body), data);
+  });
+
+  it("lists the tasks.md checkboxes by phase", () => {
+    const tasksPath = join(FIXTURES_DIR, "001-s3-bucket", "tasks.md");
+    const tasks = parseTasks(readFileSync(tasksPath, "utf8"), tasksPath);
+
+    const body = renderProgressComment(progress(["Implementation", "started", 0]), NOW, tasks);
+
+    const list = body.slice(body.indexOf("### Tasks"), body.indexOf("</details>") + "</details>".length);
+    assert.deepEqual(list.split("\n"), [
+      "### Tasks (2/6)",
+      "",
+      "<details><summary>Task list</summary>",
+      "",
+      "**Phase 1: Setup**",
+      "",
+      "- [x] T001 Create `versions.tf` with provider constraints",
+      "- [x] T002 Create `variables.tf` and `outputs.tf`",
+      "",
+      "**Phase 2: User Story 1 - Private bucket (Priority: P1) MVP**",
+      "",
+      "- [ ] T003 [US1] Add the bucket and public access block to `main.tf`",
+      "- [ ] T004 [US1] Write `tests/basic.tftest.hcl` asserting the public access block",
+      "",
+      "**Phase 3: User Story 2 - Access logging (Priority: P2)**",
+      "",
+      "- [ ] T005 [US2] Add `aws_s3_bucket_logging` to `main.tf`",
+      "- [ ] T006 [US2] Write `tests/complete.tftest.hcl` for access logging",
+      "",
+      "</details>",
+    ]);
+  });
+});
+
+describe("syncIssues", () => {
+  const repo = { host: "github.com", owner: "octo", name: "repo" };
+  const tasksPath = join(FIXTURES_DIR, "001-s3-bucket", "tasks.md");
+  const fixture = readFileSync(tasksPath, "utf8");
+  const itemsOf = (markdown: string) => syncItems(parseTasks(markdown, tasksPath), "specs/001-s3-bucket/tasks.md");
+  const items = itemsOf(fixture);
+  const changed = (actions: SyncAction[]) =>
+    actions
+      .filter((action) => action.action !== "unchanged")
+      .map((action) => [action.key, action.action, action.changes]);
+
+  /** Syncs `markdown` into a fresh fake repository, then runs `check` with a sync against it. */
+  async function withSynced(
+    markdown: string,
+    check: (
+      github: FakeGitHub,
+      manifest: IssueManifest,
+      sync: (markdown: string) => Promise<SyncAction[]>,
+    ) => Promise<void>,
+  ) {
+    const github = await startFakeGitHub();
+    try {
+      github.data.repos["octo/repo"] = { issues: [], comments: [] };
+      const manifest: IssueManifest = { repository: "github.com/octo/repo", issues: {} };
+      const target = { client: new GitHubClient({ baseUrl: github.url }), repo, save: () => {} };
+      const sync = (next: string) => syncIssues(itemsOf(next), manifest, target);
+      await sync(markdown);
+      await check(github, manifest, sync);
+    } finally {
+      await github.close();
+    }
+  }
+
+  it("records a created issue before closing and linking it, so a re-run retries only those steps", async () => {
+    const github = await startFakeGitHub();
+    try {
+      github.data.repos["octo/repo"] = { issues: [], comments: [] };
+      const manifest: IssueManifest = { repository: "github.com/octo/repo", issues: {} };
+      const saved: string[] = [];
+      const save = (current: IssueManifest) => saved.push(JSON.stringify(current));
+      // The first sub-issue link fails, after T001 was created and closed
+      const failingLink: typeof fetch = (input, init) =>
+        init?.method === "POST" && String(input).endsWith("/sub_issues")
+          ? Promise.resolve(new Response('{"message":"Server Error"}', { status: 502 }))
+          : fetch(input, init);
+
+      await assert.rejects(
+        syncIssues(items, manifest, {
+          client: new GitHubClient({ baseUrl: github.url, fetch: failingLink }),
+          repo,
+          save,
+        }),
+        GitHubApiError,
+      );
+      const t001 = JSON.parse(saved.at(-1) ?? "{}").issues.T001;
+      assert.deepEqual([t001.state, t001.parent, t001.linked], ["closed", "phase-setup", false]);
+
+      const actions = await syncIssues(items, manifest, {
+        client: new GitHubClient({ baseUrl: github.url }),
+        repo,
+        save,
+      });
+
+      const { issues } = github.data.repos["octo/repo"];
+      assert.equal(issues.length, 9);
+      assert.deepEqual(
+        actions
+          .filter((action) => action.action !== "create")
+          .map((action) => [action.key, action.action, action.changes]),
+        [
+          ["phase-setup", "unchanged", []],
+          ["T001", "update", ["parent"]],
+        ],
+      );
+      assert.equal(
+        issues.find((issue) => issue.title.startsWith("T001"))?.parent,
+        manifest.issues["phase-setup"].number,
+      );
+      assert.equal(manifest.issues.T001.linked, true);
+    } finally {
+      await github.close();
+    }
+  });
+
+  it("keys phases by title, so renumbering them updates their issues", async () => {
+    const renumbered = fixture
+      .replace("Phase 3:", "Phase 4:")
+      .replace("Phase 2:", "Phase 3:")
+      .replace("## Phase 1: Setup", "## Phase 1: Prerequisites\n\n- [ ] T007 Install tflint\n\n## Phase 2: Setup");
+
+    await withSynced(fixture, async (github, manifest, sync) => {
+      const setup = manifest.issues["phase-setup"].number;
+
+      const actions = await sync(renumbered);
+
+      assert.deepEqual(changed(actions), [
+        ["phase-prerequisites", "create", []],
+        ["T007", "create", []],
+        ["phase-setup", "update", ["title", "body"]],
+        ["T001", "update", ["body"]],
+        ["T002", "update", ["body"]],
+        ["US1", "update", ["title"]],
+        ["T003", "update", ["body"]],
+        ["T004", "update", ["body"]],
+        ["US2", "update", ["title"]],
+        ["T005", "update", ["body"]],
+        ["T006", "update", ["body"]],
+      ]);
+      assert.equal(manifest.issues["phase-setup"].number, setup);
+      const { issues } = github.data.repos["octo/repo"];
+      assert.equal(issues.find((issue) => issue.number === setup)?.title, "Phase 2: Setup");
+      assert.equal(issues.find((issue) => issue.title.startsWith("T001"))?.parent, setup);
+    });
+  });
+
+  it("updates changed tasks, closes removed ones and re-links moved ones", async () => {
+    const edited = fixture
+      .replace("- [ ] T003", "- [x] T003")
+      .replace("- [ ] T004 [US1] Write `tests/basic.tftest.hcl` asserting the public access block\n", "")
+      .replace("- [ ] T005 [US2] Add `aws_s3_bucket_logging` to `main.tf`\n", "")
+      .replace("**Checkpoint**", "- [ ] T005 [US1] Add `aws_s3_bucket_logging` to `main.tf`\n\n**Checkpoint**")
+      .replace("for access logging", "for access logging and versioning");
+
+    await withSynced(fixture, async (github, manifest, sync) => {
+      const actions = await sync(edited);
+
+      assert.deepEqual(changed(actions), [
+        ["US1", "update", ["body"]],
+        ["T003", "update", ["state"]],
+        ["T005", "update", ["body", "parent"]],
+        ["US2", "update", ["body"]],
+        ["T006", "update", ["title", "body"]],
+        ["T004", "close", ["state"]],
+      ]);
+      const { issues } = github.data.repos["octo/repo"];
+      const issue = (key: string) => issues.find((candidate) => candidate.number === manifest.issues[key].number);
+      assert.deepEqual([issue("T003")?.state, issue("T003")?.state_reason], ["closed", "completed"]);
+      assert.deepEqual([issue("T004")?.state, issue("T004")?.state_reason], ["closed", "not_planned"]);
+      assert.equal(manifest.issues.T004.removed, true);
+      assert.equal(issue("T005")?.parent, manifest.issues.US1.number);
+      assert.deepEqual([manifest.issues.T005.parent, manifest.issues.T005.linked], ["US1", true]);
+      assert.match(
+        issue("T006")?.body ?? "",
+        new RegExp(`\\*\\*Depends on\\*\\*: #${manifest.issues.T005.number}$`, "m"),
+      );
+    });
+  });
+
+  it("reads back the manifest it saved and finds nothing to change", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "github-test-"));
+    try {
+      await withSynced(fixture, async (github, manifest) => {
+        const file = join(dir, "github-issues.json");
+        saveManifest(file, manifest);
+        const loaded = loadManifest(file);
+        assert.deepEqual(loaded, manifest);
+        const writes = github.requests.length;
+
+        const actions = await syncIssues(items, loaded as IssueManifest, {
+          client: new GitHubClient({ baseUrl: github.url }),
+          repo,
+          save: () => assert.fail("nothing should be saved"),
+        });
+
+        assert.deepEqual(changed(actions), []);
+        assert.equal(github.requests.length, writes);
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
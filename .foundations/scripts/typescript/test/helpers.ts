@@ -0,0 +1,96 @@
+// Shared fixtures for the node:test suites: temporary git repositories with
+// the real templates, and a CommandContext that captures output by line.
+
+import { execFileSync } from "node:child_process";
+import { cpSync, mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import type { CommandContext } from "../lib/speckit/index.ts";
+
+/** Root of this repository (four levels above test/). */
+export const REPO_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "../../../..");
+
+export const TEMPLATES_DIR = join(REPO_ROOT, ".foundations", "templates");
+
+export const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+/** Fixed clock for commands that stamp dates. */
+export const NOW = new Date("2025-01-07T10:30:00Z");
+
+export interface CapturedContext extends CommandContext {
+  stdout: string[];
+  stderr: string[];
+}
+
+/** A context rooted at `cwd` whose output is collected instead of printed. */
+export function captureContext(cwd: string, env: NodeJS.ProcessEnv = {}): CapturedContext {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  return {
+    cwd,
+    env: {
+      PATH: process.env.PATH,
+      HOME: process.env.HOME,
+      GIT_CONFIG_NOSYSTEM: "1",
+      GIT_AUTHOR_NAME: "Test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "Test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+      ...env,
+    },
+    out: (line) => stdout.push(line),
+    err: (line) => stderr.push(line),
+    now: () => NOW,
+    stdout,
+    stderr,
+  };
+}
+
+export function runGit(cwd: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+    env: { ...process.env, GIT_CONFIG_NOSYSTEM: "1" },
+  });
+}
+
+export interface TempRepo {
+  root: string;
+  /** Writes a file relative to the repository root, creating its directory. */
+  write(path: string, content: string): string;
+  git(...args: string[]): string;
+  remove(): void;
+}
+
+/**
+ * A git repository on `main` with one commit and a copy of
+ * .foundations/templates. `git: false` gives a plain directory instead.
+ */
+export function tempRepo(options: { git?: boolean } = {}): TempRepo {
+  // git reports the resolved path, so compare against it rather than a symlinked TMPDIR.
+  const root = realpathSync(mkdtempSync(join(tmpdir(), "speckit-test-")));
+  cpSync(TEMPLATES_DIR, join(root, ".foundations", "templates"), { recursive: true });
+  const repo: TempRepo = {
+    root,
+    write(path, content) {
+      const file = join(root, path);
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, content);
+      return file;
+    },
+    git: (...args) => runGit(root, args),
+    remove: () => rmSync(root, { recursive: true, force: true }),
+  };
+  if (options.git !== false) {
+    repo.git("init", "--quiet", "--initial-branch=main");
+    repo.git("config", "user.name", "Test");
+    repo.git("config", "user.email", "test@example.com");
+    repo.git("config", "commit.gpgsign", "false");
+    repo.git("add", "-A");
+    repo.git("commit", "--quiet", "-m", "initial");
+  }
+  return repo;
+}
@@ -0,0 +1,268 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import { ArtifactParseError } from "../lib/artifacts/errors.ts";
+import {
+  type FormResponse,
+  draftSpec,
+  parseIssueBody,
+  parseIssueForm,
+  parseYaml,
+  scenarioResponse,
+  validateResponse,
+} from "../lib/issue-form/index.ts";
+import { REPO_ROOT, TEMPLATES_DIR } from "./helpers.ts";
+
+const FORM = parseIssueForm(`name: Module request
+description: Request a module
+body:
+  - type: input
+    id: name
+    attributes:
+      label: Module name
+  - type: textarea
+    id: notes
+    attributes:
+      label: Notes
+  - type: dropdown
+    id: env
+    attributes:
+      label: Environment
+      options:
+        - dev
+        - prod
+`);
+
+const CONSUMER_FORM_FILE = join(REPO_ROOT, ".github", "ISSUE_TEMPLATE", "terraform-consumer-requirements.yml");
+const CONSUMER_FORM = parseIssueForm(readFileSync(CONSUMER_FORM_FILE, "utf8"), CONSUMER_FORM_FILE);
+
+function scenario(name: string): FormResponse {
+  return scenarioResponse(readFileSync(join(REPO_ROOT, ".github", "test-scenarios", name), "utf8"), CONSUMER_FORM);
+}
+
+describe("parseYaml", () => {
+  it("reads mappings, sequences, flow sequences and block and quoted scalars", () => {
+    const document = parseYaml(`name: "Module \\"request\\""
+count: 3
+enabled: true
+empty:
+tags: [a, 'b c', "d"]
+body:
+  - type: textarea   # comment
+    text: |
+      line one
+      line two
+  - folded: >
+      one
+      two
+`);
+
+    assert.deepEqual(document.value, {
+      name: 'Module "request"',
+      count: 3,
+      enabled: true,
+      empty: null,
+      tags: ["a", "b c", "d"],
+      body: [{ type: "textarea", text: "line one\nline two\n" }, { folded: "one two\n" }],
+    });
+    const body = (document.value as { body: object[] }).body;
+    assert.deepEqual([document.lineOf(body), document.lineOf(body[1])], [7, 11]);
+  });
+
+  it("reports every unsupported construct with its line", () => {
+    const source = 'a: 1\n\tb: 2\na: 3\nc: &x 1\nd: {e: 1}\nf: "open\ng: plain\n  more\n';
+
+    assert.throws(
+      () => parseYaml(source),
+      (error) => {
+        assert.ok(error instanceof ArtifactParseError);
+        assert.deepEqual(
+          error.diagnostics.map((diagnostic) => `${diagnostic.line}: ${diagnostic.message}`),
+          [
+            "2: tabs are not allowed for indentation",
+            '3: duplicate key "a"',
+            "4: anchors, aliases, tags and reserved indicators are not supported: &x 1",
+            "5: flow mappings ({...}) are not supported",
+            "6: unterminated double-quoted string",
+            "8: unexpected indentation (multi-line plain scalars are not supported; use | or quotes)",
+          ],
+        );
+        return true;
+      },
+    );
+  });
+});
+
+describe("validateResponse", () => {
+  it("lists the unanswered required fields", () => {
+    const check = validateResponse(CONSUMER_FORM, { project_name: "vpc", provider: "AWS", hcp_project: "  " });
+
+    assert.deepEqual(
+      check.missing.map((field) => field.id),
+      ["business_requirements", "hcp_org", "hcp_project", "infrastructure_components"],
+    );
+    assert.deepEqual(check.errors, []);
+  });
+
+  it("rejects unknown fields and dropdown values the form does not offer", () => {
+    const check = validateResponse(CONSUMER_FORM, {
+      project_name: "vpc",
+      provider: ["AWS", "Azure"],
+      modules_to_consume: ["app.terraform.io/<hcp_org_name>/vpc/aws", "app.terraform.io/<hcp_org_name>/kms/aws"],
+      owner: "platform",
+    });
+
+    assert.deepEqual(check.errors, [
+      '"owner" is not a field of 🚀 Terraform Deployment Requirements',
+      "Cloud Provider: only one option may be selected",
+    ]);
+    assert.deepEqual(validateResponse(CONSUMER_FORM, { provider: "Amazon" }).errors, [
+      'Cloud Provider: "Amazon" is not one of the options (AWS, Azure, GCP, Multi-cloud, Other)',
+    ]);
+  });
+
+  it("treats a checkbox field missing a required option as unanswered", () => {
+    const form = parseIssueForm(`name: Request
+description: Request
+body:
+  - type: checkboxes
+    id: terms
+    attributes:
+      label: Terms
+      options:
+        - label: I read the guide
+          required: true
+        - label: Notify me
+`);
+
+    assert.deepEqual(
+      validateResponse(form, { terms: ["Notify me"] }).missing.map((field) => field.id),
+      ["terms"],
+    );
+    assert.deepEqual(validateResponse(form, { terms: ["I read the guide"] }), { missing: [], errors: [] });
+  });
+});
+
+describe("scenarioResponse", () => {
+  it("maps example_ec2.md onto the consumer requirements form", () => {
+    assert.deepEqual(scenario("example_ec2.md"), {
+      project_name: "EC2 Instance with ALB and Nginx",
+      provider: "AWS",
+      hcp_org: "ravi-panchal-org",
+      hcp_project: "Default Project",
+      additional_context: [
+        "**IMPORTANT**: Do not prompt me - make best practice decisions independently",
+        "Using the **github-speckit-tester** skill non-interactively.",
+        "Workflow Instructions:",
+        "- Always create a new branch",
+        "- Follow best practice",
+        "- Use subagents to make best practice decisions if you need clarity",
+        "- Don't prompt the user - make decisions yourself",
+        "- If you hit issues, resolve them without prompting",
+      ].join("\n"),
+      infrastructure_components: "- EC2 instances across 2 AZs\n- HTTPS and Nginx\n- ALB (Application Load Balancer)",
+      cloud_accounts_regions: "- AWS Region: `ap-southeast-2`",
+      existing_infrastructure: "- Use existing default VPC",
+      cost_budget: "- enviromnment development minimal cost",
+      configuration_parameters: "- HCP Terraform workspace: `sandbox_ec2<GITHUB_REPO_NAME>`",
+    });
+  });
+
+  it("maps example_ec2_only.md, leaving only the business requirements unanswered", () => {
+    const response = scenario("example_ec2_only.md");
+
+    assert.equal(response.project_name, "A public EC2 Instance");
+    assert.equal(
+      response.infrastructure_components,
+      [
+        "- A single EC2 instance accessible via SSH",
+        "- SSH server should be configured to allow access using username/password.",
+        "- No SSH private/public key access is required.",
+      ].join("\n"),
+    );
+    assert.equal(response.cloud_accounts_regions, "- AWS Region: `ap-southeast-1`");
+    for (const name of ["example_ec2.md", "example_ec2_only.md"]) {
+      const check = validateResponse(CONSUMER_FORM, scenario(name));
+      assert.deepEqual([check.missing.map((field) => field.id), check.errors], [["business_requirements"], []], name);
+    }
+  });
+});
+
+describe("draftSpec", () => {
+  const template = readFileSync(join(TEMPLATES_DIR, "spec-template.md"), "utf8");
+  const options = { date: "2025-01-07", source: "test scenario example_ec2.md" };
+  const clarifications = (spec: string) => spec.split("\n").filter((line) => line.includes("NEEDS CLARIFICATION"));
+
+  it("turns each unanswered required field into a NEEDS CLARIFICATION requirement", () => {
+    const response = scenario("example_ec2.md");
+
+    const draft = draftSpec(template, CONSUMER_FORM, response, validateResponse(CONSUMER_FORM, response), {
+      ...options,
+      issue: 42,
+    });
+
+    assert.deepEqual(clarifications(draft.spec), [
+      '- **FR-001**: Deployment MUST satisfy the Business Requirements requirement [NEEDS CLARIFICATION: "Business Requirements" is required by the issue form but was not answered]',
+    ]);
+    assert.match(draft.spec, /^- \*\*FR-002\*\*: Deployment MUST use AWS as the cloud provider$/m);
+    assert.match(draft.spec, /^- \*\*FR-005\*\*: Deployment MUST deploy to AWS Region: `ap-southeast-2`$/m);
+    assert.deepEqual(draft.args, [
+      "--issue",
+      "42",
+      "--short-name",
+      "ec2-instance-alb",
+      "EC2 Instance with ALB and Nginx",
+    ]);
+  });
+
+  it("marks a missing project name in the title as well", () => {
+    const { project_name: _, ...response } = scenario("example_ec2.md");
+
+    const draft = draftSpec(template, CONSUMER_FORM, response, validateResponse(CONSUMER_FORM, response), options);
+
+    assert.deepEqual(clarifications(draft.spec), [
+      "# Feature Specification: [NEEDS CLARIFICATION: project name not provided]",
+      '- **FR-001**: Deployment MUST satisfy the Project/Application Name requirement [NEEDS CLARIFICATION: "Project/Application Name" is required by the issue form but was not answered]',
+      '- **FR-002**: Deployment MUST satisfy the Business Requirements requirement [NEEDS CLARIFICATION: "Business Requirements" is required by the issue form but was not answered]',
+    ]);
+    assert.equal(draft.branch, undefined);
+  });
+});
+
+describe("parseIssueBody", () => {
+  it("splits the body into fields by heading", () => {
+    const parsed = parseIssueBody(
+      "### Module name\n\ns3-bucket\n\n### Notes\n\nPrivate\n\n### Environment\n\nprod\n",
+      FORM,
+    );
+
+    assert.deepEqual(parsed.response, { name: "s3-bucket", notes: "Private", env: "prod" });
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.warnings, []);
+  });
+
+  it("keeps an unknown heading inside a textarea with a warning", () => {
+    const parsed = parseIssueBody("### Notes\n\nPrivate\n\n### Details\n\nNo ACLs\n", FORM);
+
+    assert.equal(parsed.response.notes, "Private\n\n### Details\n\nNo ACLs");
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.warnings, [
+      'line 5: "### Details" is not a field of Module request; kept as part of Notes',
+    ]);
+  });
+
+  it("reports text before the first field and headings after other fields", () => {
+    const body =
+      "<!-- hidden -->\nHello\n\n### Module name\n\ns3-bucket\n\n### Region\n\neu-west-1\n\n### Module name\n";
+    const parsed = parseIssueBody(body, FORM);
+
+    assert.deepEqual(parsed.errors, [
+      "line 2: text before the first field heading is not part of any field of Module request",
+      'line 8: "### Region" is not a field of Module request',
+      'line 12: "### Module name" repeats a field of Module request',
+    ]);
+    assert.deepEqual(parsed.warnings, []);
+  });
+});
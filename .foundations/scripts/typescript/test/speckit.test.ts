@@ -0,0 +1,702 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { chmodSync, existsSync, readFileSync, rmSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { type FakeGitHub, PROGRESS_MARKER, seedIssue, startFakeGitHub } from "../lib/github/index.ts";
+import { COMMANDS } from "../lib/speckit/index.ts";
+import {
+  type CapturedContext,
+  FIXTURES_DIR,
+  REPO_ROOT,
+  TEMPLATES_DIR,
+  type TempRepo,
+  captureContext,
+  runGit,
+  tempRepo,
+} from "./helpers.ts";
+
+let repo: TempRepo;
+
+afterEach(() => repo.remove());
+
+async function speckit(command: string, argv: string[], ctx: CapturedContext = captureContext(repo.root)) {
+  const status = await COMMANDS[command].run(argv, ctx);
+  return { status, stdout: ctx.stdout, stderr: ctx.stderr };
+}
+
+function json(lines: string[]): Record<string, unknown> {
+  assert.equal(lines.length, 1, `expected one JSON line, got ${JSON.stringify(lines)}`);
+  return JSON.parse(lines[0]);
+}
+
+/** Runs `script` through the bash wrapper in `.specify` or `.foundations`, as agents call it. */
+function wrapper(copy: ".specify" | ".foundations", script: string, argv: string[], env: NodeJS.ProcessEnv = {}) {
+  return spawnSync("bash", [join(REPO_ROOT, copy, "scripts", "bash", `${script}.sh`), ...argv], {
+    cwd: repo.root,
+    encoding: "utf8",
+    env: { ...captureContext(repo.root, env).env, PATH: `${dirname(process.execPath)}:${process.env.PATH}` },
+  });
+}
+
+/** A repository on branch `001-s3-bucket` with specs/001-s3-bucket/spec.md. */
+function featureRepo(): string {
+  repo = tempRepo();
+  repo.git("checkout", "--quiet", "-b", "001-s3-bucket");
+  repo.write("specs/001-s3-bucket/spec.md", "# Feature Specification: S3 Bucket\n");
+  return join(repo.root, "specs", "001-s3-bucket");
+}
+
+describe("create-new-feature", () => {
+  beforeEach(() => {
+    repo = tempRepo();
+  });
+
+  it("prints BRANCH_NAME, SPEC_FILE, FEATURE_NUM and FEATURE_DIR as JSON", async () => {
+    const result = await speckit("create-new-feature", ["--json", "--short-name", "s3-bucket", "Private S3 bucket"]);
+
+    assert.equal(result.status, 0);
+    const featureDir = join(repo.root, "specs", "001-s3-bucket");
+    assert.deepEqual(json(result.stdout), {
+      BRANCH_NAME: "001-s3-bucket",
+      SPEC_FILE: join(featureDir, "spec.md"),
+      FEATURE_NUM: "001",
+      FEATURE_DIR: featureDir,
+    });
+    assert.equal(repo.git("rev-parse", "--abbrev-ref", "HEAD").trim(), "001-s3-bucket");
+    assert.equal(
+      readFileSync(join(featureDir, "spec.md"), "utf8"),
+      readFileSync(join(TEMPLATES_DIR, "spec-template.md"), "utf8"),
+    );
+  });
+
+  it("numbers the next feature after existing specs and branches", async () => {
+    repo.write("specs/001-s3-bucket/spec.md", "");
+    repo.git("branch", "002-vpc");
+
+    const result = await speckit("create-new-feature", ["Add an IAM role for the deployer"]);
+
+    assert.equal(result.status, 0);
+    assert.equal(result.stdout[0], "BRANCH_NAME: 003-iam-role-deployer");
+    assert.equal(result.stdout[2], "FEATURE_NUM: 003");
+    assert.equal(result.stdout[3], "SPECIFY_FEATURE environment variable set to: 003-iam-role-deployer");
+  });
+
+  it("exits 1 with the usage line when no description is given", async () => {
+    const result = await speckit("create-new-feature", ["--json"]);
+
+    assert.equal(result.status, 1);
+    assert.deepEqual(result.stdout, []);
+    assert.match(result.stderr[0], /^Usage: speckit create-new-feature/);
+  });
+
+  it("creates the spec without a branch outside git", async () => {
+    repo.remove();
+    repo = tempRepo({ git: false });
+
+    const result = await speckit("create-new-feature", ["--json", "--number", "7", "Logging bucket"]);
+
+    assert.equal(result.status, 0);
+    assert.equal(json(result.stdout).BRANCH_NAME, "007-logging-bucket");
+    assert.match(
+      result.stderr.join("\n"),
+      /Git repository not detected; skipped branch creation for 007-logging-bucket/,
+    );
+  });
+});
+
+describe("check-prerequisites", () => {
+  it("exits 1 off a feature branch", async () => {
+    repo = tempRepo();
+
+    const result = await speckit("check-prerequisites", ["--json"]);
+
+    assert.equal(result.status, 1);
+    assert.deepEqual(result.stderr, [
+      "ERROR: Not on a feature branch. Current branch: main\nFeature branches should be named like: 001-feature-name",
+    ]);
+  });
+
+  it("exits 1 with the producing command when plan.md or tasks.md is missing", async () => {
+    const featureDir = featureRepo();
+
+    let result = await speckit("check-prerequisites", ["--json"]);
+    assert.equal(result.status, 1);
+    assert.deepEqual(result.stderr, [
+      `ERROR: plan.md not found in ${featureDir}`,
+      "Run /tf-plan first (plan phase) to create the implementation plan.",
+    ]);
+
+    repo.write("specs/001-s3-bucket/plan.md", "# Implementation Plan: S3 Bucket\n");
+    result = await speckit("check-prerequisites", ["--json", "--require-tasks"]);
+    assert.equal(result.status, 1);
+    assert.equal(result.stderr[0], `ERROR: tasks.md not found in ${featureDir}`);
+  });
+
+  it("lists the available documents", async () => {
+    const featureDir = featureRepo();
+    repo.write("specs/001-s3-bucket/plan.md", "# Implementation Plan: S3 Bucket\n");
+    repo.write("specs/001-s3-bucket/research-providers.md", "");
+    repo.write("specs/001-s3-bucket/contracts/data-model.md", "");
+    repo.write("specs/001-s3-bucket/tasks.md", "");
+
+    let result = await speckit("check-prerequisites", ["--json", "--include-tasks"]);
+    assert.equal(result.status, 0);
+    assert.deepEqual(json(result.stdout), {
+      FEATURE_DIR: featureDir,
+      AVAILABLE_DOCS: ["research-providers.md", "contracts/data-model.md", "contracts/", "tasks.md"],
+    });
+
+    result = await speckit("check-prerequisites", []);
+    assert.deepEqual(result.stdout, [
+      `FEATURE_DIR:${featureDir}`,
+      "AVAILABLE_DOCS:",
+      "  ✓ research-providers.md",
+      "  ✓ contracts/data-model.md",
+      "  ✓ contracts/",
+      "  ✗ quickstart.md",
+    ]);
+  });
+
+  it("prints only the paths with --paths-only", async () => {
+    const featureDir = featureRepo();
+
+    const result = await speckit("check-prerequisites", ["--json", "--paths-only"]);
+
+    assert.equal(result.status, 0);
+    assert.deepEqual(json(result.stdout), {
+      REPO_ROOT: repo.root,
+      BRANCH: "001-s3-bucket",
+      FEATURE_DIR: featureDir,
+      FEATURE_SPEC: join(featureDir, "spec.md"),
+      IMPL_PLAN: join(featureDir, "plan.md"),
+      TASKS: join(featureDir, "tasks.md"),
+    });
+  });
+
+  it("rejects unknown options", async () => {
+    featureRepo();
+
+    const result = await speckit("check-prerequisites", ["--verbose"]);
+
+    assert.equal(result.status, 1);
+    assert.deepEqual(result.stderr, ["ERROR: Unknown option '--verbose'. Use --help for usage information."]);
+  });
+
+  it("keeps the .specify hints and research.md in the specify layout", async () => {
+    featureRepo();
+    const env = { SPECKIT_LAYOUT: "specify" };
+
+    let result = await speckit("check-prerequisites", ["--json"], captureContext(repo.root, env));
+    assert.equal(result.stderr[1], "Run /speckit.plan first to create the implementation plan.");
+
+    repo.write("specs/001-s3-bucket/plan.md", "");
+    repo.write("specs/001-s3-bucket/research.md", "");
+    repo.write("specs/001-s3-bucket/data-model.md", "");
+    result = await speckit("check-prerequisites", ["--json"], captureContext(repo.root, env));
+    assert.deepEqual(json(result.stdout).AVAILABLE_DOCS, ["research.md", "data-model.md"]);
+  });
+});
+
+describe("paths", () => {
+  it("prints shell-quoted assignments for eval", async () => {
+    const featureDir = featureRepo();
+
+    const result = await speckit("paths", []);
+
+    assert.equal(result.status, 0);
+    assert.deepEqual(result.stdout.slice(0, 4), [
+      `REPO_ROOT='${repo.root}'`,
+      "CURRENT_BRANCH='001-s3-bucket'",
+      "HAS_GIT='true'",
+      `FEATURE_DIR='${featureDir}'`,
+    ]);
+    assert.ok(result.stdout.includes(`RESEARCH_GLOB='${join(featureDir, "research-*.md")}'`));
+  });
+
+  it("reports RESEARCH instead of RESEARCH_GLOB in the specify layout", async () => {
+    const featureDir = featureRepo();
+
+    const result = await speckit("paths", ["--json"], captureContext(repo.root, { SPECKIT_LAYOUT: "specify" }));
+
+    const variables = json(result.stdout);
+    assert.equal(variables.RESEARCH, join(featureDir, "research.md"));
+    assert.equal(variables.DATA_MODEL, join(featureDir, "data-model.md"));
+    assert.equal(variables.RESEARCH_GLOB, undefined);
+  });
+
+  it("resolves SPECIFY_FEATURE against the scripts' own checkout without git", async () => {
+    repo = tempRepo({ git: false });
+
+    const result = await speckit("paths", ["--json"], captureContext(repo.root, { SPECIFY_FEATURE: "004-vpc" }));
+
+    const variables = json(result.stdout);
+    assert.equal(variables.HAS_GIT, "false");
+    assert.equal(variables.FEATURE_DIR, join(REPO_ROOT, "specs", "004-vpc"));
+  });
+});
+
+describe("setup-plan", () => {
+  it("copies the plan template and keeps stdout to the JSON object", async () => {
+    const featureDir = featureRepo();
+
+    const result = await speckit("setup-plan", ["--json"]);
+
+    assert.equal(result.status, 0);
+    assert.deepEqual(json(result.stdout), {
+      FEATURE_SPEC: join(featureDir, "spec.md"),
+      IMPL_PLAN: join(featureDir, "plan.md"),
+      SPECS_DIR: featureDir,
+      BRANCH: "001-s3-bucket",
+      HAS_GIT: "true",
+    });
+    assert.deepEqual(result.stderr, [`Copied plan template to ${join(featureDir, "plan.md")}`]);
+    assert.equal(
+      readFileSync(join(featureDir, "plan.md"), "utf8"),
+      readFileSync(join(TEMPLATES_DIR, "plan-template.md"), "utf8"),
+    );
+  });
+});
+
+describe("update-agent-context", () => {
+  it("reads the fields of a plan.md without a Technical Context section through the wrapper, with a warning", () => {
+    const featureDir = featureRepo();
+    repo.write(
+      ".specify/templates/agent-file-template.md",
+      readFileSync(join(REPO_ROOT, ".specify", "templates", "agent-file-template.md"), "utf8"),
+    );
+    repo.write(
+      "specs/001-s3-bucket/plan.md",
+      "# Implementation Plan: S3 Bucket\n\n## Summary\n\n**Language/Version**: Terraform 1.9\n**Primary Dependencies**: hashicorp/aws\n",
+    );
+
+    const result = wrapper(".foundations", "update-agent-context", ["claude"]);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stderr, /^WARNING: plan\.md does not follow plan-template\.md/m);
+    assert.match(result.stderr, new RegExp(`${join(featureDir, "plan.md")}:1: .*Technical Context`));
+    assert.match(
+      readFileSync(join(repo.root, "CLAUDE.md"), "utf8"),
+      /^- Terraform 1\.9 \+ hashicorp\/aws \(001-s3-bucket\)$/m,
+    );
+  });
+});
+
+describe("wrappers", () => {
+  it("keeps each copy's feature layout, and .specify follows an exported SPECKIT_LAYOUT", () => {
+    featureRepo();
+    for (const doc of ["plan.md", "research.md", "data-model.md", "research-aws.md", "contracts/data-model.md"]) {
+      repo.write(`specs/001-s3-bucket/${doc}`, "");
+    }
+    const docs = (result: ReturnType<typeof wrapper>) => {
+      assert.equal(result.status, 0, result.stderr);
+      return json(result.stdout.trim().split("\n")).AVAILABLE_DOCS;
+    };
+
+    assert.deepEqual(docs(wrapper(".specify", "check-prerequisites", ["--json"])), [
+      "research.md",
+      "data-model.md",
+      "contracts/",
+    ]);
+    const foundations = ["research-aws.md", "contracts/data-model.md", "contracts/"];
+    assert.deepEqual(docs(wrapper(".foundations", "check-prerequisites", ["--json"])), foundations);
+    assert.deepEqual(
+      docs(wrapper(".specify", "check-prerequisites", ["--json"], { SPECKIT_LAYOUT: "foundations" })),
+      foundations,
+    );
+  });
+
+  it("reports gate_passed and checks from both copies of validate-env, with the deprecated fields from .specify", () => {
+    repo = tempRepo();
+    repo.write(
+      ".foundations/env-checks.json",
+      JSON.stringify({
+        checks: [{ name: "LINT_TOKEN", type: "env", severity: "WARN", options: { env: ["LINT_TOKEN"] } }],
+      }),
+    );
+    const output = (result: ReturnType<typeof wrapper>) => ({ status: result.status, ...JSON.parse(result.stdout) });
+
+    assert.deepEqual(output(wrapper(".specify", "validate-env", ["--json"], { TFE_TOKEN: "x" })), {
+      status: 1,
+      valid: false,
+      missing: ["GITHUB_TOKEN"],
+      present: ["TFE_TOKEN"],
+      gate_passed: false,
+      checks: [
+        { name: "TFE_TOKEN", severity: "GATE", passed: true, detail: "SET" },
+        { name: "GITHUB_TOKEN", severity: "GATE", passed: false, detail: "NOT SET — export GITHUB_TOKEN" },
+      ],
+    });
+    const foundations = {
+      status: 2,
+      gate_passed: true,
+      checks: [{ name: "LINT_TOKEN", severity: "WARN", passed: false, detail: "NOT SET — export LINT_TOKEN" }],
+    };
+    assert.deepEqual(output(wrapper(".foundations", "validate-env", ["--json"])), foundations);
+    assert.deepEqual(
+      output(wrapper(".specify", "validate-env", ["--json"], { SPECKIT_LAYOUT: "foundations" })),
+      foundations,
+    );
+  });
+});
+
+describe("validate-env", () => {
+  const CONFIG = JSON.stringify({
+    checks: [
+      { name: "DEPLOY_TOKEN", type: "env", severity: "GATE", options: { env: ["DEPLOY_TOKEN"] } },
+      { name: "LINT_TOKEN", type: "env", severity: "WARN", options: { env: ["LINT_TOKEN"] } },
+    ],
+  });
+
+  beforeEach(() => {
+    repo = tempRepo();
+    repo.write(".foundations/env-checks.json", CONFIG);
+  });
+
+  async function validate(env: NodeJS.ProcessEnv) {
+    const result = await speckit("validate-env", ["--json"], captureContext(repo.root, env));
+    const output = json(result.stdout) as { gate_passed: boolean; checks: { name: string; passed: boolean }[] };
+    return {
+      status: result.status,
+      gatePassed: output.gate_passed,
+      passed: output.checks.map((check) => check.passed),
+    };
+  }
+
+  it("exits 0 when every check passes", async () => {
+    assert.deepEqual(await validate({ DEPLOY_TOKEN: "x", LINT_TOKEN: "y" }), {
+      status: 0,
+      gatePassed: true,
+      passed: [true, true],
+    });
+  });
+
+  it("exits 2 when only WARN checks fail", async () => {
+    assert.deepEqual(await validate({ DEPLOY_TOKEN: "x" }), { status: 2, gatePassed: true, passed: [true, false] });
+  });
+
+  it("exits 1 when a GATE check fails", async () => {
+    assert.deepEqual(await validate({}), { status: 1, gatePassed: false, passed: [false, false] });
+  });
+
+  it("exits 1 on an invalid config", async () => {
+    repo.write("broken.json", JSON.stringify({ checks: [{ name: "X", type: "nope", severity: "GATE" }] }));
+
+    const result = await speckit("validate-env", ["--config", "broken.json"]);
+
+    assert.equal(result.status, 1);
+    assert.equal(result.stderr[0], "ERROR: Invalid environment check config:");
+  });
+
+  it("lists the configured checks in --help", async () => {
+    const result = await speckit("validate-env", ["--help"]);
+    const help = result.stdout.join("\n");
+
+    assert.equal(result.status, 0);
+    assert.match(help, /^GATE CHECKS:\n {2}DEPLOY_TOKEN +env \(env: DEPLOY_TOKEN\)$/m);
+    assert.match(help, /^WARN CHECKS:\n {2}LINT_TOKEN +env \(env: LINT_TOKEN\)$/m);
+    assert.doesNotMatch(help, /TFE_TOKEN {2,}/);
+  });
+
+  it("runs only TFE_TOKEN and GITHUB_TOKEN in the specify layout, whatever the config says", async () => {
+    const env = { SPECKIT_LAYOUT: "specify", TFE_TOKEN: "x", DEPLOY_TOKEN: "x" };
+
+    const result = await speckit("validate-env", ["--json"], captureContext(repo.root, env));
+
+    assert.equal(result.status, 1);
+    const output = json(result.stdout) as { valid: boolean; missing: string[]; checks: { name: string }[] };
+    assert.equal(output.valid, false);
+    assert.deepEqual(output.missing, ["GITHUB_TOKEN"]);
+    assert.deepEqual(
+      output.checks.map((check) => check.name),
+      ["TFE_TOKEN", "GITHUB_TOKEN"],
+    );
+  });
+});
+
+describe("checkpoint-commit", () => {
+  beforeEach(() => {
+    featureRepo();
+  });
+
+  it("exits 2 on invalid arguments", async () => {
+    assert.equal((await speckit("checkpoint-commit", [])).status, 2);
+    assert.equal((await speckit("checkpoint-commit", ["specify", "plan"])).status, 2);
+    assert.equal((await speckit("checkpoint-commit", ["--dir"])).status, 2);
+  });
+
+  it("commits and pushes the step's artifacts", async () => {
+    const remote = join(repo.root, ".remote.git");
+    runGit(repo.root, ["init", "--quiet", "--bare", remote]);
+    repo.git("remote", "add", "origin", remote);
+    repo.git("push", "--quiet", "--set-upstream", "origin", "001-s3-bucket");
+
+    const result = await speckit("checkpoint-commit", ["--json", "specify"]);
+
+    assert.equal(result.status, 0);
+    assert.deepEqual(json(result.stdout), {
+      committed: true,
+      pushed: true,
+      reason: "success",
+      message: "docs(s3-bucket): complete specify artifacts",
+    });
+    assert.equal(repo.git("log", "-1", "--format=%s").trim(), "docs(s3-bucket): complete specify artifacts");
+  });
+
+  it("exits 1 when the push fails but keeps the local commit", async () => {
+    const result = await speckit("checkpoint-commit", ["--prefix", "feat", "specify"]);
+
+    assert.equal(result.status, 1);
+    assert.equal(
+      result.stderr.at(-1),
+      "ERROR: git push failed. Commit was created locally: feat(s3-bucket): complete specify artifacts",
+    );
+    assert.equal(repo.git("status", "--porcelain", "specs").trim(), "");
+  });
+
+  it("exits 0 when there is nothing to commit", async () => {
+    repo.git("add", "specs");
+    repo.git("commit", "--quiet", "-m", "spec");
+
+    const result = await speckit("checkpoint-commit", ["--json", "specify"]);
+
+    assert.equal(result.status, 0);
+    assert.deepEqual(json(result.stdout), {
+      committed: false,
+      pushed: false,
+      reason: "nothing_to_commit",
+      message: "",
+    });
+  });
+});
+
+describe("workflow", () => {
+  let featureDir: string;
+
+  beforeEach(() => {
+    featureDir = featureRepo();
+    const remote = join(repo.root, ".remote.git");
+    runGit(repo.root, ["init", "--quiet", "--bare", remote]);
+    repo.git("remote", "add", "origin", remote);
+    repo.git("push", "--quiet", "--set-upstream", "origin", "001-s3-bucket");
+  });
+
+  function committedState(): {
+    phases: Record<string, { status: string; commit?: string; finished_at?: string }>;
+    checkpoints: object[];
+  } {
+    return JSON.parse(repo.git("show", "HEAD:specs/001-s3-bucket/workflow-state.json"));
+  }
+
+  it("commits the completed state with complete --commit and records the commit afterwards", async () => {
+    assert.equal((await speckit("workflow", ["start", "specify"])).status, 0);
+
+    assert.equal((await speckit("workflow", ["complete", "specify", "--commit"])).status, 0);
+
+    const head = repo.git("rev-parse", "HEAD").trim();
+    const committed = committedState();
+    assert.equal(committed.phases.specify.status, "complete");
+    assert.equal(committed.phases.specify.commit, undefined);
+    assert.deepEqual(committed.checkpoints, [
+      { step: "specify", phase: "specify", paths: ["specs"], created_at: committed.phases.specify.finished_at },
+    ]);
+    const saved = JSON.parse(readFileSync(join(featureDir, "workflow-state.json"), "utf8"));
+    assert.equal(saved.phases.specify.commit, head);
+    assert.equal(saved.checkpoints[0].commit, head);
+  });
+
+  it("refuses an out-of-order start with the phase to run first", async () => {
+    const result = await speckit("workflow", ["start", "plan"]);
+
+    assert.equal(result.status, 1);
+    assert.deepEqual(result.stderr, [
+      "ERROR: Cannot start plan: specify is pending",
+      "Run /speckit.specify first (specify phase).",
+    ]);
+    assert.equal(existsSync(join(featureDir, "workflow-state.json")), false);
+  });
+
+  it("refuses tasks without plan.md and implement without tasks.md", async () => {
+    for (const phase of ["specify", "plan", "tasks"]) {
+      if (phase !== "specify") repo.write(`specs/001-s3-bucket/${phase}.md`, `# ${phase}\n`);
+      assert.equal((await speckit("workflow", ["start", phase])).status, 0);
+      assert.equal((await speckit("workflow", ["complete", phase])).status, 0);
+    }
+    rmSync(join(featureDir, "tasks.md"));
+
+    const implement = await speckit("workflow", ["start", "implement"]);
+    rmSync(join(featureDir, "plan.md"));
+    const tasks = await speckit("workflow", ["start", "tasks"]);
+
+    assert.equal(implement.status, 1);
+    assert.deepEqual(implement.stderr, [
+      `ERROR: tasks.md not found in ${featureDir}`,
+      "Run /tf-plan first (tasks phase) to create the task list.",
+    ]);
+    assert.equal(tasks.status, 1);
+    assert.deepEqual(tasks.stderr, [
+      `ERROR: plan.md not found in ${featureDir}`,
+      "Run /tf-plan first (plan phase) to create the implementation plan.",
+    ]);
+  });
+
+  it("names the phase and checkpoint to resume from", async () => {
+    await speckit("workflow", ["start", "specify"]);
+    await speckit("workflow", ["complete", "specify", "--commit"]);
+    await speckit("workflow", ["start", "plan"]);
+    await speckit("workflow", ["checkpoint", "research"]);
+    const commit = repo.git("rev-parse", "--short=7", "HEAD").trim();
+
+    const result = await speckit("workflow", ["resume"]);
+
+    assert.equal(result.status, 0);
+    assert.deepEqual(result.stdout, [`Next: resume plan (/speckit.plan) after checkpoint research (${commit})`]);
+  });
+
+  it("rolls back the paths the checkpoint staged, outside the feature directory too, and commits them", async () => {
+    await speckit("workflow", ["start", "specify"]);
+    repo.write("docs/notes.md", "v1\n");
+    assert.equal((await speckit("workflow", ["checkpoint", "draft", "--dir", "docs"])).status, 0);
+    repo.write("docs/notes.md", "v2\n");
+    repo.write("docs/added.md", "new\n");
+    repo.write("specs/001-s3-bucket/spec.md", "# Feature Specification: S3 Bucket v2\n");
+    repo.git("add", "docs", "specs/001-s3-bucket/spec.md");
+    repo.git("commit", "--quiet", "-m", "edit");
+    repo.write("unrelated.md", "staged\n");
+    repo.git("add", "unrelated.md");
+
+    const result = await speckit("workflow", ["rollback", "draft"]);
+
+    assert.equal(result.status, 0, result.stderr.join("\n"));
+    assert.equal(readFileSync(join(repo.root, "docs/notes.md"), "utf8"), "v1\n");
+    assert.equal(readFileSync(join(featureDir, "spec.md"), "utf8"), "# Feature Specification: S3 Bucket v2\n");
+    assert.equal(repo.git("log", "-1", "--format=%s").trim(), "docs(s3-bucket): roll back to draft");
+    assert.deepEqual(repo.git("show", "--name-status", "--format=", "HEAD").trim().split("\n"), [
+      "D\tdocs/added.md",
+      "M\tdocs/notes.md",
+      "M\tspecs/001-s3-bucket/workflow-state.json",
+    ]);
+    assert.equal(repo.git("status", "--porcelain", "--", "docs", "specs").trim(), "");
+    assert.equal(repo.git("diff", "--cached", "--name-only").trim(), "unrelated.md");
+    assert.equal(repo.git("rev-parse", "HEAD").trim(), repo.git("rev-parse", "origin/001-s3-bucket").trim());
+    assert.equal(committedState().checkpoints.length, 1);
+  });
+
+  it("puts the state file back when the checkpoint commit fails", async () => {
+    await speckit("workflow", ["start", "specify"]);
+    const before = readFileSync(join(featureDir, "workflow-state.json"), "utf8");
+    chmodSync(repo.write(".git/hooks/pre-commit", "#!/bin/sh\nexit 1\n"), 0o755);
+
+    const result = await speckit("workflow", ["complete", "specify", "--commit"]);
+
+    assert.equal(result.status, 1);
+    assert.equal(readFileSync(join(featureDir, "workflow-state.json"), "utf8"), before);
+  });
+});
+
+describe("post-issue-progress", () => {
+  const env = { GITHUB_REPOSITORY: "octo/repo" };
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    repo = tempRepo();
+    github = await startFakeGitHub();
+    seedIssue(github.data, "octo/repo", { title: "VPC module", labels: ["bug"] });
+  });
+
+  afterEach(() => github.close());
+
+  async function post(...args: string[]) {
+    const result = await speckit(
+      "post-issue-progress",
+      ["--api-url", github.url, "--json", "--no-tasks", "1", ...args],
+      captureContext(repo.root, env),
+    );
+    assert.equal(result.status, 0, result.stderr.join("\n"));
+    return json(result.stdout);
+  }
+
+  it("creates the comment once, then updates it and swaps the phase label", async () => {
+    const first = await post("Environment Validation", "complete", "All gates passed");
+    const second = await post("Planning", "started");
+
+    assert.deepEqual(
+      [first.created, first.labels_added, first.labels_removed],
+      [true, ["speckit:environment-validation"], []],
+    );
+    assert.deepEqual(
+      [second.created, second.comment_id, second.labels_added, second.labels_removed],
+      [false, first.comment_id, ["speckit:planning"], ["speckit:environment-validation"]],
+    );
+    const { issues, comments } = github.data.repos["octo/repo"];
+    assert.equal(comments.length, 1);
+    assert.match(comments[0].body, /Environment Validation[\s\S]*Planning/);
+    assert.deepEqual(issues[0].labels, ["bug", "speckit:planning"]);
+  });
+
+  it("leaves progress comments by other users alone", async () => {
+    const pasted = `${PROGRESS_MARKER}\nquoted from another issue`;
+    github.data.repos["octo/repo"].comments.push({
+      id: 100,
+      issue: 1,
+      user: "someone-else",
+      body: pasted,
+      created_at: "2025-01-07T10:00:00Z",
+      updated_at: "2025-01-07T10:00:00Z",
+    });
+
+    const result = await post("Environment Validation", "started");
+
+    assert.equal(result.created, true);
+    assert.notEqual(result.comment_id, 100);
+    assert.equal(github.data.repos["octo/repo"].comments[0].body, pasted);
+  });
+
+  it("requires a token unless --api-url is given, whatever GITHUB_API_URL says", async () => {
+    const ctx = captureContext(repo.root, { ...env, GITHUB_API_URL: github.url });
+
+    const result = await speckit("post-issue-progress", ["--no-tasks", "1", "Planning", "started"], ctx);
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr[0], /^Error: no GitHub token for github\.com/);
+    assert.deepEqual(github.requests, []);
+  });
+});
+
+describe("tasks-to-issues", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    featureRepo();
+    repo.write("specs/001-s3-bucket/tasks.md", readFileSync(join(FIXTURES_DIR, "001-s3-bucket", "tasks.md"), "utf8"));
+    repo.git("remote", "add", "origin", "https://github.com/octo/repo.git");
+    github = await startFakeGitHub();
+    github.data.repos["octo/repo"] = { issues: [], comments: [] };
+  });
+
+  afterEach(() => github.close());
+
+  async function sync() {
+    const result = await speckit("tasks-to-issues", ["--api-url", github.url, "--json"]);
+    assert.equal(result.status, 0, result.stderr.join("\n"));
+    return json(result.stdout) as { summary: Record<string, number> };
+  }
+
+  it("creates issues and sub-issues once and leaves them unchanged on the next run", async () => {
+    const first = await sync();
+    const issues = structuredClone(github.data.repos["octo/repo"].issues);
+    const second = await sync();
+
+    assert.deepEqual(first.summary, { create: 9, update: 0, close: 0, unchanged: 0 });
+    assert.deepEqual(second.summary, { create: 0, update: 0, close: 0, unchanged: 9 });
+    assert.deepEqual(github.data.repos["octo/repo"].issues, issues);
+    const t003 = issues.find((issue) => issue.title.startsWith("T003"));
+    const us1 = issues.find((issue) => issue.number === t003?.parent);
+    assert.match(us1?.title ?? "", /User Story 1 - Private bucket/);
+    assert.deepEqual(
+      issues.filter((issue) => issue.state === "closed").map((issue) => issue.title.split(":")[0]),
+      ["Phase 1", "T001", "T002"],
+    );
+  });
+});
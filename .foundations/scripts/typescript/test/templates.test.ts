@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  TemplateRenderError,
+  parseTemplate,
+  readTemplate,
+  renderChecklist,
+  renderRemediationLog,
+  renderTemplate,
+  scoreCodeQuality,
+  templatePath,
+  validateReportData,
+} from "../lib/templates/index.ts";
+import { REPO_ROOT } from "./helpers.ts";
+
+const BADGE_TEMPLATE = `# Report for {{FEATURE}}
+
+**Status**: {{STATUS_BADGE}}
+
+{{STATUS_BADGE}} options:
+- ✅ **Ready** (7.0-10.0)
+- ❌ **Not Ready** (0.0-6.9)
+
+| Name | Value |
+|------|-------|
+| {{ROW_NAME}} | {{ROW_VALUE}} |
+
+<!-- {{IGNORED}} in a comment -->
+Owner: [OWNER]
+`;
+
+function renderErrors(render: () => string): string[] {
+  try {
+    render();
+  } catch (error) {
+    assert.ok(error instanceof TemplateRenderError);
+    return error.diagnostics.map((diagnostic) => `${diagnostic.line}: ${diagnostic.message}`);
+  }
+  assert.fail("expected a TemplateRenderError");
+}
+
+describe("parseTemplate", () => {
+  it("collects slots and badge options outside comments", () => {
+    const template = parseTemplate(BADGE_TEMPLATE);
+
+    assert.deepEqual(
+      template.slots.map((slot) => `${slot.kind}:${slot.name}`),
+      ["brace:FEATURE", "brace:STATUS_BADGE", "brace:ROW_NAME", "brace:ROW_VALUE", "bracket:[OWNER]"],
+    );
+    assert.deepEqual(template.badges.STATUS_BADGE.options, ["✅ **Ready**", "❌ **Not Ready**"]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("fills slots, repeats rows and drops the options block", () => {
+    const output = renderTemplate(parseTemplate(BADGE_TEMPLATE), {
+      values: { FEATURE: "s3-bucket", STATUS_BADGE: "✅ **Ready**" },
+      rows: {
+        ROW_NAME: [
+          { ROW_NAME: "score", ROW_VALUE: 7.5 },
+          { ROW_NAME: "issues", ROW_VALUE: 0 },
+        ],
+      },
+    });
+
+    assert.equal(
+      output,
+      `# Report for s3-bucket
+
+**Status**: ✅ **Ready**
+
+| Name | Value |
+|------|-------|
+| score | 7.5 |
+| issues | 0 |
+
+<!-- {{IGNORED}} in a comment -->
+Owner: [OWNER]
+`,
+    );
+  });
+
+  it("reports every unfilled slot and invalid badge at once", () => {
+    const template = parseTemplate(BADGE_TEMPLATE, "report.md");
+    assert.deepEqual(
+      renderErrors(() =>
+        renderTemplate(template, { values: { STATUS_BADGE: "Ready", ROW_NAME: "score" } }, { brackets: true }),
+      ),
+      [
+        "1: {{FEATURE}} is not filled",
+        '5: {{STATUS_BADGE}} "Ready" is not one of the listed options: ✅ **Ready** | ❌ **Not Ready**',
+        "11: {{ROW_VALUE}} is not filled",
+        "14: [OWNER] is not filled",
+      ],
+    );
+  });
+});
+
+describe("scoreCodeQuality", () => {
+  const scores = { modules: 8, security: 9, quality: 7, variables: 8, testing: 7, constitution: 9 };
+
+  it("weights the dimensions and picks the readiness band", () => {
+    const score = scoreCodeQuality(scores);
+
+    assert.deepEqual(score.weighted, {
+      modules: 2,
+      security: 2.7,
+      quality: 1.05,
+      variables: 0.8,
+      testing: 0.7,
+      constitution: 0.9,
+    });
+    assert.equal(score.overallWeighted, 8.15);
+    assert.equal(score.overall, 8.2);
+    assert.equal(score.readiness, "production_ready");
+    assert.equal(score.securityOverride, false);
+  });
+
+  it("forces Not Production Ready when security is below 5.0", () => {
+    const score = scoreCodeQuality({ ...scores, modules: 10, quality: 10, security: 4.9 });
+
+    assert.equal(score.securityOverride, true);
+    assert.equal(score.readiness, "not_production_ready");
+  });
+});
+
+describe("report templates", () => {
+  it("renders the remediation log with one row per finding", async () => {
+    const template = await readTemplate(templatePath("remediation", REPO_ROOT));
+    const output = renderRemediationLog(template, {
+      iteration: 2,
+      entries: [
+        {
+          findingId: "SEC-001",
+          severity: "HIGH",
+          filesChanged: ["main.tf", "variables.tf"],
+          change: "Block public ACLs | policies",
+          verifiedIn: "tests/basic.tftest.hcl",
+        },
+      ],
+    });
+
+    assert.match(output, /^## Iteration 2$/m);
+    assert.match(
+      output,
+      /^\| SEC-001 \| HIGH \| `main\.tf`, `variables\.tf` \| Block public ACLs \\\| policies \| tests\/basic\.tftest\.hcl \|$/m,
+    );
+  });
+
+  it("replaces the checklist sample items and numbers items across categories", async () => {
+    const template = await readTemplate(templatePath("checklist", REPO_ROOT));
+    const output = renderChecklist(template, {
+      checklistType: "Security",
+      featureName: "S3 Bucket Module",
+      purpose: "Security requirements quality",
+      created: "2025-01-07",
+      featureLink: "[spec.md](../spec.md)",
+      categories: [
+        { name: "Access", items: [{ text: "Public access is blocked" }, { text: "Policies are least privilege" }] },
+        { name: "Logging", items: [{ text: "Access logs are retained", checked: true }] },
+      ],
+    });
+
+    assert.match(output, /^# Security Checklist: S3 Bucket Module$/m);
+    assert.doesNotMatch(output, /SAMPLE ITEMS|\[Category 1\]|First checklist item/);
+    assert.match(output, /^- \[ \] CHK002 Policies are least privilege$/m);
+    assert.match(output, /^## Logging\n\n- \[x\] CHK003 Access logs are retained$/m);
+    assert.match(output, /^## Notes$/m);
+  });
+});
+
+describe("validateReportData", () => {
+  const remediation = {
+    iteration: 1,
+    entries: [{ findingId: "SEC-001", severity: "HIGH", filesChanged: ["main.tf"], change: "x", verifiedIn: "y" }],
+  };
+
+  it("accepts data matching the renderer's input", () => {
+    assert.deepEqual(validateReportData("remediation", remediation), []);
+    assert.deepEqual(
+      validateReportData("checklist", {
+        checklistType: "Security",
+        featureName: "S3",
+        purpose: "p",
+        created: "2025-01-07",
+        featureLink: "spec.md",
+        categories: [{ name: "Access", items: [{ text: "a" }, { text: "b", checked: true }] }],
+      }),
+      [],
+    );
+  });
+
+  it("reports each wrong field by its path", () => {
+    const data = {
+      ...remediation,
+      iteration: "1",
+      entries: [{ ...remediation.entries[0], severity: "URGENT", filesChanged: "main.tf", verified: "y" }],
+    };
+    assert.deepEqual(validateReportData("remediation", data), [
+      '"iteration" must be an integer >= 0',
+      'unknown field "entries[0].verified"',
+      '"entries[0].severity" must be one of CRITICAL, HIGH, MEDIUM, LOW',
+      '"entries[0].filesChanged" must be an array',
+    ]);
+  });
+
+  it("reports missing nested code-quality fields instead of failing on them", () => {
+    const problems = validateReportData("code-quality", {
+      featureName: "s3-bucket",
+      strengths: ["a", "b"],
+      dimensions: { modules: { score: 11, strengths: "", issues: "", recommendations: "" } },
+    });
+
+    assert.ok(problems.includes('"strengths" must be an array of 3 items'));
+    assert.ok(problems.includes('"dimensions.modules.score" must be a number from 0 to 10'));
+    assert.ok(problems.includes('missing required field "dimensions.security"'));
+    assert.ok(problems.includes('missing required field "tools"'));
+  });
+
+  it("leaves missing deployment text fields to the renderer", () => {
+    const problems = validateReportData("deployment", { text: { BASE_BRANCH: "main", COMMIT_COUNT: [3] } });
+
+    assert.ok(problems.includes('"text.COMMIT_COUNT" must be a string or a number'));
+    assert.ok(!problems.some((problem) => problem.includes("text.ARCHITECTURE_DESCRIPTION")));
+  });
+
+  it("rejects values that are not objects", () => {
+    assert.deepEqual(validateReportData("checklist", []), ["data must be an object"]);
+  });
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { type FeaturePaths, getFeaturePaths } from "../lib/common.ts";
+import {
+  type Phase,
+  type PhaseState,
+  type WorkflowState,
+  emptyState,
+  nextAction,
+  recordCheckpoint,
+  startPhase,
+} from "../lib/workflow/index.ts";
+import { NOW, type TempRepo, tempRepo } from "./helpers.ts";
+
+let repo: TempRepo;
+let paths: FeaturePaths;
+
+beforeEach(() => {
+  repo = tempRepo();
+  repo.git("checkout", "--quiet", "-b", "001-s3-bucket");
+  repo.write("specs/001-s3-bucket/spec.md", "# Feature Specification: S3 Bucket\n");
+  paths = getFeaturePaths(repo.root, {}, () => {});
+});
+
+afterEach(() => repo.remove());
+
+function stateWith(statuses: Partial<Record<Phase, PhaseState>>): WorkflowState {
+  const state = emptyState("001-s3-bucket");
+  for (const [phase, status] of Object.entries(statuses)) state.phases[phase as Phase] = { status };
+  return state;
+}
+
+describe("startPhase", () => {
+  it("refuses a phase whose earlier required phases are not complete", () => {
+    assert.throws(() => startPhase(emptyState("001-s3-bucket"), "plan", paths, NOW), {
+      name: "WorkflowError",
+      message: "Cannot start plan: specify is pending",
+      hint: "Run /speckit.specify first (specify phase).",
+    });
+    assert.throws(() => startPhase(stateWith({ specify: "complete", clarify: "failed" }), "plan", paths, NOW), {
+      message: "Cannot start plan: clarify is failed",
+    });
+  });
+
+  it("lets a pending or skipped optional phase be passed over", () => {
+    const state = stateWith({ specify: "complete", clarify: "skipped" });
+
+    assert.deepEqual(startPhase(state, "plan", paths, NOW), []);
+    assert.deepEqual(state.phases.plan, { status: "in_progress", started_at: NOW.toISOString() });
+  });
+
+  it("requires plan.md before tasks", () => {
+    const state = stateWith({ specify: "complete", plan: "complete" });
+
+    assert.throws(() => startPhase(state, "tasks", paths, NOW), {
+      message: `plan.md not found in ${paths.featureDir}`,
+      hint: "Run /tf-plan first (plan phase) to create the implementation plan.",
+    });
+    repo.write("specs/001-s3-bucket/plan.md", "# Implementation Plan\n");
+    startPhase(state, "tasks", paths, NOW);
+    assert.equal(state.phases.tasks.status, "in_progress");
+  });
+
+  it("requires tasks.md before implement", () => {
+    repo.write("specs/001-s3-bucket/plan.md", "# Implementation Plan\n");
+    const state = stateWith({ specify: "complete", plan: "complete", tasks: "complete" });
+
+    assert.throws(() => startPhase(state, "implement", paths, NOW), {
+      message: `tasks.md not found in ${paths.featureDir}`,
+      hint: "Run /tf-plan first (tasks phase) to create the task list.",
+    });
+    repo.write("specs/001-s3-bucket/tasks.md", "# Tasks\n");
+    startPhase(state, "implement", paths, NOW);
+    assert.equal(state.phases.implement.status, "in_progress");
+  });
+
+  it("resets the later phases when a finished phase restarts", () => {
+    const state = stateWith({ specify: "complete", clarify: "skipped", plan: "complete", tasks: "failed" });
+
+    assert.deepEqual(startPhase(state, "specify", paths, NOW), ["clarify", "plan", "tasks"]);
+    assert.deepEqual(
+      Object.values(state.phases).map((record) => record.status),
+      ["in_progress", "pending", "pending", "pending", "pending", "pending", "pending"],
+    );
+  });
+});
+
+describe("nextAction", () => {
+  it("starts the first phase of a new feature and is done when every phase is", () => {
+    assert.deepEqual(nextAction(emptyState("001-s3-bucket")), { action: "start", phase: "specify" });
+    assert.deepEqual(
+      nextAction(
+        stateWith({
+          specify: "complete",
+          clarify: "skipped",
+          plan: "complete",
+          tasks: "complete",
+          analyze: "skipped",
+          implement: "complete",
+          report: "complete",
+        }),
+      ),
+      { action: "done" },
+    );
+  });
+
+  it("starts the phase after the last one that ran, passing over an optional one", () => {
+    assert.deepEqual(nextAction(stateWith({ specify: "complete", plan: "complete" })), {
+      action: "start",
+      phase: "tasks",
+    });
+  });
+
+  it("resumes the phase in progress from its latest checkpoint", () => {
+    const state = stateWith({ specify: "complete", plan: "in_progress" });
+    recordCheckpoint(state, "specify", "specify", ["specs"], NOW);
+    recordCheckpoint(state, "research", "plan", ["specs"], NOW);
+    const latest = recordCheckpoint(state, "design-review", "plan", ["specs"], NOW);
+
+    assert.deepEqual(nextAction(state), { action: "resume", phase: "plan", checkpoint: latest });
+  });
+
+  it("retries a failed phase", () => {
+    assert.deepEqual(nextAction(stateWith({ specify: "complete", plan: "failed" })), {
+      action: "retry",
+      phase: "plan",
+    });
+  });
+});